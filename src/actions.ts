@@ -0,0 +1,154 @@
+import { Action, ActionResult, Levers, MiniBalanceSheet, FinancingActions } from './contracts'
+import { LEVER_BOUNDS, ONE_OFF_LEVERS } from './levers'
+import { HeadcountChanges } from './workforce'
+import { DEFAULT_HIRING_FUNCTION } from './rules/workforce'
+import { LeverKey } from './rules/leverPatterns'
+
+/**
+ * Structured actions.
+ * Typed moves submitted with a turn are validated in order against the opening balance sheet, the
+ * credit headroom and the lever bounds. Lever actions become declared levers (overriding any the
+ * evaluator read from the text), and hires also record their function; financing actions become
+ * explicit draws, repayments and dividends.
+ * Out-of-range values are clipped to what the state allows, and rejected when nothing is left.
+ */
+
+export interface ActionContext {
+  standing: Levers            // levers in force before this turn
+  balance: MiniBalanceSheet   // opening balance sheet
+  credit_limit: number
+  min_cash_buffer: number
+  base_price: number          // average price with no price lever
+}
+
+export interface ResolvedActions {
+  levers: Levers
+  financing: FinancingActions
+  hires: HeadcountChanges // heads hired (+) or cut (-) by function
+  results: ActionResult[]
+}
+
+type LeverAction = Exclude<Action, { type: 'set_price' | 'hire' | 'draw_debt' | 'repay_debt' | 'pay_dividend' }>
+
+/**
+ * Lever a lever action moves, and the change it requests
+ */
+function leverChange(action: LeverAction): [LeverKey, number] {
+  switch (action.type) {
+    case 'change_price': return ['price_pct', action.pct]
+    case 'change_opex': return ['opex_pct', action.pct]
+    case 'change_cogs': return ['cogs_pct', action.pct]
+    case 'adjust_dpo': return ['dpo_days', action.days]
+    case 'adjust_dso': return ['dso_days', action.days]
+    case 'adjust_safety_stock': return ['safety_stock_pct', action.pct]
+    case 'invest_capex': return ['capex', action.amount]
+    case 'buy_back_shares': return ['buyback_pct', action.pct]
+  }
+}
+
+const round = (x: number) => Math.round(x * 1e6) / 1e6
+
+/**
+ * Validate actions in order and convert them into levers and financing
+ */
+export function resolveActions(actions: Action[] | undefined, ctx: ActionContext): ResolvedActions {
+  const levers: Levers = {}
+  const financing: FinancingActions = { draw: 0, repay: 0, dividend: 0 }
+  const hires: HeadcountChanges = {}
+  const results: ActionResult[] = []
+
+  const record = (action: Action, requested: number, applied: number, reason: string) => {
+    const status = applied === 0 && requested !== 0 ? 'rejected' : round(applied) !== round(requested) ? 'clipped' : 'applied'
+    results.push(status === 'applied' ? { action, status, applied } : { action, status, applied, reason })
+  }
+
+  // Declare a lever change, keeping standing + declared within its bounds
+  const declareLever = (lever: LeverKey, requested: number): number => {
+    const bound = LEVER_BOUNDS[lever]
+    const carried = ONE_OFF_LEVERS.includes(lever) ? 0 : ctx.standing[lever] ?? 0
+    const current = carried + (levers[lever] ?? 0)
+    const applied = Math.min(bound.max, Math.max(bound.min, current + requested)) - current
+    if (applied !== 0) levers[lever] = (levers[lever] ?? 0) + applied
+    return applied
+  }
+
+  // Cash the opening balance can fund above the minimum buffer
+  const spendable = () =>
+    Math.max(0, ctx.balance.cash + financing.draw - financing.repay - financing.dividend - ctx.min_cash_buffer)
+
+  for (const action of actions ?? []) {
+    switch (action.type) {
+      case 'set_price': {
+        const target = (action.price / ctx.base_price - 1) * 100
+        const current = (ctx.standing.price_pct ?? 0) + (levers.price_pct ?? 0)
+        const applied = declareLever('price_pct', target - current)
+        const price = ctx.base_price * (1 + (current + applied) / 100)
+        record(action, action.price, price, `price limited to ${LEVER_BOUNDS.price_pct.min}..+${LEVER_BOUNDS.price_pct.max}% of $${ctx.base_price}`)
+        break
+      }
+      case 'hire': {
+        const applied = declareLever('headcount', action.count)
+        const team = action.function ?? DEFAULT_HIRING_FUNCTION
+        if (applied !== 0) hires[team] = (hires[team] ?? 0) + applied
+        record(action, action.count, applied, 'limited by headcount bounds')
+        break
+      }
+      case 'draw_debt': {
+        const headroom = Math.max(0, ctx.credit_limit - (ctx.balance.debt + financing.draw - financing.repay))
+        const applied = Math.min(action.amount, headroom)
+        financing.draw += applied
+        record(action, action.amount, applied, 'limited by undrawn credit')
+        break
+      }
+      case 'repay_debt': {
+        const outstanding = ctx.balance.debt + financing.draw - financing.repay
+        const applied = Math.min(action.amount, outstanding, spendable())
+        financing.repay += applied
+        record(action, action.amount, applied, 'limited by outstanding debt and cash above the buffer')
+        break
+      }
+      case 'pay_dividend': {
+        const distributable = Math.max(0, ctx.balance.retained_earnings - financing.dividend)
+        const applied = Math.min(action.amount, distributable, spendable())
+        financing.dividend += applied
+        record(action, action.amount, applied, 'limited by retained earnings and cash above the buffer')
+        break
+      }
+      default: {
+        const [lever, requested] = leverChange(action)
+        record(action, requested, declareLever(lever, requested), `limited by ${lever} bounds`)
+      }
+    }
+  }
+
+  return { levers, financing, hires, results }
+}
+
+/**
+ * Declaration text for an action-only turn, e.g. "Actions: set price $110; hire 5"
+ */
+export function describeActions(actions: Action[]): string {
+  const signed = (x: number) => `${x < 0 ? '-' : '+'}${Math.abs(x)}`
+  const dollars = (x: number) => `$${Math.round(x / 1000)}k`
+  const parts = actions.map(action => {
+    switch (action.type) {
+      case 'set_price': return `set price $${action.price}`
+      case 'change_price': return `price ${signed(action.pct)}%`
+      case 'change_opex': return `OpEx ${signed(action.pct)}%`
+      case 'change_cogs': return `COGS ${signed(action.pct)}%`
+      case 'hire': {
+        const team = action.function ? ` ${action.function}` : ''
+        return action.count < 0 ? `cut ${-action.count}${team} heads` : `hire ${action.count}${team}`
+      }
+      case 'adjust_dpo': return `DPO ${signed(action.days)} days`
+      case 'adjust_dso': return `DSO ${signed(action.days)} days`
+      case 'adjust_safety_stock': return `safety stock ${signed(action.pct)}%`
+      case 'invest_capex': return `capex ${dollars(action.amount)}`
+      case 'draw_debt': return `draw debt ${dollars(action.amount)}`
+      case 'repay_debt': return `repay debt ${dollars(action.amount)}`
+      case 'pay_dividend': return `pay dividend ${dollars(action.amount)}`
+      case 'buy_back_shares': return `buy back ${action.pct}% of shares`
+    }
+  })
+  return `Actions: ${parts.join('; ')}`
+}
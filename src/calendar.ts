@@ -0,0 +1,86 @@
+import { State } from './contracts'
+import { PRESSURE_BASELINE } from './pressures'
+import { SEASONALITY_CURVES, DEFAULT_SEASONALITY } from './rules/seasonality'
+
+/**
+ * Turn calendar and seasonal demand.
+ * Each turn is one month: it resolves State.period and the next state opens a month later.
+ * Unit demand follows the run's seasonality curve. Weather pressure changes how strong an
+ * in-season uplift is: calm weather (below baseline) amplifies it, bad weather dampens it.
+ * Off-season months are not affected by weather.
+ */
+
+export const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'] as const
+// Period assumed for states saved without one; new runs open at their difficulty's start_period
+export const DEFAULT_PERIOD = 'Sep 2025'
+
+// Change in the seasonal uplift per point of weather pressure above/below baseline
+export const WEATHER_SEASON_SENSITIVITY = 2.0
+const WEATHER_SCALE_MAX = 1.5
+
+export type Season = 'winter' | 'spring' | 'summer' | 'autumn'
+
+export interface CalendarMonth {
+  period: string
+  month: number // 0 = Jan
+  year: number
+  season: Season
+}
+
+/**
+ * Parse "Sep 2025"; unknown formats fall back to the default period
+ */
+export function parsePeriod(period: string | undefined): CalendarMonth {
+  const [mon, yr] = (period ?? DEFAULT_PERIOD).split(' ')
+  const month = MONTHS.indexOf(mon as typeof MONTHS[number])
+  const year = parseInt(yr, 10)
+  if (month < 0 || isNaN(year)) return parsePeriod(DEFAULT_PERIOD)
+  return { period: `${MONTHS[month]} ${year}`, month, year, season: seasonOf(month) }
+}
+
+/**
+ * Period one month later
+ */
+export function advancePeriod(period: string | undefined): string {
+  const { month, year } = parsePeriod(period)
+  return month === 11 ? `Jan ${year + 1}` : `${MONTHS[month + 1]} ${year}`
+}
+
+/**
+ * Northern-hemisphere season for a month
+ */
+export function seasonOf(month: number): Season {
+  if (month === 11 || month <= 1) return 'winter'
+  if (month <= 4) return 'spring'
+  if (month <= 7) return 'summer'
+  return 'autumn'
+}
+
+/**
+ * Monthly demand multiplier from the run's curve
+ */
+export function seasonalMultiplier(state: Pick<State, 'seasonality'>, month: number): number {
+  const curve = state.seasonality ?? SEASONALITY_CURVES[DEFAULT_SEASONALITY]
+  return curve[month] ?? 1
+}
+
+/**
+ * Seasonal units factor for the state's current period, with the weather adjustment
+ */
+export function seasonalDemand(state: State): { calendar: CalendarMonth; base: number; factor: number } {
+  const calendar = parsePeriod(state.period)
+  const base = seasonalMultiplier(state, calendar.month)
+  if (base <= 1) return { calendar, base, factor: base }
+
+  const weatherGap = state.flags.weather - PRESSURE_BASELINE.weather
+  const weatherScale = Math.min(WEATHER_SCALE_MAX, Math.max(0, 1 - WEATHER_SEASON_SENSITIVITY * weatherGap))
+  return { calendar, base, factor: 1 + (base - 1) * weatherScale }
+}
+
+/**
+ * Short description for prompts, e.g. "May 2026 (spring, seasonal demand x1.70)"
+ */
+export function describePeriod(state: Pick<State, 'period' | 'seasonality'>): string {
+  const calendar = parsePeriod(state.period)
+  return `${calendar.period} (${calendar.season}, seasonal demand x${seasonalMultiplier(state, calendar.month).toFixed(2)})`
+}
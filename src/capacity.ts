@@ -0,0 +1,113 @@
+import { Capacity, Headroom, Levers } from './contracts'
+
+/**
+ * Production capacity and the order backlog.
+ * The floor makes UNITS_PER_HEAD a month per assembly head on the first shift; every extra shift
+ * adds EXTRA_SHIFT_OUTPUT of that. Overtime (up to `headroom.ot_pct` of straight-time output) and
+ * temps (when `headroom.temps_allowed`) cover demand beyond that at a premium per unit. Each turn
+ * the floor ships new orders plus any backlog above NORMAL_BACKLOG (the working order book) up to
+ * capacity; what it cannot make stays in the backlog, and a long backlog hurts service.
+ */
+
+export const UNITS_PER_HEAD = 275         // units per head per month on one shift
+export const EXTRA_SHIFT_OUTPUT = 0.6     // output of each extra shift, relative to the first
+export const MAX_SHIFTS = 3
+export const SHIFT_MONTHLY_COST = 90_000  // crew and shift differential per extra shift
+export const OVERTIME_UNIT_PREMIUM = 16   // dollars per unit made on overtime
+export const TEMP_CAPACITY_PCT = 15       // temps add up to this % of straight-time output
+export const TEMP_UNIT_PREMIUM = 10       // dollars per unit made by temps
+
+export const NORMAL_BACKLOG = 6_000       // order book the floor works through in the normal lead time
+export const BACKLOG_SERVICE_DRAG = 0.5   // service points lost per 1,000 units of backlog above normal
+
+export const WEEKS_PER_TURN = 52 / 12
+
+export interface ShiftPlan {
+  shifts: number
+  shift_turns_left: number | null
+}
+
+export interface ProductionInput extends ShiftPlan {
+  headcount: number
+  headroom: Headroom
+  demand: number  // new orders this turn, units
+  backlog: number // opening backlog, units
+}
+
+export interface ProductionResult {
+  capacity: Capacity
+  backlog: number // closing backlog, units
+}
+
+const clamp = (x: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, x))
+
+/**
+ * Shifts running this turn: expire a temporary shift, then apply any declared change
+ */
+export function resolveShifts(prev: Capacity | undefined, declared: Levers): ShiftPlan {
+  let shifts = prev?.shifts ?? 1
+  let left = prev?.shift_turns_left ?? null
+  if (left !== null) {
+    if (left <= 0) {
+      shifts = 1
+      left = null
+    } else {
+      left -= 1
+    }
+  }
+
+  if (declared.shifts) {
+    shifts = clamp(shifts + Math.round(declared.shifts), 1, MAX_SHIFTS)
+    // "for 8 weeks" runs the added shifts this turn and the next; with no duration they stay
+    if (declared.shifts > 0) {
+      left = declared.shift_weeks ? Math.max(1, Math.ceil(declared.shift_weeks / WEEKS_PER_TURN)) - 1 : null
+    }
+  }
+  return { shifts, shift_turns_left: shifts > 1 ? left : null }
+}
+
+/**
+ * Run the floor for a turn: ship new orders and overdue backlog up to capacity
+ */
+export function runProduction(input: ProductionInput): ProductionResult {
+  const headcount = Math.max(0, input.headcount)
+  const regular = headcount * UNITS_PER_HEAD * (1 + EXTRA_SHIFT_OUTPUT * (input.shifts - 1))
+  const overtimeMax = regular * Math.max(0, input.headroom.ot_pct) / 100
+  const tempMax = input.headroom.temps_allowed ? regular * TEMP_CAPACITY_PCT / 100 : 0
+  const capacity = regular + overtimeMax + tempMax
+
+  const due = input.demand + Math.max(0, input.backlog - NORMAL_BACKLOG)
+  const shipped = Math.round(Math.min(due, capacity))
+  const overtime = clamp(shipped - regular, 0, overtimeMax)
+  const temps = clamp(shipped - regular - overtimeMax, 0, tempMax)
+  const shiftCost = SHIFT_MONTHLY_COST * (input.shifts - 1)
+  const overtimeCost = overtime * OVERTIME_UNIT_PREMIUM
+  const tempCost = temps * TEMP_UNIT_PREMIUM
+
+  return {
+    capacity: {
+      headcount,
+      shifts: input.shifts,
+      shift_turns_left: input.shift_turns_left,
+      regular_units: regular,
+      overtime_units: overtime,
+      temp_units: temps,
+      capacity_units: capacity,
+      demand_units: input.demand,
+      shipped_units: shipped,
+      utilization: capacity > 0 ? shipped / capacity : 0,
+      shift_cost: shiftCost,
+      overtime_cost: overtimeCost,
+      temp_cost: tempCost,
+      cost: shiftCost + overtimeCost + tempCost
+    },
+    backlog: Math.max(0, input.backlog + input.demand - shipped)
+  }
+}
+
+/**
+ * Service points lost to a backlog above the normal order book
+ */
+export function backlogServiceDrag(backlog: number): number {
+  return BACKLOG_SERVICE_DRAG * Math.max(0, backlog - NORMAL_BACKLOG) / 1000
+}
@@ -0,0 +1,128 @@
+import { CompetitorState, Market } from './contracts'
+import { COMPETITORS, CompetitorSpec, PROMO_TRIGGER } from './rules/competitors'
+import { NORMAL_BACKLOG } from './capacity'
+
+/**
+ * Competitor agents and the attraction model.
+ * Each turn the rivals in COMPETITORS re-price, adjust service and promote in response to our price
+ * and service. Every firm's attraction falls with its price against the $100 reference, rises with
+ * its service level and scales with how much of its demand it can serve; a constant fringe stands
+ * for the rest of the market. Shares are attraction over total attraction. The share KPI moves
+ * SHARE_ADJUSTMENT of the gap toward our model share each turn, so event and marketing share deltas
+ * only displace it for a while.
+ */
+
+export const REFERENCE_PRICE = 100
+export const REFERENCE_SERVICE = 90
+export const PRICE_SENSITIVITY = 2       // attraction elasticity to price
+export const SERVICE_SENSITIVITY = 0.03  // attraction gained per service point
+export const BASE_SHARE = 8.4            // our share at the reference price and service
+export const SHARE_ADJUSTMENT = 0.3      // share of the gap to the model share closed per turn
+
+// Backlog beyond NORMAL_BACKLOG lowers our availability, down to MIN_AVAILABILITY
+export const BACKLOG_AVAILABILITY_RANGE = 24_000
+export const MIN_AVAILABILITY = 0.5
+
+const clamp = (x: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, x))
+
+function appeal(price: number, service: number): number {
+  return Math.pow(Math.max(1, price) / REFERENCE_PRICE, -PRICE_SENSITIVITY) * Math.exp(SERVICE_SENSITIVITY * (service - REFERENCE_SERVICE))
+}
+
+// Weights calibrated so every firm holds its base share at its base price and service
+const OUR_WEIGHT = BASE_SHARE / appeal(REFERENCE_PRICE, REFERENCE_SERVICE)
+const RIVAL_WEIGHTS = COMPETITORS.map(spec => spec.base_share / appeal(spec.base_price, spec.base_service))
+const FRINGE_ATTRACTION = 100 - BASE_SHARE - COMPETITORS.reduce((sum, spec) => sum + spec.base_share, 0)
+
+export interface MarketInput {
+  price: number   // our average price this turn
+  service: number // our service KPI after this turn
+  backlog: number // our backlog after this turn
+}
+
+/**
+ * Share of our demand we can serve at a backlog
+ */
+export function ourAvailability(backlog: number): number {
+  return clamp(1 - Math.max(0, backlog - NORMAL_BACKLOG) / BACKLOG_AVAILABILITY_RANGE, MIN_AVAILABILITY, 1)
+}
+
+function baselineRival(spec: CompetitorSpec): CompetitorState {
+  return {
+    id: spec.id,
+    name: spec.name,
+    price: spec.base_price,
+    service: spec.base_service,
+    availability: 1,
+    share: spec.base_share,
+    promo: false
+  }
+}
+
+/**
+ * Market at the start of a run: every rival at its baseline
+ */
+export function initialMarket(): Market {
+  return { rivals: COMPETITORS.map(baselineRival), moves: [], model_share: BASE_SHARE }
+}
+
+/**
+ * Let the rivals react to our price and service, then share the market by attraction
+ */
+export function advanceMarket(market: Market | undefined, ours: MarketInput): Market {
+  const moves: string[] = []
+
+  const reacted = COMPETITORS.map(spec => {
+    const prev = market?.rivals.find(r => r.id === spec.id) ?? baselineRival(spec)
+    const prevList = prev.promo ? prev.price / (1 - spec.promo_depth) : prev.price
+    const listPrice = spec.base_price * (1 + spec.price_follow * (ours.price / REFERENCE_PRICE - 1))
+    const promo = spec.promo_depth > 0 && !prev.promo && prev.share < spec.base_share * (1 - PROMO_TRIGGER)
+    const service = clamp(spec.base_service + spec.service_follow * (ours.service - REFERENCE_SERVICE), 0, 100)
+
+    const priceChange = listPrice / prevList - 1
+    if (Math.abs(priceChange) >= 0.02) {
+      moves.push(`${spec.name} ${priceChange < 0 ? 'cuts' : 'raises'} prices ${Math.round(Math.abs(priceChange) * 100)}% to $${listPrice.toFixed(0)}`)
+    }
+    if (promo) {
+      moves.push(`${spec.name} promotes at ${Math.round(spec.promo_depth * 100)}% off to win back share`)
+    }
+    if (Math.abs(service - prev.service) >= 1) {
+      moves.push(`${spec.name} ${service > prev.service ? 'steps up' : 'scales back'} service`)
+    }
+    return { spec, prev, price: listPrice * (promo ? 1 - spec.promo_depth : 1), service, promo }
+  })
+
+  // Rivals whose share would pass their capacity serve only up to it; their turned-away demand
+  // spreads over everyone else. Cap them one round at a time until no other rival overflows.
+  const ourAttraction = OUR_WEIGHT * appeal(ours.price, ours.service) * ourAvailability(ours.backlog)
+  const demand = reacted.map((r, i) => RIVAL_WEIGHTS[i] * appeal(r.price, r.service))
+  const capped = reacted.map(() => false)
+  let total = 0
+  for (;;) {
+    const open = ourAttraction + FRINGE_ATTRACTION + demand.reduce((sum, a, i) => sum + (capped[i] ? 0 : a), 0)
+    const cappedShare = reacted.reduce((sum, r, i) => sum + (capped[i] ? r.spec.capacity_share : 0), 0)
+    total = open / (1 - cappedShare / 100)
+    const overflowing = reacted.map((r, i) => !capped[i] && 100 * demand[i] / total > r.spec.capacity_share)
+    if (!overflowing.some(Boolean)) break
+    overflowing.forEach((over, i) => { if (over) capped[i] = true })
+  }
+  const availability = reacted.map((r, i) => capped[i] ? r.spec.capacity_share * total / (100 * demand[i]) : 1)
+  const served = demand.map((a, i) => a * availability[i])
+
+  const rivals = reacted.map((r, i) => {
+    if (availability[i] < 1 && r.prev.availability >= 1) {
+      moves.push(`${r.spec.name} runs short of capacity`)
+    }
+    return {
+      id: r.spec.id,
+      name: r.spec.name,
+      price: r.price,
+      service: r.service,
+      availability: availability[i],
+      share: 100 * served[i] / total,
+      promo: r.promo
+    }
+  })
+
+  return { rivals, moves, model_share: 100 * ourAttraction / total }
+}
@@ -8,10 +8,11 @@ interface TopBarProps {
   theme: Theme;
   onThemeChange: (theme: Theme) => void;
   currentTurn: number;
+  difficulty?: string;
   lastUpdate?: string;
 }
 
-export function TopBar({ theme, onThemeChange, currentTurn, lastUpdate }: TopBarProps) {
+export function TopBar({ theme, onThemeChange, currentTurn, difficulty, lastUpdate }: TopBarProps) {
   return (
     <header className="bg-white dark:bg-zinc-900 border-b border-zinc-200 dark:border-zinc-800 px-6 py-4">
       <div className="max-w-7xl mx-auto flex justify-between items-center">
@@ -37,7 +38,7 @@ export function TopBar({ theme, onThemeChange, currentTurn, lastUpdate }: TopBar
           {/* Run Meta */}
           <div className="text-right">
             <div className="text-sm font-medium text-zinc-900 dark:text-zinc-100">
-              Turn {currentTurn}
+              Turn {currentTurn}{difficulty && ` · ${difficulty}`}
             </div>
             {lastUpdate && (
               <div className="text-xs text-zinc-600 dark:text-zinc-400">
@@ -1,11 +1,46 @@
 import { z } from 'zod'
+import { SEASONALITY_CURVES, SeasonalityCurveName, DEFAULT_SEASONALITY } from './rules/seasonality'
+import { DIFFICULTY_PRESETS, DifficultyName, DEFAULT_DIFFICULTY } from './rules/difficulty'
 
-// Core Caps schema with default values
+// Floor and ceiling for one KPI
+export const KpiBoundSchema = z.object({
+  min: z.number(),
+  max: z.number()
+})
+
+export type KpiBound = z.infer<typeof KpiBoundSchema>
+
+// Floors and ceilings for the canonical KPIs
+export const KpiBoundsSchema = z.object({
+  morale: KpiBoundSchema,
+  credibility: KpiBoundSchema,
+  backlog: KpiBoundSchema,
+  service: KpiBoundSchema,
+  share: KpiBoundSchema,
+  cash_runway: KpiBoundSchema
+})
+
+export type KpiBounds = z.infer<typeof KpiBoundsSchema>
+
+export const DEFAULT_KPI_BOUNDS: KpiBounds = {
+  morale: { min: 0, max: 100 },
+  credibility: { min: 0, max: 100 },
+  backlog: { min: 0, max: 50_000 },   // units
+  service: { min: 0, max: 100 },
+  share: { min: 0, max: 100 },        // percent
+  cash_runway: { min: 0, max: 60 }    // months; 60 is the profitable cap
+}
+
+// Core Caps schema with default values (maximum movement per turn)
 export const CapsSchema = z.object({
   morale: z.number().default(3.0),
   credibility: z.number().default(2.0),
   service_risk: z.number().default(0.6),
-  backlog_pressure: z.number().default(1.0)
+  backlog_pressure: z.number().default(1.0), // signal scale for backlog pressure
+  backlog_units: z.number().default(250),
+  share: z.number().default(1.0),        // percentage points
+  cash_runway: z.number().default(60),   // months; the full range, so derived runway is not smoothed unless tuned
+  bounds: KpiBoundsSchema.default(DEFAULT_KPI_BOUNDS)
 })
 
 export type Caps = z.infer<typeof CapsSchema>
@@ -24,6 +59,194 @@ export type RngEventType = z.infer<typeof RngEventTypeSchema>
 export const EventTierSchema = z.enum(['0', '1', '2', '3'])
 export type EventTier = z.infer<typeof EventTierSchema>
 
+// Detailed event effects; money is in $M, either a run-rate or a one-off (see eventCatalog.ts)
+export const EventEffectsSchema = z.object({
+  revenue_delta: z.number(),  // run-rate $M per year
+  cogs_delta: z.number(),     // run-rate $M per year
+  opex_delta: z.number(),     // run-rate $M per year
+  cash_delta: z.number(),     // one-off $M, booked when the event fires
+  share_delta: z.number(),    // share points
+  nps_delta: z.number(),      // NPS points
+  morale_delta: z.number(),   // morale points
+  backlog_delta: z.number(),  // units
+  notes: z.string(),
+  credit_limit_delta: z.number().optional() // one-off $M change to the revolver limit when the event fires
+})
+
+export type EventEffects = z.infer<typeof EventEffectsSchema>
+
+// How quickly an active shock or reward fades once it has fired
+export const EventDecaySchema = z.enum(['slow', 'fast'])
+export type EventDecay = z.infer<typeof EventDecaySchema>
+
+// Event categories, one per pressure flag (see pressures.ts)
+export const EventCategorySchema = z.enum(['supply', 'labor', 'quality', 'competition', 'finance', 'regulation', 'tech', 'weather'])
+export type EventCategory = z.infer<typeof EventCategorySchema>
+
+// Conditions the opening state must meet for a catalog event to be drawn; all listed ones must hold
+export const EventPrerequisitesSchema = z.object({
+  min_turn: z.number().int().min(0).optional(),
+  seasons: z.array(z.enum(['winter', 'spring', 'summer', 'autumn'])).optional(),
+  min_pressure: z.number().min(0).max(1).optional(), // the event category's pressure flag
+  max_morale: z.number().optional(),
+  min_backlog: z.number().optional()
+})
+
+export type EventPrerequisites = z.infer<typeof EventPrerequisitesSchema>
+
+// Escalation an entry can lead to while its chain is open (see eventChains.ts); every listed
+// condition must hold, then it fires with `chance`
+export const EventFollowUpSchema = z.object({
+  event: z.string().min(1),                          // catalog id of the follow-up
+  after_turns: z.number().int().min(0).default(1),   // turns the chain has gone unresolved
+  min_pressure: z.number().min(0).max(1).optional(), // the chain category's pressure flag
+  if_ignored: z.boolean().default(false),            // only when the last declaration ignored it
+  chance: z.number().min(0).max(1).default(1)
+})
+
+export type EventFollowUp = z.infer<typeof EventFollowUpSchema>
+
+// Unit of each effect a catalog may quote, with the largest magnitude it accepts in that unit,
+// so a figure entered in dollars or as a monthly amount is caught when the catalog loads
+export const EVENT_EFFECT_UNITS = {
+  revenue_delta: { unit: 'run-rate $M per year', max: 12 },
+  cogs_delta: { unit: 'run-rate $M per year', max: 12 },
+  opex_delta: { unit: 'run-rate $M per year', max: 12 },
+  cash_delta: { unit: 'annual $M, booked once as one month', max: 12 },
+  credit_limit_delta: { unit: 'one-off $M', max: 5 },
+  share_delta: { unit: 'share points', max: 5 },
+  nps_delta: { unit: 'NPS points', max: 30 },
+  morale_delta: { unit: 'morale points', max: 30 },
+  backlog_delta: { unit: 'units', max: 20_000 }
+} as const
+
+const effectIn = (field: keyof typeof EVENT_EFFECT_UNITS) => {
+  const { unit, max } = EVENT_EFFECT_UNITS[field]
+  const message = `${field} is in ${unit}, at most ${max.toLocaleString('en-US')} either way`
+  return z.number().min(-max, { message }).max(max, { message }).describe(unit)
+}
+
+// Effects as a catalog quotes them: every field optional, each checked against its unit
+export const CatalogEffectsSchema = z.object({
+  revenue_delta: effectIn('revenue_delta'),
+  cogs_delta: effectIn('cogs_delta'),
+  opex_delta: effectIn('opex_delta'),
+  cash_delta: effectIn('cash_delta'),
+  credit_limit_delta: effectIn('credit_limit_delta'),
+  share_delta: effectIn('share_delta'),
+  nps_delta: effectIn('nps_delta'),
+  morale_delta: effectIn('morale_delta'),
+  backlog_delta: effectIn('backlog_delta').int(),
+  notes: z.string()
+}).partial().strict()
+
+// A named way to answer a high-tier shock on the turn after it fires (see eventResponses.ts)
+export const EventResponseOptionSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  // One-off dollars (not $M), expensed in OpEx; any non-zero cost is at least $1k
+  cost: z.number().min(0).default(0).refine(cost => cost === 0 || cost >= 1_000, { message: 'cost is in dollars, not $M' }),
+  mitigation: z.number().min(0).max(1).default(0), // share of the shock's remaining intensity removed
+  effects: CatalogEffectsSchema.default({})        // applied once, in catalog units
+})
+
+export type EventResponseOption = z.infer<typeof EventResponseOptionSchema>
+
+// One shock or reward in the event catalog (see eventCatalog.ts); effects use catalog units
+export const EventCatalogEntrySchema = z.object({
+  id: z.string().min(1),
+  kind: z.enum(['shock', 'reward']),
+  category: EventCategorySchema,
+  tier: z.number().int().min(0).max(3),
+  name: z.string().min(1),
+  effects: CatalogEffectsSchema.default({}),
+  flag_bump: z.number().min(0).default(0),      // shocks only
+  tail_risk_bump: z.number().min(0).default(0), // shocks only
+  decay: EventDecaySchema.default('fast'),
+  prerequisites: EventPrerequisitesSchema.default({}),
+  weight: z.number().positive().default(1),     // relative odds among eligible entries in the same slot
+  follow_ups: z.array(EventFollowUpSchema).default([]), // shocks only: firing opens a chain
+  follow_up_only: z.boolean().default(false),   // never drawn by the rolls, only reached through a chain
+  responses: z.array(EventResponseOptionSchema).default([]) // tier-2/3 shocks only: 2-4 options
+})
+
+export type EventCatalogEntry = z.infer<typeof EventCatalogEntrySchema>
+
+// The catalog needs unique ids, follow-ups that name catalog shocks, response options only on
+// tier-2/3 shocks, and an unconditional tier-0 shock and reward in every category, so a draw
+// always finds an eligible entry
+export const EventCatalogSchema = z.array(EventCatalogEntrySchema).superRefine((entries, ctx) => {
+  const seen = new Set<string>()
+  for (const entry of entries) {
+    if (seen.has(entry.id)) ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate event id "${entry.id}"` })
+    seen.add(entry.id)
+  }
+  for (const entry of entries) {
+    for (const followUp of entry.follow_ups) {
+      if (!entries.some(e => e.id === followUp.event && e.kind === 'shock')) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Follow-up "${followUp.event}" of "${entry.id}" is not a catalog shock` })
+      }
+    }
+  }
+  for (const entry of entries.filter(e => e.responses.length > 0)) {
+    if (entry.kind !== 'shock' || entry.tier < 2) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Responses on "${entry.id}", which is not a tier-2/3 shock` })
+    }
+    if (entry.responses.length < 2 || entry.responses.length > 4) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `"${entry.id}" needs 2-4 responses, not ${entry.responses.length}` })
+    }
+    if (new Set(entry.responses.map(r => r.id)).size < entry.responses.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate response id in "${entry.id}"` })
+    }
+  }
+  for (const kind of ['shock', 'reward'] as const) {
+    for (const category of EventCategorySchema.options) {
+      const fallback = entries.some(e => e.kind === kind && e.category === category && e.tier === 0 && !e.follow_up_only && Object.keys(e.prerequisites).length === 0)
+      if (!fallback) ctx.addIssue({ code: z.ZodIssueCode.custom, message: `No unconditional tier-0 ${kind} for ${category}` })
+    }
+  }
+})
+
+export type EventCatalog = z.infer<typeof EventCatalogSchema>
+
+// A fired shock whose follow-ups may still escalate it
+export const OpenChainSchema = z.object({
+  id: z.string(),            // catalog id of the shock that opened the chain
+  name: z.string(),
+  category: EventCategorySchema,
+  opened_turn: z.number(),
+  turns_open: z.number(),    // turns resolved since it opened without resolving it
+  responses: z.number(),     // turns whose declaration addressed its category
+  ignored: z.boolean(),      // the last declaration did not address it
+  risks: z.array(z.string()) // names of the follow-ups it can escalate into
+})
+
+export type OpenChain = z.infer<typeof OpenChainSchema>
+
+// A fired shock whose response options the next turn can choose from
+export const PendingResponseSchema = z.object({
+  event_id: z.string(),   // catalog id of the shock
+  name: z.string(),
+  fired_turn: z.number(), // turn the shock fired; its active entry has the same started_turn
+  options: z.array(EventResponseOptionSchema)
+})
+
+export type PendingResponse = z.infer<typeof PendingResponseSchema>
+
+// How the turn answered a pending response
+export const EventResponseResultSchema = z.object({
+  event_id: z.string(),
+  name: z.string(),
+  status: z.enum(['applied', 'rejected', 'unanswered']),
+  option_id: z.string().optional(),
+  label: z.string().optional(),
+  cost: z.number(),       // dollars booked this turn
+  mitigation: z.number(), // share of the shock's remaining intensity removed
+  reason: z.string().optional()
+})
+
+export type EventResponseResult = z.infer<typeof EventResponseResultSchema>
+
 // Enhanced RNG Event packet with tier and detailed effects
 export const RngEventSchema = z.object({
   roll: z.number().min(1).max(100),
@@ -39,11 +262,23 @@ export const RngEventSchema = z.object({
     nps_delta: z.number().default(0),
     morale_delta: z.number().default(0),
     backlog_delta: z.number().default(0),
-    notes: z.string().default("")
+    notes: z.string().default(""),
+    credit_limit_delta: z.number().optional()
   }).optional(),
   flag_bump: z.number().default(0).optional(), // Flag pressure increase
   tail_risk_bump: z.number().default(0).optional(), // Tail risk increase
-  hints: z.array(z.string()).optional()
+  decay: EventDecaySchema.optional(), // How long the shock lingers once active
+  // Reward drawn alongside the shock; it joins the active rewards rather than being discarded
+  reward: z.object({
+    event_type: RngEventTypeSchema,
+    tier: EventTierSchema,
+    name: z.string(),
+    effects: EventEffectsSchema,
+    decay: EventDecaySchema
+  }).optional(),
+  hints: z.array(z.string()).optional(),
+  catalog_id: z.string().optional(), // catalog entry the shock was drawn from
+  chain_from: z.string().optional()  // open chain this shock escalates
 })
 
 export type RngEvent = z.infer<typeof RngEventSchema>
@@ -96,27 +331,355 @@ export const ActiveEventSchema = z.object({
   category: z.string(),
   tier: z.number(),
   name: z.string(),
-  effects: z.object({
-    revenue_delta: z.number(),
-    cogs_delta: z.number(),
-    opex_delta: z.number(),
-    cash_delta: z.number(),
-    share_delta: z.number(),
-    nps_delta: z.number(),
-    morale_delta: z.number(),
-    backlog_delta: z.number(),
-    notes: z.string()
-  }),
-  decay: z.enum(['slow', 'fast'])
+  effects: EventEffectsSchema,
+  decay: EventDecaySchema,
+  // Share of the original effects still being applied (1.0 on the turn it fired)
+  intensity: z.number().default(1),
+  started_turn: z.number().optional()
 })
 
 export type ActiveEvent = z.infer<typeof ActiveEventSchema>
 
+// Concrete quantities a declaration commits to (see levers.ts); absent fields are not declared
+export const LeversSchema = z.object({
+  opex_pct: z.number().optional(),         // % change to OpEx
+  price_pct: z.number().optional(),        // % change to average price
+  promo_pct: z.number().optional(),        // one-off: % promotional discount on price this turn
+  cogs_pct: z.number().optional(),         // % change to unit cost
+  dpo_days: z.number().optional(),         // days added to payables
+  dso_days: z.number().optional(),         // days added to receivables
+  safety_stock_pct: z.number().optional(), // % change to inventory days
+  headcount: z.number().optional(),        // one-off: heads hired (+) or cut (-) this turn
+  capex: z.number().optional(),            // one-off capital spend this turn, dollars
+  dividend: z.number().optional(),         // one-off dividend this turn, dollars
+  buyback_pct: z.number().optional(),      // one-off buyback this turn, % of shares outstanding
+  shifts: z.number().optional(),           // production shifts added (+) or dropped (-) this turn
+  shift_weeks: z.number().optional()       // weeks the added shifts run; open-ended when absent
+})
+
+export type Levers = z.infer<typeof LeversSchema>
+
+// Business function a head works in (see rules/workforce.ts)
+export const WorkforceFunctionSchema = z.enum(['assembly', 'sales', 'support', 'ga'])
+export type WorkforceFunction = z.infer<typeof WorkforceFunctionSchema>
+
+// Typed move submitted with, or instead of, a declaration (see actions.ts)
+export const ActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('set_price'), price: z.number().positive() }), // target average price, dollars
+  z.object({ type: z.literal('change_price'), pct: z.number() }),
+  z.object({ type: z.literal('change_opex'), pct: z.number() }),
+  z.object({ type: z.literal('change_cogs'), pct: z.number() }),
+  z.object({ type: z.literal('hire'), count: z.number().int(), function: WorkforceFunctionSchema.optional() }), // negative to cut heads
+  z.object({ type: z.literal('adjust_dpo'), days: z.number() }),
+  z.object({ type: z.literal('adjust_dso'), days: z.number() }),
+  z.object({ type: z.literal('adjust_safety_stock'), pct: z.number() }),
+  z.object({ type: z.literal('invest_capex'), amount: z.number().positive() }),
+  z.object({ type: z.literal('draw_debt'), amount: z.number().positive() }),
+  z.object({ type: z.literal('repay_debt'), amount: z.number().positive() }),
+  z.object({ type: z.literal('pay_dividend'), amount: z.number().positive() }),
+  z.object({ type: z.literal('buy_back_shares'), pct: z.number().positive() }) // % of shares outstanding
+])
+
+export type Action = z.infer<typeof ActionSchema>
+
+// How a submitted action was validated; `applied` is in the action's own unit
+export const ActionResultSchema = z.object({
+  action: ActionSchema,
+  status: z.enum(['applied', 'clipped', 'rejected']),
+  applied: z.number(),
+  reason: z.string().optional()
+})
+
+export type ActionResult = z.infer<typeof ActionResultSchema>
+
+// What a delayed effect does on each turn it is active: driver adjustments plus KPI deltas
+export const DelayedEffectsSchema = z.object({
+  units_pct: z.number().default(0),   // % change to units sold
+  price_pct: z.number().default(0),   // % change to average price
+  opex: z.number().default(0),        // dollars of OpEx per turn
+  morale: z.number().default(0),
+  credibility: z.number().default(0),
+  backlog: z.number().default(0),     // units
+  service: z.number().default(0),
+  share: z.number().default(0)        // percentage points
+})
+
+export type DelayedEffects = z.infer<typeof DelayedEffectsSchema>
+
+// Evaluator tag for a lagged effect: starts `delay` turns after the declaration, lasts `duration` turns
+export const EffectScheduleSchema = z.object({
+  label: z.string(),
+  delay: z.number().int().min(0),
+  duration: z.number().int().min(1),
+  effects: DelayedEffectsSchema
+})
+
+export type EffectSchedule = z.infer<typeof EffectScheduleSchema>
+
+// Queued effect carried in State until its last turn (see scheduledEffects.ts)
+export const ScheduledEffectSchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  source_turn: z.number(), // turn whose declaration scheduled it
+  start_turn: z.number(),
+  end_turn: z.number(),    // inclusive
+  effects: DelayedEffectsSchema
+})
+
+export type ScheduledEffect = z.infer<typeof ScheduledEffectSchema>
+
+// Closing balance sheet (mirrors MiniBalanceSheet)
+export const MiniBalanceSheetSchema = z.object({
+  cash: z.number(),
+  ar: z.number(),
+  inventory: z.number(),
+  ppe: z.number(),
+  ap: z.number(),
+  debt: z.number(),
+  retained_earnings: z.number(),
+  other_equity: z.number(),
+  tax_loss_carryforward: z.number().min(0).optional()
+})
+
+// Product line or service stream (see productLines.ts)
+export const ProductLineKindSchema = z.enum(['product', 'service'])
+export type ProductLineKind = z.infer<typeof ProductLineKindSchema>
+
+// One line of the per-line P&L breakdown; revenue and COGS include event dollars and scrap
+export const ProductLineResultSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  kind: ProductLineKindSchema,
+  units: z.number(),
+  price: z.number(),
+  unit_cost: z.number(),
+  revenue: z.number(),
+  cogs: z.number(),
+  gross_profit: z.number()
+})
+
+export type ProductLineResult = z.infer<typeof ProductLineResultSchema>
+
+// Payroll and other labor costs for the period (see workforce.ts), dollars: assembly labor,
+// shift, overtime and temp premiums go to COGS; everything else to OpEx
+export const LaborCostsSchema = z.object({
+  direct_wages: z.number(),   // assembly payroll
+  shift_premium: z.number(),
+  overtime: z.number(),
+  temps: z.number(),
+  indirect_wages: z.number(), // sales, support and G&A payroll
+  recruiting: z.number(),
+  severance: z.number()
+})
+
+export type LaborCosts = z.infer<typeof LaborCostsSchema>
+
+export const SpendingCategorySchema = z.enum(['opex', 'capex', 'capital_return'])
+
+export type SpendingCategory = z.infer<typeof SpendingCategorySchema>
+
+// One-off spending declared in the text (see spending.ts), dollars, by where it lands in the statements
+export const DirectCashSpendingSchema = z.object({
+  opex: z.number(),          // expensed this period, e.g. bonuses
+  capex: z.number(),         // capitalised into PP&E
+  capital_return: z.number() // paid out of retained earnings
+})
+
+export type DirectCashSpending = z.infer<typeof DirectCashSpendingSchema>
+
+// Financial snapshot produced by computeFinancials (mirrors FinancialSnapshot)
+export const FinancialSnapshotSchema = z.object({
+  cash_open: z.number(),
+  pnl: z.object({
+    revenue: z.number(),
+    cogs: z.number(),
+    gross_profit: z.number(),
+    opex: z.number(),
+    ebitda: z.number(),
+    depreciation: z.number(),
+    ebit: z.number(),
+    non_operating: z.number().default(0),
+    interest: z.number(),
+    taxes: z.number(),
+    net_income: z.number()
+  }),
+  cashflow: z.object({
+    cfo: z.number(),
+    cfi: z.number(),
+    cff: z.number()
+  }),
+  balance: MiniBalanceSheetSchema,
+  // Per-line breakdown the P&L rolled up from (absent when the drivers had no lines)
+  lines: z.array(ProductLineResultSchema).optional(),
+  // Labor costs included in COGS and OpEx (absent when the drivers carried no payroll)
+  labor: LaborCostsSchema.optional(),
+  // Declared one-off spending included above (absent when none was declared)
+  direct_spending: DirectCashSpendingSchema.optional(),
+  cash_close: z.number(),
+  balance_ok: z.boolean(),
+  cash_recon_ok: z.boolean(),
+  notes: z.array(z.string()).optional()
+})
+
+// Financial position carried between turns; the next turn's computeFinancials opens from `balance`
+export const StateFinancialsSchema = z.object({
+  balance: MiniBalanceSheetSchema,
+  last_snapshot: FinancialSnapshotSchema.optional(),
+  // Net flow (CFO + CFI) of recent turns, most recent last; feeds the runway burn rate
+  flow_history: z.array(z.number()).optional()
+})
+
+export type StateFinancials = z.infer<typeof StateFinancialsSchema>
+
+// Cash runway derived from liquidity and trailing burn (see runway.ts)
+export const RunwaySchema = z.object({
+  months: z.number().min(0),
+  profitable: z.boolean(), // trailing flow non-negative; months is then the cap
+  monthly_burn: z.number().min(0),
+  liquidity: z.number().min(0), // closing cash + undrawn credit
+  undrawn_credit: z.number().min(0)
+})
+
+export type Runway = z.infer<typeof RunwaySchema>
+
+// Named seasonality curve a run is created with
+export const SeasonalityNameSchema = z.enum(Object.keys(SEASONALITY_CURVES) as [SeasonalityCurveName, ...SeasonalityCurveName[]])
+
+// Named difficulty preset a run is created with
+export const DifficultyNameSchema = z.enum(Object.keys(DIFFICULTY_PRESETS) as [DifficultyName, ...DifficultyName[]])
+
+// Twelve monthly unit-demand multipliers (Jan..Dec)
+export const SeasonalityCurveSchema = z.array(z.number().min(0)).length(12)
+
+// Covenants tested on the revolver after every turn (see credit.ts)
+export const CovenantsSchema = z.object({
+  max_leverage: z.number().default(3.0),        // debt / annualised EBITDA
+  min_interest_cover: z.number().default(2.0),  // EBIT / interest
+  min_liquidity: z.number().default(300_000)    // closing cash + undrawn credit, dollars
+})
+
+export type Covenants = z.infer<typeof CovenantsSchema>
+
+// Revolving credit facility: draws beyond `limit` are refused
+export const CreditFacilitySchema = z.object({
+  limit: z.number().min(0).default(1_000_000),
+  auto_repay: z.boolean().default(true), // sweep cash above the buffer into repayment
+  covenants: CovenantsSchema.default({})
+})
+
+export type CreditFacility = z.infer<typeof CreditFacilitySchema>
+
+export const CovenantNameSchema = z.enum(['leverage', 'interest_cover', 'liquidity'])
+export type CovenantName = z.infer<typeof CovenantNameSchema>
+
+// One turn's covenant test; ratios are null when they do not apply (no debt, no interest)
+export const CovenantTestSchema = z.object({
+  leverage: z.number().nullable(),
+  interest_cover: z.number().nullable(),
+  liquidity: z.number(),
+  breaches: z.array(CovenantNameSchema)
+})
+
+export type CovenantTest = z.infer<typeof CovenantTestSchema>
+
+// One rival firm after a turn (see competitors.ts); price on our $100 baseline scale
+export const CompetitorStateSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  price: z.number(),
+  service: z.number(),
+  availability: z.number().min(0).max(1), // share of its demand it can serve
+  share: z.number(),                      // attraction-model share, percent
+  promo: z.boolean().default(false)       // promoting this turn
+})
+
+export type CompetitorState = z.infer<typeof CompetitorStateSchema>
+
+// Competitive market after a turn: the rivals, their moves and the share the attraction model gives us
+export const MarketSchema = z.object({
+  rivals: z.array(CompetitorStateSchema),
+  moves: z.array(z.string()).default([]),
+  model_share: z.number()
+})
+
+export type Market = z.infer<typeof MarketSchema>
+
+// Production capacity after a turn (see capacity.ts): what the floor could make, what was asked for
+// and what shipped; units per month
+export const CapacitySchema = z.object({
+  headcount: z.number(),                   // production heads
+  shifts: z.number().int().min(1),         // shifts running
+  shift_turns_left: z.number().nullable(), // turns before the added shifts end; null when open-ended
+  regular_units: z.number(),               // output of the shifts at straight time
+  overtime_units: z.number(),              // used this turn, within headroom.ot_pct
+  temp_units: z.number(),                  // used this turn, when headroom.temps_allowed
+  capacity_units: z.number(),              // regular plus all the overtime and temps available
+  demand_units: z.number(),                // new orders this turn
+  shipped_units: z.number(),
+  utilization: z.number(),                 // shipped / capacity_units
+  shift_cost: z.number(),                  // extra-shift premiums, dollars
+  overtime_cost: z.number(),
+  temp_cost: z.number(),
+  cost: z.number()                         // all three, charged to COGS as labor
+})
+
+export type Capacity = z.infer<typeof CapacitySchema>
+
+// One function's heads after a turn
+export const WorkforceTeamSchema = z.object({
+  id: WorkforceFunctionSchema,
+  name: z.string(),
+  planned: z.number(),  // budgeted heads; open roles are filled a turn later
+  heads: z.number(),    // on payroll after this turn's layoffs and leavers
+  hired: z.number(),    // joined this turn
+  left: z.number(),     // lost to attrition this turn
+  laid_off: z.number(),
+  wages: z.number()     // payroll this turn, dollars
+})
+
+export type WorkforceTeam = z.infer<typeof WorkforceTeamSchema>
+
+// Headcount by function after a turn (see workforce.ts)
+export const WorkforceSchema = z.object({
+  teams: z.array(WorkforceTeamSchema),
+  attrition_pct: z.number(), // monthly attrition rate this turn, percent
+  headcount: z.number()      // heads on payroll across all functions
+})
+
+export type Workforce = z.infer<typeof WorkforceSchema>
+
+// Share count and investor metrics after a turn (see equity.ts); per-share figures in dollars
+export const EquitySchema = z.object({
+  shares_outstanding: z.number().positive(),
+  share_price: z.number(),          // equity value per share
+  market_cap: z.number(),
+  book_value_per_share: z.number(),
+  eps: z.number(),                  // net income per share this period
+  dps: z.number(),                  // dividends per share this period
+  dividends: z.number().default(0), // dividends paid this period
+  buyback: z.number().default(0),   // spent on buybacks this period
+  shares_retired: z.number().default(0)
+})
+
+export type Equity = z.infer<typeof EquitySchema>
+
+// Seeded PRNG position: stream key derived from Run.seed plus the number of turns consumed
+export const RngStateSchema = z.object({
+  key: z.string(),
+  position: z.number().int().min(0)
+})
+
+export type RngState = z.infer<typeof RngStateSchema>
+
 // Enhanced state schema with financial metrics and active events
 export const StateSchema = z.object({
+  // State model version (see STATE_SCHEMA_VERSION in stateModel.ts); absent in version 1 entries
+  schema_version: z.number().int().optional(),
   turn_no: z.number(),
-  period: z.string().optional(), // e.g., "Sep 2025"
-  // Financial metrics (from Python prototype)
+  period: z.string().optional(), // e.g., "Sep 2025"; the month this turn resolves
+  seasonality: SeasonalityCurveSchema.optional(), // the run's demand curve (absent: lawn mowers)
+  difficulty: DifficultyNameSchema.optional(),     // event generation and caps preset (absent: standard)
+  // Monthly P&L view in $M, synced from financials.last_snapshot
   pnl: z.object({
     revenue: z.number().default(12.0),
     cogs: z.number().default(7.2),
@@ -125,21 +688,22 @@ export const StateSchema = z.object({
     net: z.number().default(1.0),
     cash: z.number().default(7.5)
   }).optional(),
-  // KPIs (enhanced)
+  // KPI view, synced from the canonical fields below
   kpis: z.object({
     share_percent: z.number().default(8.4),
     service_nps: z.number().default(74),
     morale: z.number().default(66),
     backlog_units: z.number().default(6000)
   }).optional(),
-  // Legacy state fields (maintained for backward compatibility)
   event: EventSchema,
+  // Canonical KPIs
   morale: z.number().min(0).max(100),
   credibility: z.number().min(0).max(100),
-  backlog: z.number().min(0),
+  backlog: z.number().min(0), // units
   service: z.number().min(0).max(100),
-  share: z.number().min(0),
-  cash_runway: z.number().min(0),
+  share: z.number().min(0).max(100), // market share, percent
+  cash_runway: z.number().min(0), // months, mirrors runway.months
+  runway: RunwaySchema.optional(),
   flags: FlagsSchema,
   pressures: PressuresSchema,
   headroom: HeadroomSchema,
@@ -148,10 +712,33 @@ export const StateSchema = z.object({
   tail_risk: z.number().min(0).max(100).default(5).optional(),
   shock_decay: z.number().default(0.10).optional(),
   reward_decay: z.number().default(0.50).optional(),
-  ceo_credibility: z.number().min(0).max(100).default(72).optional(),
+  ceo_credibility: z.number().min(0).max(100).default(72).optional(), // view of credibility
   active_shocks: z.array(ActiveEventSchema).default([]).optional(),
   active_rewards: z.array(ActiveEventSchema).default([]).optional(),
-  notes: z.array(z.string()).default([]).optional()
+  notes: z.array(z.string()).default([]).optional(),
+  // Levers in force from earlier declarations (capex is one-off and never carried)
+  levers: LeversSchema.optional(),
+  // Lagged effects of earlier declarations still to play out
+  scheduled_effects: z.array(ScheduledEffectSchema).default([]).optional(),
+  // Shocks that can still escalate into their follow-ups
+  open_chains: z.array(OpenChainSchema).optional(),
+  // High-tier shock from last turn awaiting a response choice
+  pending_response: PendingResponseSchema.optional(),
+  // Closing balance sheet and last snapshot (absent in pre-financials run.jsonl entries)
+  financials: StateFinancialsSchema.optional(),
+  // Revolver and the last covenant test (absent in pre-facility run.jsonl entries: default facility)
+  credit_facility: CreditFacilitySchema.optional(),
+  covenants: CovenantTestSchema.optional(),
+  // Share count and investor metrics (absent in pre-equity run.jsonl entries: valued on load)
+  equity: EquitySchema.optional(),
+  // Rival firms and the attraction-model share (absent in pre-competitor run.jsonl entries)
+  market: MarketSchema.optional(),
+  // Shifts running and last turn's production (absent in pre-capacity run.jsonl entries: one shift)
+  capacity: CapacitySchema.optional(),
+  // Headcount by function (absent in pre-workforce run.jsonl entries: baseline teams)
+  workforce: WorkforceSchema.optional(),
+  // Seeded PRNG stream position (absent in pre-PRNG run.jsonl entries)
+  rng: RngStateSchema.optional()
 })
 
 export type State = z.infer<typeof StateSchema>
@@ -160,6 +747,7 @@ export type State = z.infer<typeof StateSchema>
 export const StatePacketSchema = z.object({
   turn_no: z.number(),
   period: z.string().optional(),
+  seasonality: SeasonalityCurveSchema.optional(),
   // Financial metrics
   pnl: z.object({
     revenue: z.number(),
@@ -184,6 +772,7 @@ export const StatePacketSchema = z.object({
   service: z.number(),
   share: z.number(),
   cash_runway: z.number(),
+  runway: RunwaySchema.optional(),
   flags: FlagsSchema,
   pressures: PressuresSchema,
   headroom: HeadroomSchema,
@@ -195,6 +784,15 @@ export const StatePacketSchema = z.object({
   ceo_credibility: z.number().default(72).optional(),
   active_shocks: z.array(ActiveEventSchema).default([]).optional(),
   active_rewards: z.array(ActiveEventSchema).default([]).optional(),
+  levers: LeversSchema.optional(),
+  scheduled_effects: z.array(ScheduledEffectSchema).default([]).optional(),
+  open_chains: z.array(OpenChainSchema).optional(),
+  pending_response: PendingResponseSchema.optional(),
+  covenants: CovenantTestSchema.optional(),
+  equity: EquitySchema.optional(),
+  market: MarketSchema.optional(),
+  capacity: CapacitySchema.optional(),
+  workforce: WorkforceSchema.optional(),
   notes: z.array(z.string()).default([]).optional()
 })
 
@@ -255,7 +853,11 @@ export const EvaluatorOutputSchema = z.object({
     oob: z.boolean(),
     violations: z.array(z.string())
   }),
-  rationale: z.string()
+  rationale: z.string(),
+  // Quantities the declaration commits to, e.g. "Cut OpEx by 10%" -> { opex_pct: -10 }
+  levers: LeversSchema.optional(),
+  // Effects of the declaration that land on later turns (e.g. a marketing push paying off over 3 turns)
+  scheduled: z.array(EffectScheduleSchema).optional()
 })
 
 export type EvaluatorOutput = z.infer<typeof EvaluatorOutputSchema>
@@ -280,6 +882,48 @@ export const EvaluatorInputSchema = z.object({
 
 export type EvaluatorInput = z.infer<typeof EvaluatorInputSchema>
 
+// Per-KPI change for one turn
+export const KpiDeltasSchema = z.object({
+  morale: z.number(),
+  credibility: z.number(),
+  backlog: z.number(),
+  service: z.number(),
+  share: z.number(),
+  cash_runway: z.number()
+})
+
+export type KpiDeltas = z.infer<typeof KpiDeltasSchema>
+
+// Configurable end conditions for a run (see outcome.ts)
+export const OutcomeConfigSchema = z.object({
+  max_turns: z.number().int().min(1).default(24),
+  // Insolvent at or below this cash with no revolver headroom left; keep it under the finance
+  // min_cash_buffer, which a fully drawn revolver can no longer restore
+  insolvency_cash_floor: z.number().default(0),
+  credibility_floor: z.number().default(30),
+  credibility_floor_turns: z.number().int().min(1).default(3), // consecutive turns below the floor before the board acts
+  share_target: z.number().default(15),                 // percent
+  ebit_target: z.number().default(3_500_000)            // trailing twelve-month EBIT in dollars
+})
+
+export type OutcomeConfig = z.infer<typeof OutcomeConfigSchema>
+
+export const DEFAULT_OUTCOME_CONFIG: OutcomeConfig = OutcomeConfigSchema.parse({})
+
+export const OutcomeReasonSchema = z.enum(['insolvency', 'board_ouster', 'share_target', 'ebit_target', 'max_turns'])
+export type OutcomeReason = z.infer<typeof OutcomeReasonSchema>
+
+// How a run ended and its final composite score
+export const RunOutcomeSchema = z.object({
+  result: z.enum(['victory', 'defeat', 'survived']),
+  reason: OutcomeReasonSchema,
+  turn_no: z.number(),
+  message: z.string(),
+  score: z.number()
+})
+
+export type RunOutcome = z.infer<typeof RunOutcomeSchema>
+
 // Turn result schema
 export const TurnResultSchema = z.object({
   turn_no: z.number(),
@@ -320,61 +964,50 @@ export const TurnResultSchema = z.object({
     oob: z.boolean(),
     violations: z.array(z.string())
   }),
-  deltas: z.object({
-    morale: z.number(),
-    credibility: z.number(),
-    backlog: z.number(),
-    service: z.number(),
-    share: z.number(),
-    cash_runway: z.number()
+  deltas: KpiDeltasSchema,
+  applied_deltas: KpiDeltasSchema,
+  // Part of each raw delta removed by the per-turn caps and the KPI floors/ceilings
+  clipped: KpiDeltasSchema,
+  financials: FinancialSnapshotSchema,
+  explainers: z.object({
+    finance: z.array(z.string())
   }),
-  applied_deltas: z.object({
-    morale: z.number(),
-    credibility: z.number(),
-    backlog: z.number(),
-    service: z.number(),
-    share: z.number(),
-    cash_runway: z.number()
+  // Active shocks/rewards after this turn's decay, plus what they contributed this turn
+  active_events: z.object({
+    shocks: z.array(ActiveEventSchema),
+    rewards: z.array(ActiveEventSchema),
+    expired: z.array(z.string()),
+    applied_effects: EventEffectsSchema
   }),
-  financials: z.object({
-    cash_open: z.number(),
-    pnl: z.object({
-      revenue: z.number(),
-      cogs: z.number(),
-      gross_profit: z.number(),
-      opex: z.number(),
-      ebitda: z.number(),
-      depreciation: z.number(),
-      ebit: z.number(),
-      interest: z.number(),
-      taxes: z.number(),
-      net_income: z.number()
-    }),
-    cashflow: z.object({
-      cfo: z.number(),
-      cfi: z.number(),
-      cff: z.number()
-    }),
-    balance: z.object({
-      cash: z.number(),
-      ar: z.number(),
-      inventory: z.number(),
-      ppe: z.number(),
-      ap: z.number(),
-      debt: z.number(),
-      retained_earnings: z.number(),
-      other_equity: z.number()
-    }),
-    cash_close: z.number(),
-    balance_ok: z.boolean(),
-    cash_recon_ok: z.boolean(),
-    notes: z.array(z.string()).optional()
+  // Levers this declaration set and the standing levers applied to the drivers
+  levers: z.object({
+    declared: LeversSchema,
+    standing: LeversSchema
   }),
-  explainers: z.object({
-    finance: z.array(z.string())
+  // Revolver covenant test on the closing position
+  covenants: CovenantTestSchema,
+  // Share count, capital returned and investor metrics after the turn
+  equity: EquitySchema,
+  // Rival prices, service and shares, what they did this turn, and our attraction-model share
+  market: MarketSchema,
+  // Production capacity, demand and shipments behind this turn's units and backlog
+  capacity: CapacitySchema,
+  // Heads by function: hires joining, leavers, layoffs and payroll
+  workforce: WorkforceSchema,
+  // Structured actions submitted with the turn and how each was validated
+  actions: z.array(ActionResultSchema),
+  // The response chosen (or not) for last turn's high-tier shock
+  event_response: EventResponseResultSchema.optional(),
+  // Delayed effects queued by this declaration, applied this turn, and still pending afterwards
+  scheduled_effects: z.object({
+    queued: z.array(ScheduledEffectSchema),
+    applied: z.array(ScheduledEffectSchema),
+    pending: z.array(ScheduledEffectSchema)
   }),
   narrative: z.string(),
-  quotes: z.array(z.string())
+  quotes: z.array(z.string()),
+  // Set on the turn that ended the run
+  outcome: RunOutcomeSchema.optional()
 })
 
 export type TurnResult = z.infer<typeof TurnResultSchema>
@@ -384,14 +1017,22 @@ export const RunSchema = z.object({
   id: z.string(),
   seed: z.string(),
   created_at: z.number(),
-  turns: z.array(TurnResultSchema).default([])
+  turns: z.array(TurnResultSchema).default([]),
+  seasonality: SeasonalityNameSchema.default(DEFAULT_SEASONALITY),
+  difficulty: DifficultyNameSchema.default(DEFAULT_DIFFICULTY),
+  status: z.enum(['active', 'finished']).default('active'),
+  outcome_config: OutcomeConfigSchema.default(DEFAULT_OUTCOME_CONFIG),
+  outcome: RunOutcomeSchema.optional()
 })
 
 export type Run = z.infer<typeof RunSchema>
 
 // New run request schema
 export const NewRunRequestSchema = z.object({
-  seed: z.string().optional()
+  seed: z.string().optional(),
+  seasonality: SeasonalityNameSchema.optional(),
+  difficulty: DifficultyNameSchema.optional(),
+  outcome_config: OutcomeConfigSchema.partial().optional()
 })
 
 export type NewRunRequest = z.infer<typeof NewRunRequestSchema>
@@ -399,8 +1040,15 @@ export type NewRunRequest = z.infer<typeof NewRunRequestSchema>
 // Turn request schema
 export const TurnRequestSchema = z.object({
   runId: z.string(),
-  declaration: z.string()
-})
+  declaration: z.string().default(''),
+  // Typed moves; without a declaration the turn is action-only and needs no LLM
+  actions: z.array(ActionSchema).max(20).optional(),
+  // Option chosen for the shock awaiting a response (state.pending_response)
+  responseId: z.string().optional()
+}).refine(
+  req => req.declaration.trim().length > 0 || (req.actions?.length ?? 0) > 0,
+  { message: 'A declaration or at least one action is required' }
+)
 
 export type TurnRequest = z.infer<typeof TurnRequestSchema>
 
@@ -409,11 +1057,27 @@ export const DEFAULT_CAPS: Caps = {
   morale: 3.0,
   credibility: 2.0,
   service_risk: 0.6,
-  backlog_pressure: 1.0
+  backlog_pressure: 1.0,
+  backlog_units: 250,
+  share: 1.0,
+  cash_runway: 60,
+  bounds: DEFAULT_KPI_BOUNDS
 }
 
 // Financial types
+// One line's volume, price and unit cost for the period
+export interface ProductLineDrivers {
+  id: string;
+  name: string;
+  kind: ProductLineKind;
+  units: number;
+  price: number;
+  unit_cost: number;
+}
+
 export interface FinancialDrivers {
+  lines?: ProductLineDrivers[]; // when present, revenue and COGS roll up from these instead
+  labor?: LaborCosts;           // payroll on top of unit_cost (materials) and opex_base (non-payroll)
   units_sold: number;
   avg_price: number;
   unit_cost: number;
@@ -432,6 +1096,8 @@ export interface FinancialParams {
   morale_to_units: number;
   credibility_to_price: number;
   scrap_rate: number;
+  interest_rate?: number; // annual rate charged on opening debt (absent: no interest)
+  tax_rate?: number;      // on pre-tax profit left after loss carryforwards (absent: no tax)
 }
 
 export interface MiniPnL {
@@ -442,6 +1108,7 @@ export interface MiniPnL {
   ebitda: number;
   depreciation: number;
   ebit: number;
+  non_operating: number; // one-off event cash items, booked below EBIT
   interest: number;
   taxes: number;
   net_income: number;
@@ -456,6 +1123,7 @@ export interface MiniBalanceSheet {
   debt: number;
   retained_earnings: number;
   other_equity: number;
+  tax_loss_carryforward?: number; // memo: unused tax losses that shelter future profits (not an asset)
 }
 
 export interface MiniCashFlow {
@@ -469,16 +1137,38 @@ export interface FinancialSnapshot {
   pnl: MiniPnL;
   cashflow: MiniCashFlow;
   balance: MiniBalanceSheet;
+  lines?: ProductLineResult[]; // per-line breakdown when the drivers had lines
+  labor?: LaborCosts;          // labor costs included in COGS and OpEx
+  direct_spending?: DirectCashSpending; // declared one-off spending included above
   cash_close: number;
   balance_ok: boolean;
   cash_recon_ok: boolean;
   notes?: string[];
 }
 
+// Per-period dollar adjustments from RNG events (shocks, rewards and their lingering effects)
+export interface EventFinanceAdjustments {
+  revenue: number;
+  cogs: number;
+  opex: number;
+  cash: number; // one-off cash items, booked in full as a non-operating line below EBIT
+  lines?: Record<string, { revenue: number; cogs: number }>; // part of revenue/cogs aimed at named lines
+}
+
+export interface FinancingActions {
+  draw: number;     // debt drawn this period
+  repay: number;    // debt repaid this period
+  dividend: number; // dividends paid this period
+  buyback?: number; // shares repurchased this period, at cost
+}
+
 export interface FinanceInput {
   prev_balance: MiniBalanceSheet;
   drivers: FinancialDrivers;
   params: FinancialParams;
   policy?: { dividend: boolean; repay_debt: boolean };
-  direct_cash_spending?: number; // Direct cash spending declarations (e.g., bonuses, dividends)
+  financing?: FinancingActions; // explicit debt draws/repayments and dividends, already validated
+  credit_limit?: number;        // revolver limit for buffer draws (absent: unlimited)
+  direct_cash_spending?: DirectCashSpending; // declared one-off spending, already classified and limited
+  event_adjustments?: EventFinanceAdjustments;
 }
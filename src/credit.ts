@@ -0,0 +1,63 @@
+import { State, CreditFacility, CreditFacilitySchema, CovenantTest, CovenantName, FinancialSnapshot, RngEvent } from './contracts'
+import { oneOffDollars } from './eventCatalog'
+
+/**
+ * Revolving credit facility.
+ * Buffer draws and structured draws stop at the facility limit, which credit events can cut or raise.
+ * After each turn the closing position is tested against the covenants; every breach raises finance
+ * pressure and costs the CEO credibility with the board.
+ */
+
+export const DEFAULT_CREDIT_FACILITY: CreditFacility = CreditFacilitySchema.parse({})
+
+export const COVENANT_BREACH_PRESSURE = 0.10    // finance pressure added per breached covenant
+export const COVENANT_BREACH_CREDIBILITY = 1.0  // credibility lost per breached covenant
+
+export const MAX_REPORTED_LEVERAGE = 99         // JSON has no Infinity
+
+/**
+ * Facility in force for a state (pre-facility states get the default)
+ */
+export function creditFacility(state: State): CreditFacility {
+  return state.credit_facility ?? DEFAULT_CREDIT_FACILITY
+}
+
+/**
+ * Apply the credit-limit changes of this turn's firing shock and reward
+ */
+export function applyCreditEvents(facility: CreditFacility, rngEvent: RngEvent | undefined): { facility: CreditFacility; change: number } {
+  let change = 0
+  if (rngEvent?.effects?.credit_limit_delta && parseInt(rngEvent.tier ?? '0') > 0) {
+    change += oneOffDollars(rngEvent.effects.credit_limit_delta)
+  }
+  if (rngEvent?.reward?.effects.credit_limit_delta && parseInt(rngEvent.reward.tier) > 0) {
+    change += oneOffDollars(rngEvent.reward.effects.credit_limit_delta)
+  }
+  return { facility: { ...facility, limit: Math.max(0, facility.limit + change) }, change }
+}
+
+/**
+ * Test the closing position against the facility's covenants
+ */
+export function testCovenants(snapshot: FinancialSnapshot, facility: CreditFacility, periodDays = 30): CovenantTest {
+  const { debt, cash } = snapshot.balance
+  const annualise = 12 * 30 / Math.max(1, periodDays)
+  const ebitda = snapshot.pnl.ebitda * annualise
+
+  // Debt against a business with no EBITDA reports the leverage ceiling
+  const leverage = debt > 0 ? (ebitda > 0 ? Math.min(MAX_REPORTED_LEVERAGE, debt / ebitda) : MAX_REPORTED_LEVERAGE) : null
+  const interestCover = snapshot.pnl.interest > 0 ? snapshot.pnl.ebit / snapshot.pnl.interest : null
+  const liquidity = Math.max(0, cash) + Math.max(0, facility.limit - debt)
+
+  const breaches: CovenantName[] = []
+  if (leverage !== null && leverage > facility.covenants.max_leverage) breaches.push('leverage')
+  if (interestCover !== null && interestCover < facility.covenants.min_interest_cover) breaches.push('interest_cover')
+  if (liquidity < facility.covenants.min_liquidity) breaches.push('liquidity')
+
+  return {
+    leverage,
+    interest_cover: interestCover,
+    liquidity,
+    breaches
+  }
+}
@@ -1,6 +1,29 @@
-import { State, StatePacket, Caps, EvaluatorOutput, TurnResult, DEFAULT_CAPS, RngEvent, RngEventType, EventTier, ActiveEvent } from './contracts'
-import { computeFinancials } from "./finance";
+import { State, StatePacket, Caps, EvaluatorOutput, TurnResult, DEFAULT_CAPS, Action, SpendingCategory, RngEvent, RngEventType, EventTier, ActiveEvent, EventEffects, EventCatalog } from './contracts'
+import { computeFinancials, borrowingRate } from "./finance";
+import { advanceActiveEvents } from './eventLifecycle'
+import { DEFAULT_EVENT_CATALOG, drawCatalogEvent, catalogEffects, runRateDollars, eventCashDollars } from './eventCatalog'
+import { escalation, advanceChains } from './eventChains'
+import { pendingResponseFor, resolveEventResponse } from './eventResponses'
+import { advanceScheduledEffects, describeScheduledEffect } from './scheduledEffects'
+import { accumulateLevers, applyLevers, clampLevers } from './levers'
+import { resolveActions } from './actions'
+import { buildProductLines, linesNamedBy, targetLines } from './productLines'
+import { SHARE_ADJUSTMENT, initialMarket, advanceMarket } from './competitors'
+import { resolveShifts, runProduction, backlogServiceDrag } from './capacity'
+import { TEMP_SCRAP_PENALTY, HeadcountChanges, initialWorkforce, workforceOf, hiringFunction, advanceWorkforce, headsIn, laborCosts, laborSplit, baselineLabor } from './workforce'
+import { DEFAULT_CREDIT_FACILITY, COVENANT_BREACH_PRESSURE, COVENANT_BREACH_CREDIBILITY, creditFacility, applyCreditEvents, testCovenants } from './credit'
+import { initialEquity, equityOf, resolveCapitalReturn, equityAfterTurn } from './equity'
+import { detectCashSpending, directSpending, spendingLabel } from './spending'
+import { createRngState, rngStream, advanceRng } from './rng'
+import { PRESSURE_CATEGORIES, PRESSURE_BASELINE, TAIL_RISK_BASELINE, deriveLegacyFlags, updatePressures } from './pressures'
+import { STATE_SCHEMA_VERSION, syncStateViews } from './stateModel'
+import { RUNWAY_WARNING_MONTHS, computeRunway, recordNetFlow } from './runway'
+import { advancePeriod, seasonalDemand } from './calendar'
+import { SEASONALITY_CURVES, SeasonalityCurveName, DEFAULT_SEASONALITY } from './rules/seasonality'
+import { DIFFICULTY_PRESETS, DifficultyName, DifficultyPreset, DEFAULT_DIFFICULTY } from './rules/difficulty'
 import {
+  EventFinanceAdjustments,
+  KpiDeltas,
   FinanceInput,
   FinancialDrivers,
   FinancialParams,
@@ -8,68 +31,75 @@ import {
   MiniBalanceSheet
 } from "./contracts";
 
+// Scenario choices for a new run
+export interface InitialStateOptions {
+  seasonality?: SeasonalityCurveName
+  difficulty?: DifficultyName
+}
+
 export class Engine {
   private caps: Caps
+  private catalog: EventCatalog
 
-  constructor(caps: Caps = DEFAULT_CAPS) {
+  constructor(caps: Caps = DEFAULT_CAPS, catalog: EventCatalog = DEFAULT_EVENT_CATALOG) {
     this.caps = caps
+    this.catalog = catalog
   }
 
   /**
    * Create initial state for a new run (enhanced with Python prototype fields)
    */
-  createInitialState(seed: string): State {
+  createInitialState(seed: string, options: InitialStateOptions = {}): State {
     // Simple deterministic seed-based state generation
     const hash = this.hashString(seed)
+    const initialTailRisk = (hash % 6) === 0 ? 30 : TAIL_RISK_BASELINE
+    const difficulty = options.difficulty ?? DEFAULT_DIFFICULTY
+    const balance = openingBalance(DIFFICULTY_PRESETS[difficulty].balance)
+    // No burn observed yet, so the opening runway is the profitable cap
+    const runway = computeRunway({
+      cash: balance.cash,
+      debt: balance.debt,
+      credit_limit: DEFAULT_CREDIT_FACILITY.limit,
+      flow_history: [],
+      period_days: FINANCE_PARAMS_DEFAULT.period_days
+    })
     
-    return {
+    return syncStateViews({
+      schema_version: STATE_SCHEMA_VERSION,
       turn_no: 0,
-      period: "Sep 2025",
-      // Financial metrics (from Python prototype)
-      pnl: {
-        revenue: 12.0,
-        cogs: 7.2,
-        gm_percent: 40.0,
-        opex: 3.8,
-        net: 1.0,
-        cash: 7.5
-      },
-      // KPIs (enhanced)
-      kpis: {
-        share_percent: 8.4,
-        service_nps: 74,
-        morale: 66,
-        backlog_units: 6000
-      },
+      period: DIFFICULTY_PRESETS[difficulty].start_period,
+      seasonality: [...SEASONALITY_CURVES[options.seasonality ?? DEFAULT_SEASONALITY]],
+      difficulty,
+      // Pro-forma monthly P&L until the first turn produces a snapshot
+      pnl: openingPnl(balance),
       // Legacy event field
       event: {
         category: (['market', 'operational', 'financial', 'regulatory', 'competitive'] as const)[hash % 5],
         tier: (['low', 'medium', 'high', 'critical'] as const)[hash % 4]
       },
-      // Legacy state fields (maintained for backward compatibility)
+      // Canonical KPIs (kpis and ceo_credibility are synced views of these)
       morale: 75 + (hash % 20),
       credibility: 70 + (hash % 25),
-      backlog: 1000 + (hash % 500),
+      backlog: 5500 + (hash % 1000),
       service: 85 + (hash % 15),
-      share: 100 + (hash % 50),
-      cash_runway: 18 + (hash % 12),
-      // Enhanced flags system
-      flags: {
-        // Legacy boolean flags
-        supply_fragile: (hash % 3) === 0,
-        labor_tense: (hash % 4) === 0,
-        quality_watch: (hash % 5) === 0,
-        tail_risk: (hash % 6) === 0,
-        // Enhanced pressure system (0-1 scale)
-        supply: 0.10,
-        labor: 0.05,
-        quality: 0.00,
-        competition: 0.10,
-        finance: 0.00,
-        regulation: 0.00,
-        tech: 0.05,
-        weather: 0.05
-      },
+      share: 8 + (hash % 10) / 10,
+      cash_runway: runway.months,
+      runway,
+      // Enhanced flags system: pressures seeded per run, legacy booleans derived from them
+      flags: deriveLegacyFlags({
+        supply_fragile: false,
+        labor_tense: false,
+        quality_watch: false,
+        tail_risk: false,
+        supply: (hash % 3) === 0 ? 0.35 : PRESSURE_BASELINE.supply,
+        labor: (hash % 4) === 0 ? 0.35 : PRESSURE_BASELINE.labor,
+        quality: (hash % 5) === 0 ? 0.25 : PRESSURE_BASELINE.quality,
+        competition: PRESSURE_BASELINE.competition,
+        finance: PRESSURE_BASELINE.finance,
+        regulation: PRESSURE_BASELINE.regulation,
+        tech: PRESSURE_BASELINE.tech,
+        weather: PRESSURE_BASELINE.weather
+      }, initialTailRisk),
       pressures: {
         margin_push: (hash % 3) === 0
       },
@@ -79,421 +109,100 @@ export class Engine {
       },
       recent_moves: [],
       // Enhanced fields from Python prototype
-      tail_risk: 5,
+      tail_risk: initialTailRisk,
       shock_decay: 0.10,
       reward_decay: 0.50,
-      ceo_credibility: 72,
       active_shocks: [],
       active_rewards: [],
-      notes: []
-    }
+      scheduled_effects: [],
+      notes: [],
+      // Every run with the same difficulty opens from the same deterministic balance sheet
+      financials: {
+        balance,
+        flow_history: []
+      },
+      credit_facility: { ...DEFAULT_CREDIT_FACILITY, covenants: { ...DEFAULT_CREDIT_FACILITY.covenants } },
+      equity: initialEquity(balance, openingPnl(balance)),
+      market: initialMarket(),
+      workforce: initialWorkforce(),
+      rng: createRngState(seed)
+    })
   }
 
   /**
    * Generate enhanced RNG event with shock pressure and tier system (from Python prototype)
    */
   generateEnhancedRngEvent(state: State, turnIndex: number): RngEvent {
+    const preset = difficultyOf(state)
+
     // Compute shock pressure from flags and company health (like Python prototype)
-    const flagSum = Object.entries(state.flags)
-      .filter(([key]) => ['supply', 'labor', 'quality', 'competition', 'finance', 'regulation', 'tech', 'weather'].includes(key))
-      .reduce((sum, [_, value]) => sum + (typeof value === 'number' ? value : 0), 0)
+    const flagSum = PRESSURE_CATEGORIES.reduce((sum, cat) => sum + state.flags[cat], 0)
     
     let shockPressure = Math.round(flagSum * 20) // 0-20 scale
     
     // Add pressure based on company health
-    const morale = state.kpis?.morale || state.morale
-    const backlog = state.kpis?.backlog_units || state.backlog
-    const cash = state.pnl?.cash || (state.cash_runway * 0.5) // Rough conversion
+    if (state.morale < 60) shockPressure += 5
+    if (state.backlog > 8000) shockPressure += 5
+    if (cashInMillions(state) < CASH_TIGHT_M) shockPressure += 5
     
-    if (morale < 60) shockPressure += 5
-    if (backlog > 8000) shockPressure += 5
-    if (cash < 5.0) shockPressure += 5
+    // The difficulty preset weights the capped pressure
+    shockPressure = Math.round(Math.min(shockPressure, 20) * preset.shock_pressure_weight)
     
-    shockPressure = Math.min(shockPressure, 20)
-    
-    // Generate deterministic rolls
-    const seed = this.hashString(JSON.stringify(state) + turnIndex.toString())
-    const shockRollRaw = (seed % 100) + 1
-    const rewardRollRaw = ((seed * 7) % 100) + 1 // Different seed for reward
+    // Deterministic rolls from independent sub-streams of the run's PRNG.
+    // States without a stream (older run.jsonl entries) fall back to one keyed on the state itself.
+    const rng = state.rng ?? createRngState(`legacy:${this.hashString(JSON.stringify(state))}:${turnIndex}`)
+    const shockRollRaw = rngStream(rng, 'shock_roll').roll(100)
+    const rewardRollRaw = rngStream(rng, 'reward_roll').roll(100)
     
     const rollWithPressure = Math.min(100, shockRollRaw + shockPressure)
     
     // Determine tier from roll
-    const shockTier = this.tierFromRoll(rollWithPressure)
-    const rewardTier = this.tierFromRoll(rewardRollRaw)
+    const shockTier = this.tierFromRoll(rollWithPressure, preset.shock_tiers)
+    const rewardTier = this.tierFromRoll(rewardRollRaw, preset.reward_tiers)
     
     // Choose categories
-    const categories = ['supply', 'labor', 'quality', 'competition', 'finance', 'regulation', 'tech', 'weather']
-    const shockCat = categories[seed % categories.length]
-    const rewardCat = categories[(seed * 3) % categories.length]
+    const categories = PRESSURE_CATEGORIES
+    const shockCat = categories[rngStream(rng, 'shock_category').int(categories.length)]
+    const rewardCat = categories[rngStream(rng, 'reward_category').int(categories.length)]
     
-    // Generate shock event
-    const shockEvent = this.applyShock(shockCat, shockTier, state)
-    const rewardEvent = this.applyReward(rewardCat, rewardTier)
+    // Draw each event from the catalog slot the rolls landed in; an escalating chain replaces the shock
+    const escalated = escalation(state, this.catalog, rng)
+    const shockEvent = escalated?.entry ?? drawCatalogEvent(this.catalog, { kind: 'shock', category: shockCat, tier: shockTier }, state, rngStream(rng, 'shock_event'))
+    const rewardEvent = drawCatalogEvent(this.catalog, { kind: 'reward', category: rewardCat, tier: rewardTier }, state, rngStream(rng, 'reward_event'))
     
-    // Return the shock event (primary event for this turn)
+    // Return the shock event (primary event for this turn) with the reward riding along
     return {
       roll: shockRollRaw,
-      event_type: shockCat as RngEventType,
-      tier: shockTier.toString() as EventTier,
+      event_type: shockEvent.category as RngEventType,
+      tier: shockEvent.tier.toString() as EventTier,
       name: shockEvent.name,
-      effects: shockEvent.effects,
+      effects: catalogEffects(shockEvent),
       flag_bump: shockEvent.flag_bump,
       tail_risk_bump: shockEvent.tail_risk_bump,
-      hints: this.generateHints(state, shockCat, shockTier)
+      decay: shockEvent.decay,
+      reward: {
+        event_type: rewardCat as RngEventType,
+        tier: rewardEvent.tier.toString() as EventTier,
+        name: rewardEvent.name,
+        effects: catalogEffects(rewardEvent),
+        decay: rewardEvent.decay
+      },
+      hints: this.generateHints(state, shockEvent.category, shockEvent.tier),
+      catalog_id: shockEvent.id,
+      ...(escalated ? { chain_from: escalated.chain.id } : {})
     }
   }
 
   /**
-   * Convert roll to tier (0-3) like Python prototype
+   * Convert roll to tier (0-3) like Python prototype, at the difficulty's thresholds
    */
-  private tierFromRoll(roll: number): number {
-    if (roll <= 40) return 0
-    else if (roll <= 80) return 1
-    else if (roll <= 96) return 2
+  private tierFromRoll(roll: number, [tier0, tier1, tier2]: DifficultyPreset['shock_tiers']): number {
+    if (roll <= tier0) return 0
+    else if (roll <= tier1) return 1
+    else if (roll <= tier2) return 2
     else return 3
   }
 
-  /**
-   * Apply shock effects (ported from Python prototype)
-   */
-  private applyShock(cat: string, tier: number, state: State): { name: string; effects: any; flag_bump: number; tail_risk_bump: number } {
-    const effects = {
-      revenue_delta: 0.0,
-      cogs_delta: 0.0,
-      opex_delta: 0.0,
-      cash_delta: 0.0,
-      share_delta: 0.0,
-      nps_delta: 0,
-      morale_delta: 0,
-      backlog_delta: 0,
-      notes: ""
-    }
-    
-    let name = ""
-    let flag_bump = 0.0
-    let tail_risk_bump = 0
-    
-    if (tier === 0) {
-      name = `Thin ice (${cat})`
-      effects.notes = "No immediate hit, but jitters build."
-      tail_risk_bump = 1
-      flag_bump = 0.02
-    } else if (cat === "supply") {
-      if (tier === 1) {
-        name = "Port delay on batteries"
-        effects.revenue_delta = -0.6
-        effects.cogs_delta = 0.1
-        effects.backlog_delta = 1200
-        effects.morale_delta = -2
-        flag_bump = 0.08
-        tail_risk_bump = 5
-      } else if (tier === 2) {
-        name = "Tier-2 vendor outage (motors)"
-        effects.revenue_delta = -1.5
-        effects.cogs_delta = 0.4
-        effects.backlog_delta = 3000
-        effects.morale_delta = -4
-        flag_bump = 0.15
-        tail_risk_bump = 10
-      } else if (tier === 3) {
-        name = "Factory shutdown (safety inspection)"
-        effects.revenue_delta = -3.0
-        effects.cogs_delta = 0.8
-        effects.backlog_delta = 6000
-        effects.morale_delta = -8
-        flag_bump = 0.25
-        tail_risk_bump = 15
-      }
-    } else if (cat === "labor") {
-      if (tier === 1) {
-        name = "Skilled assembler attrition tick up"
-        effects.opex_delta = 0.1
-        effects.cogs_delta = 0.2
-        effects.morale_delta = -3
-        effects.backlog_delta = 500
-        flag_bump = 0.07
-        tail_risk_bump = 5
-      } else if (tier === 2) {
-        name = "Shift walkouts"
-        effects.revenue_delta = -1.0
-        effects.cogs_delta = 0.3
-        effects.morale_delta = -8
-        effects.backlog_delta = 2500
-        flag_bump = 0.12
-        tail_risk_bump = 10
-      } else if (tier === 3) {
-        name = "Union strike notice"
-        effects.revenue_delta = -2.0
-        effects.opex_delta = 0.3
-        effects.morale_delta = -12
-        effects.backlog_delta = 5000
-        flag_bump = 0.2
-        tail_risk_bump = 15
-      }
-    } else if (cat === "quality") {
-      if (tier === 1) {
-        name = "Spike in warranty claims (starter cord)"
-        effects.opex_delta = 0.2
-        effects.nps_delta = -4
-        effects.share_delta = -0.2
-        flag_bump = 0.06
-        tail_risk_bump = 4
-      } else if (tier === 2) {
-        name = "Limited recall (blade hub)"
-        effects.revenue_delta = -0.7
-        effects.opex_delta = 0.6
-        effects.nps_delta = -8
-        effects.share_delta = -0.6
-        flag_bump = 0.12
-        tail_risk_bump = 9
-      } else if (tier === 3) {
-        name = "Major recall (battery fire risk)"
-        effects.revenue_delta = -2.5
-        effects.opex_delta = 1.2
-        effects.nps_delta = -15
-        effects.share_delta = -1.5
-        flag_bump = 0.25
-        tail_risk_bump = 16
-      }
-    } else if (cat === "competition") {
-      if (tier === 1) {
-        name = "Rival promo blitz at big-box"
-        effects.share_delta = -0.4
-        effects.revenue_delta = -0.5
-        flag_bump = 0.06
-        tail_risk_bump = 5
-      } else if (tier === 2) {
-        name = "Competitor exclusive shelf at key retailer"
-        effects.share_delta = -0.9
-        effects.revenue_delta = -1.2
-        flag_bump = 0.1
-        tail_risk_bump = 9
-      } else if (tier === 3) {
-        name = "New entrant undercuts with ultra-low price"
-        effects.share_delta = -1.5
-        effects.revenue_delta = -2.0
-        flag_bump = 0.16
-        tail_risk_bump = 12
-      }
-    } else if (cat === "finance") {
-      if (tier === 1) {
-        name = "Credit insurer tightens terms"
-        effects.cash_delta = -0.5
-        effects.opex_delta = 0.1
-        flag_bump = 0.05
-        tail_risk_bump = 6
-      } else if (tier === 2) {
-        name = "Working capital squeeze"
-        effects.cash_delta = -1.0
-        effects.opex_delta = 0.2
-        effects.revenue_delta = -0.4
-        flag_bump = 0.1
-        tail_risk_bump = 10
-      } else if (tier === 3) {
-        name = "Credit line cap reduced"
-        effects.cash_delta = -2.0
-        effects.revenue_delta = -0.8
-        flag_bump = 0.15
-        tail_risk_bump = 14
-      }
-    } else if (cat === "regulation") {
-      if (tier === 1) {
-        name = "Noise standard scrutiny"
-        effects.opex_delta = 0.1
-        flag_bump = 0.04
-        tail_risk_bump = 5
-      } else if (tier === 2) {
-        name = "New emissions testing backlog"
-        effects.revenue_delta = -0.6
-        effects.opex_delta = 0.2
-        flag_bump = 0.08
-        tail_risk_bump = 10
-      } else if (tier === 3) {
-        name = "Sudden compliance rule change"
-        effects.revenue_delta = -1.5
-        effects.opex_delta = 0.7
-        flag_bump = 0.15
-        tail_risk_bump = 15
-      }
-    } else if (cat === "tech") {
-      if (tier === 1) {
-        name = "Firmware bug causing false error codes"
-        effects.opex_delta = 0.2
-        effects.nps_delta = -3
-        flag_bump = 0.06
-        tail_risk_bump = 6
-      } else if (tier === 2) {
-        name = "Connectivity outage in smart models"
-        effects.revenue_delta = -0.5
-        effects.opex_delta = 0.3
-        effects.nps_delta = -6
-        flag_bump = 0.1
-        tail_risk_bump = 10
-      } else if (tier === 3) {
-        name = "Cyber incident at supplier"
-        effects.revenue_delta = -1.5
-        effects.cash_delta = -0.5
-        effects.opex_delta = 0.4
-        flag_bump = 0.18
-        tail_risk_bump = 14
-      }
-    } else if (cat === "weather") {
-      if (tier === 1) {
-        name = "Mild week reduces weekend traffic"
-        effects.revenue_delta = -0.3
-        flag_bump = 0.04
-        tail_risk_bump = 3
-      } else if (tier === 2) {
-        name = "Unseasonal rains dampen sales"
-        effects.revenue_delta = -0.9
-        flag_bump = 0.08
-        tail_risk_bump = 7
-      } else if (tier === 3) {
-        name = "Storm disrupts regional distribution"
-        effects.revenue_delta = -1.6
-        effects.backlog_delta = 1000
-        flag_bump = 0.12
-        tail_risk_bump = 10
-      }
-    }
-    
-    return { name, effects, flag_bump, tail_risk_bump }
-  }
-
-  /**
-   * Apply reward effects (ported from Python prototype)
-   */
-  private applyReward(cat: string, tier: number): { name: string; effects: any } {
-    const effects = {
-      revenue_delta: 0.0,
-      cogs_delta: 0.0,
-      opex_delta: 0.0,
-      cash_delta: 0.0,
-      share_delta: 0.0,
-      nps_delta: 0,
-      morale_delta: 0,
-      backlog_delta: 0,
-      notes: ""
-    }
-    
-    let name = ""
-    
-    if (tier === 0) {
-      name = `Quiet tailwind (${cat})`
-      effects.notes = "No obvious bump, but teams feel a breeze."
-    } else if (cat === "supply") {
-      if (tier === 1) {
-        name = "Vendor early shipment"
-        effects.revenue_delta = 0.4
-        effects.backlog_delta = -800
-      } else if (tier === 2) {
-        name = "Bulk buy discount"
-        effects.cogs_delta = -0.4
-        effects.cash_delta = -0.4
-      } else if (tier === 3) {
-        name = "Windfall allocation ahead of rivals"
-        effects.revenue_delta = 1.2
-        effects.cogs_delta = -0.3
-        effects.backlog_delta = -1500
-      }
-    } else if (cat === "labor") {
-      if (tier === 1) {
-        name = "Productivity surge"
-        effects.cogs_delta = -0.2
-        effects.morale_delta = 3
-      } else if (tier === 2) {
-        name = "Referral hiring wave"
-        effects.opex_delta = 0.1
-        effects.backlog_delta = -1200
-        effects.morale_delta = 4
-      } else if (tier === 3) {
-        name = "Breakthrough training effect"
-        effects.cogs_delta = -0.5
-        effects.backlog_delta = -2000
-        effects.morale_delta = 6
-      }
-    } else if (cat === "quality") {
-      if (tier === 1) {
-        name = "Glowing third-party review"
-        effects.share_delta = 0.3
-        effects.nps_delta = 4
-      } else if (tier === 2) {
-        name = "Warranty claims drop"
-        effects.opex_delta = -0.3
-        effects.nps_delta = 5
-      } else if (tier === 3) {
-        name = "Industry award for reliability"
-        effects.share_delta = 0.8
-        effects.nps_delta = 8
-      }
-    } else if (cat === "competition") {
-      if (tier === 1) {
-        name = "Rival stumbles on logistics"
-        effects.share_delta = 0.3
-        effects.revenue_delta = 0.4
-      } else if (tier === 2) {
-        name = "Exclusive endcap placement"
-        effects.share_delta = 0.7
-        effects.revenue_delta = 0.9
-      } else if (tier === 3) {
-        name = "Retailer co-op funds bonus"
-        effects.opex_delta = -0.5
-        effects.revenue_delta = 1.0
-        effects.cash_delta = 0.3
-      }
-    } else if (cat === "finance") {
-      if (tier === 1) {
-        name = "FX tailwind"
-        effects.revenue_delta = 0.3
-      } else if (tier === 2) {
-        name = "Tax credit approval"
-        effects.cash_delta = 0.8
-      } else if (tier === 3) {
-        name = "Favorable credit facility"
-        effects.cash_delta = 1.5
-      }
-    } else if (cat === "regulation") {
-      if (tier === 1) {
-        name = "Grant for electrification"
-        effects.cash_delta = 0.5
-      } else if (tier === 2) {
-        name = "Certification fast-track"
-        effects.revenue_delta = 0.6
-        effects.backlog_delta = -800
-      } else if (tier === 3) {
-        name = "Tariff relief"
-        effects.cogs_delta = -0.6
-      }
-    } else if (cat === "tech") {
-      if (tier === 1) {
-        name = "Firmware optimization"
-        effects.cogs_delta = -0.1
-        effects.nps_delta = 2
-      } else if (tier === 2) {
-        name = "Manufacturing automation tweak"
-        effects.cogs_delta = -0.3
-      } else if (tier === 3) {
-        name = "Breakthrough battery yield"
-        effects.revenue_delta = 0.8
-        effects.cogs_delta = -0.4
-      }
-    } else if (cat === "weather") {
-      if (tier === 1) {
-        name = "Sunny weekend surge"
-        effects.revenue_delta = 0.3
-      } else if (tier === 2) {
-        name = "Early growth season"
-        effects.revenue_delta = 0.8
-      } else if (tier === 3) {
-        name = "Prolonged mowing season"
-        effects.revenue_delta = 1.2
-      }
-    }
-    
-    return { name, effects }
-  }
-
   /**
    * Generate hints based on state and event
    */
@@ -507,10 +216,11 @@ export class Engine {
     }
     
     // Add general state hints
-    if (state.kpis?.morale && state.kpis.morale < 60) hints.push('morale_low')
-    if (state.kpis?.backlog_units && state.kpis.backlog_units > 8000) hints.push('backlog_high')
-    if (state.pnl?.cash && state.pnl.cash < 5.0) hints.push('cash_tight')
+    if (state.morale < 60) hints.push('morale_low')
+    if (state.backlog > 8000) hints.push('backlog_high')
+    if (cashInMillions(state) < CASH_TIGHT_M) hints.push('cash_tight')
     if (state.tail_risk && state.tail_risk > 20) hints.push('tail_risk_elevated')
+    if (state.cash_runway < RUNWAY_WARNING_MONTHS) hints.push('runway_short')
     
     return hints.length > 0 ? hints : []
   }
@@ -575,7 +285,7 @@ export class Engine {
         deltas[key] = unitsDelta * supplyMod
       } else {
         // Standard signal application
-        const cap = caps[key as keyof Caps] || 1.0
+        const cap = caps[key as SignalCapKey] || 1.0
         deltas[key] = strength * cap * sign
       }
     })
@@ -608,7 +318,7 @@ export class Engine {
         deltas[stateKey] = (deltas[stateKey] || 0) + unitsDelta * supplyMod
       } else {
         // Standard event impact application
-        const cap = caps[key as keyof Caps] || 1.0
+        const cap = caps[key as SignalCapKey] || 1.0
         deltas[stateKey] = (deltas[stateKey] || 0) + strength * cap * sign * 0.8 // Event impact is 80% of CEO impact
       }
     })
@@ -666,68 +376,104 @@ export class Engine {
   }
 
   /**
-   * Clamp deltas to caps and return applied deltas
+   * Clamp deltas to the per-turn caps and the KPI floors/ceilings; returns the applied deltas
    */
-  private clampDeltas(deltas: Record<string, number>, state: State, caps: Caps): { morale: number; credibility: number; backlog: number; service: number; share: number; cash_runway: number } {
-    const applied: { morale: number; credibility: number; backlog: number; service: number; share: number; cash_runway: number } = {
-      morale: 0,
-      credibility: 0,
-      backlog: 0,
-      service: 0,
-      share: 0,
-      cash_runway: 0
+  private clampDeltas(deltas: Record<string, number>, state: State, caps: Caps): KpiDeltas {
+    const applied: KpiDeltas = { morale: 0, credibility: 0, backlog: 0, service: 0, share: 0, cash_runway: 0 }
+
+    for (const key of KPI_KEYS) {
+      // cash_runway is derived from burn after financials, never from signals
+      if (key === 'cash_runway') continue
+      applied[key] = this.clampDelta(key, deltas[key] || 0, state[key], caps)
     }
-    
-    Object.entries(deltas).forEach(([key, delta]) => {
-      let cap = 1.0
-      
-      // Map metrics to appropriate caps
-      if (key === 'morale') cap = caps.morale
-      else if (key === 'credibility') cap = caps.credibility
-      else if (key === 'service') cap = caps.service_risk
-      else if (key === 'backlog') cap = caps.backlog_pressure * 250 // Backlog is unit-based, not percentage-based
-      else if (key === 'share') cap = caps.backlog_pressure
-      else if (key === 'cash_runway') cap = caps.backlog_pressure
-      
-      // Clamp to caps
-      const clamped = Math.max(-cap, Math.min(cap, delta))
-      if (key in applied) {
-        (applied as any)[key] = clamped
-      }
-    })
 
     return applied
   }
 
+  /**
+   * Clamp one KPI delta to its cap, then keep the result within the KPI's bounds
+   */
+  private clampDelta(key: keyof KpiDeltas, delta: number, current: number, caps: Caps): number {
+    const cap = KPI_CAP[key](caps)
+    const capped = clamp(delta, -cap, cap)
+    const bound = caps.bounds[key]
+    return clamp(current + capped, bound.min, bound.max) - current
+  }
+
   /**
    * Resolve a turn and return the result
    */
   resolveTurn(
     state: State,
     declaration: string,
-    evaluatorOutput: EvaluatorOutput
+    evaluatorOutput: EvaluatorOutput,
+    rngEvent?: RngEvent,
+    actions: Action[] = [],
+    responseId?: string
   ): TurnResult {
+    // The run's difficulty preset tightens or loosens the per-turn caps
+    const caps = this.getCaps(state)
+
     // Apply context modifications
     const moddedState = this.applyContextMods(state)
     
     // Apply signals to get deltas (now handles CEO + Event + Penalty)
-    const rawDeltas = this.applySignals(evaluatorOutput, moddedState, this.caps)
+    const rawDeltas = this.applySignals(evaluatorOutput, moddedState, caps)
+    
+    // Answer last turn's high-tier shock: the chosen option mitigates it before it decays again
+    const response = resolveEventResponse(state, responseId)
+
+    // Age active shocks/rewards and activate this turn's events; their effects (and the response's)
+    // join the raw deltas
+    const lifecycle = advanceActiveEvents({ ...state, active_shocks: response.active_shocks }, rngEvent, state.turn_no + 1)
+    const lingering = lifecycle.applied_effects
+    rawDeltas.morale = (rawDeltas.morale || 0) + lingering.morale_delta + response.effects.morale_delta
+    rawDeltas.backlog = (rawDeltas.backlog || 0) + lingering.backlog_delta + response.effects.backlog_delta
+    rawDeltas.share = (rawDeltas.share || 0) + lingering.share_delta + response.effects.share_delta
+    rawDeltas.service = (rawDeltas.service || 0) + lingering.nps_delta + response.effects.nps_delta
+
+    // Queue this declaration's lagged effects and apply those falling due this turn
+    const scheduled = advanceScheduledEffects(state, evaluatorOutput.scheduled, state.turn_no + 1)
+    rawDeltas.morale = (rawDeltas.morale || 0) + scheduled.totals.morale
+    rawDeltas.credibility = (rawDeltas.credibility || 0) + scheduled.totals.credibility
+    rawDeltas.backlog = (rawDeltas.backlog || 0) + scheduled.totals.backlog
+    rawDeltas.service = (rawDeltas.service || 0) + scheduled.totals.service
+    rawDeltas.share = (rawDeltas.share || 0) + scheduled.totals.share
     
     // Clamp deltas to caps
-    const appliedDeltas = this.clampDeltas(rawDeltas, moddedState, this.caps)
+    const appliedDeltas = this.clampDeltas(rawDeltas, moddedState, caps)
     
     // Create new state
     const newState: State = {
       ...moddedState,
       turn_no: moddedState.turn_no + 1,
-      morale: Math.max(0, Math.min(100, moddedState.morale + (appliedDeltas.morale || 0))),
-      credibility: Math.max(0, Math.min(100, moddedState.credibility + (appliedDeltas.credibility || 0))),
-      backlog: Math.max(0, moddedState.backlog + (appliedDeltas.backlog || 0)),
-      service: Math.max(0, Math.min(100, moddedState.service + (appliedDeltas.service || 0))),
-      share: Math.max(0, moddedState.share + (appliedDeltas.share || 0)),
-      cash_runway: Math.max(0, moddedState.cash_runway + (appliedDeltas.cash_runway || 0)),
-      recent_moves: [...moddedState.recent_moves.slice(-1), declaration].slice(-2)
+      // This turn resolved state.period; the next one opens a month later
+      period: advancePeriod(moddedState.period),
+      morale: moddedState.morale + appliedDeltas.morale,
+      credibility: moddedState.credibility + appliedDeltas.credibility,
+      backlog: moddedState.backlog + appliedDeltas.backlog,
+      service: moddedState.service + appliedDeltas.service,
+      share: moddedState.share + appliedDeltas.share,
+      recent_moves: [...moddedState.recent_moves.slice(-1), declaration].slice(-2),
+      active_shocks: lifecycle.active_shocks,
+      active_rewards: lifecycle.active_rewards,
+      scheduled_effects: scheduled.pending
     }
+    // Each resolved turn consumes one PRNG position
+    if (state.rng) newState.rng = advanceRng(state.rng)
+
+    // Pressures respond to the event and to what a coherent declaration addresses
+    const allowRelief = (evaluatorOutput.penalties?.nonsense_penalty || 0) === 0 && !evaluatorOutput.policy?.oob
+    const pressureUpdate = updatePressures(state, rngEvent, declaration, allowRelief)
+    newState.flags = pressureUpdate.flags
+    newState.tail_risk = pressureUpdate.tail_risk
+
+    // Event chains age, escalate, resolve when addressed, or open from this turn's shock
+    const chains = advanceChains(state, rngEvent, pressureUpdate.addressed, this.catalog)
+    newState.open_chains = chains.open_chains
+
+    // A high-tier shock with response options waits for the next turn's choice
+    newState.pending_response = pendingResponseFor(rngEvent, this.catalog, newState.turn_no)
 
     // Generate placeholder narrative and quotes (will be replaced by narrator)
     const narrative = `Turn ${newState.turn_no} completed. The CEO's declaration "${declaration}" has been processed.`
@@ -745,6 +491,44 @@ export class Engine {
     let params: FinancialParams = { ...FINANCE_PARAMS_DEFAULT };
     const explainers: string[] = [];
 
+    for (const chain of chains.opened) {
+      explainers.push(`Event chain opened: ${chain.name} could escalate to ${chain.risks.join(" or ")}`);
+    }
+    for (const chain of chains.escalated) {
+      explainers.push(`Event chain escalated: ${chain.name} became ${rngEvent?.name}`);
+    }
+    for (const chain of chains.resolved) {
+      explainers.push(`Event chain resolved: ${chain.name} headed off`);
+    }
+    for (const chain of chains.lapsed) {
+      explainers.push(`Event chain lapsed: ${chain.name}`);
+    }
+    if (response.result?.status === 'applied') {
+      const mitigated = response.result.mitigation > 0 ? `, intensity -${Math.round(response.result.mitigation * 100)}%` : "";
+      explainers.push(`Event response: ${response.result.label} to ${response.result.name}${mitigated}`);
+    } else if (response.result?.status === 'rejected') {
+      explainers.push(`Event response rejected: ${response.result.reason}`);
+    } else if (response.result?.status === 'unanswered') {
+      explainers.push(`Event response: none chosen for ${response.result.name}`);
+    }
+    if (newState.pending_response) {
+      explainers.push(`Awaiting response to ${newState.pending_response.name}: ${newState.pending_response.options.map(o => o.label).join(", ")}`);
+    }
+
+    // Credit events move the revolver limit before anything draws on it
+    const credit = applyCreditEvents(creditFacility(state), rngEvent);
+    if (credit.change !== 0) {
+      explainers.push(`Revolver limit ${fmtDollars(credit.change)} to ${fmtDollars(credit.facility.limit).slice(1)}`);
+    }
+
+    // 3.0 Seasonal demand for the month being resolved
+    const season = seasonalDemand(state);
+    if (season.factor !== 1) {
+      drivers.units_sold *= season.factor;
+      const weatherNote = season.factor !== season.base ? `, weather-adjusted from x${season.base.toFixed(2)}` : "";
+      explainers.push(`${season.calendar.period} ${season.calendar.season} demand: units x${season.factor.toFixed(2)}${weatherNote}`);
+    }
+
     // 3.1 CEO signals → demand/price/ops adjustments
     if (evaluatorOutput.signals?.morale) {
       const m = sgn(evaluatorOutput.signals.morale.dir) * (evaluatorOutput.signals.morale.strength || 0);
@@ -777,6 +561,52 @@ export class Engine {
       }
     }
 
+    // 3.2 Declared levers join the standing set, which moves the drivers (capex and promotions only this turn).
+    // Structured actions are validated against the opening balance and override text-derived levers.
+    const resolvedActions = resolveActions(actions, {
+      standing: state.levers ?? {},
+      balance: prevBalance,
+      credit_limit: credit.facility.limit,
+      min_cash_buffer: params.min_cash_buffer,
+      base_price: BASELINE_DRIVERS.avg_price
+    });
+    const declaredLevers = clampLevers({ ...(evaluatorOutput.levers ?? {}), ...resolvedActions.levers });
+    const standingLevers = accumulateLevers(state.levers, declaredLevers);
+    const leverParts = applyLevers(drivers, { ...standingLevers, capex: declaredLevers.capex, promo_pct: declaredLevers.promo_pct });
+    if (leverParts.length > 0) {
+      explainers.push(`Levers in force: ${leverParts.join(", ")}`);
+    }
+    newState.levers = standingLevers;
+
+    // Capital return declared this turn (a pay_dividend action replaces a dividend read from the text)
+    const openingEquity = equityOf(state, prevBalance);
+    const capital = resolveCapitalReturn({
+      dividend: actions.some(a => a.type === 'pay_dividend') ? undefined : declaredLevers.dividend,
+      buyback_pct: declaredLevers.buyback_pct
+    }, {
+      balance: prevBalance,
+      financing: resolvedActions.financing,
+      min_cash_buffer: params.min_cash_buffer,
+      equity: openingEquity
+    });
+    const financing = {
+      ...resolvedActions.financing,
+      dividend: resolvedActions.financing.dividend + capital.dividend,
+      buyback: capital.buyback
+    };
+
+    // One-off spending stated in the text, classified by what it buys; a capital return is held to
+    // the same cash and retained-earnings limits as a dividend
+    const spending = directSpending(detectCashSpending(declaration), prevBalance.cash, declaredLevers);
+    if (spending.capital_return > 0) {
+      spending.capital_return = resolveCapitalReturn({ dividend: spending.capital_return }, {
+        balance: prevBalance,
+        financing,
+        min_cash_buffer: params.min_cash_buffer,
+        equity: openingEquity
+      }).dividend;
+    }
+
     // Working capital effects (days)
     // Start from baseline days
     let dso = drivers.dso;
@@ -843,55 +673,205 @@ export class Engine {
       }
     }
 
+    // Scheduled effects falling due this turn, in queue order
+    for (const effect of scheduled.applied) {
+      drivers.units_sold *= (1 + effect.effects.units_pct / 100);
+      drivers.avg_price *= (1 + effect.effects.price_pct / 100);
+      drivers.opex_base += effect.effects.opex;
+      explainers.push(describeScheduledEffect(effect, newState.turn_no));
+    }
+
     // Final clamping for core drivers
     drivers.units_sold = clamp(Math.round(drivers.units_sold), DRIVER_BOUNDS.units_min, DRIVER_BOUNDS.units_max);
     drivers.avg_price = clamp(drivers.avg_price, DRIVER_BOUNDS.price_min, DRIVER_BOUNDS.price_max);
     drivers.unit_cost = clamp(drivers.unit_cost, DRIVER_BOUNDS.cost_min, DRIVER_BOUNDS.cost_max);
+
+    // Hires join next turn, layoffs leave now, and attrition follows morale and labor pressure.
+    // Structured hire actions name their function; a declared headcount lever is classified by its text.
+    const headcountChanges: HeadcountChanges = actions.some(a => a.type === 'hire')
+      ? resolvedActions.hires
+      : declaredLevers.headcount ? { [hiringFunction(declaration)]: declaredLevers.headcount } : {};
+    const workforce = advanceWorkforce(workforceOf(state), headcountChanges, { morale: newState.morale, labor: newState.flags.labor });
+    newState.workforce = workforce;
+    const moves = workforce.teams.flatMap(t => [
+      ...(headcountChanges[t.id] && headcountChanges[t.id]! > 0 ? [`${t.name} +${headcountChanges[t.id]} hiring`] : []),
+      ...(t.laid_off > 0 ? [`${t.name} -${Math.round(t.laid_off)} laid off`] : [])
+    ]);
+    explainers.push(`Workforce: ${Math.round(workforce.headcount)} heads, attrition ${workforce.attrition_pct.toFixed(1)}%${moves.length > 0 ? `; ${moves.join(", ")}` : ""}`);
+
+    // Those units are this turn's orders: the floor ships them plus overdue backlog up to capacity,
+    // the rest joins the backlog (outside the per-turn cap), and a long backlog costs service
+    const production = runProduction({
+      ...resolveShifts(state.capacity, declaredLevers),
+      headcount: headsIn(workforce, 'assembly'),
+      headroom: state.headroom,
+      demand: drivers.units_sold,
+      backlog: newState.backlog
+    });
+    const capacity = production.capacity;
+    drivers.units_sold = capacity.shipped_units;
+    const backlogFlow = production.backlog - newState.backlog;
+    rawDeltas.backlog = (rawDeltas.backlog || 0) + backlogFlow;
+    const backlogBound = caps.bounds.backlog;
+    newState.backlog = clamp(production.backlog, backlogBound.min, backlogBound.max);
+    appliedDeltas.backlog = newState.backlog - moddedState.backlog;
+    const serviceDrag = backlogServiceDrag(newState.backlog);
+    if (serviceDrag > 0) {
+      rawDeltas.service = (rawDeltas.service || 0) - serviceDrag;
+      appliedDeltas.service = this.clampDelta('service', rawDeltas.service, moddedState.service, caps);
+      newState.service = moddedState.service + appliedDeltas.service;
+    }
+    newState.capacity = capacity;
+    const flex = capacity.overtime_units + capacity.temp_units > 0
+      ? ` (overtime ${Math.round(capacity.overtime_units).toLocaleString("en-US")}, temps ${Math.round(capacity.temp_units).toLocaleString("en-US")})`
+      : "";
+    explainers.push(`Production: ${capacity.shifts} shift${capacity.shifts > 1 ? "s" : ""}, ${Math.round(capacity.headcount)} heads; shipped ${capacity.shipped_units.toLocaleString("en-US")} of ${Math.round(capacity.demand_units).toLocaleString("en-US")} ordered${flex}, backlog ${backlogFlow >= 0 ? "+" : "-"}${Math.abs(Math.round(backlogFlow)).toLocaleString("en-US")}`);
+    if (capacity.cost > 0) {
+      explainers.push(`Capacity premiums: COGS ${fmtDollars(capacity.cost)}`);
+    }
+    // Temps are less practised: the units they make scrap more
+    if (capacity.temp_units > 0 && capacity.shipped_units > 0) {
+      params.scrap_rate = clamp((params.scrap_rate ?? 0) + TEMP_SCRAP_PENALTY * capacity.temp_units / capacity.shipped_units, 0, 0.25);
+    }
+
+    // Payroll, the capacity premiums, recruiting and severance
+    drivers.labor = laborCosts(workforce, capacity);
+    const labor = laborSplit(drivers.labor);
+    const exits = [
+      drivers.labor.recruiting > 0 ? `recruiting ${fmtDollars(drivers.labor.recruiting).slice(1)}` : null,
+      drivers.labor.severance > 0 ? `severance ${fmtDollars(drivers.labor.severance).slice(1)}` : null
+    ].filter(Boolean);
+    explainers.push(`Labor: COGS ${fmtDollars(labor.cogs).slice(1)}, OpEx ${fmtDollars(labor.opex).slice(1)}${exits.length > 0 ? ` (${exits.join(", ")})` : ""}`);
+
+    // Split volume, price and cost across the product lines; the P&L rolls up from them
+    drivers.lines = buildProductLines(drivers, season.factor);
+
+    // Rivals react to our price and service; share drifts toward the attraction-model share
+    const market = advanceMarket(state.market, { price: drivers.avg_price, service: newState.service, backlog: newState.backlog });
+    rawDeltas.share = (rawDeltas.share || 0) + SHARE_ADJUSTMENT * (market.model_share - moddedState.share);
+    appliedDeltas.share = this.clampDelta('share', rawDeltas.share, moddedState.share, caps);
+    newState.share = moddedState.share + appliedDeltas.share;
+    newState.market = market;
+    if (market.moves.length > 0) {
+      explainers.push(`Rivals: ${market.moves.join("; ")}`);
+    }
     // capex policy: modestly invest when morale up & backlog easing (purely deterministic signal gate)
     if (evaluatorOutput.signals?.morale?.dir === "up" && evaluatorOutput.signals?.backlog_pressure?.dir !== "up") {
       drivers.capex_base = clamp(drivers.capex_base * 1.05, DRIVER_BOUNDS.capex_min, DRIVER_BOUNDS.capex_max);
     }
 
+    // RNG event dollars: the firing shock in full plus whatever the active set contributes
+    const eventAdjustments = this.eventFinanceAdjustments(rngEvent, lifecycle.applied_effects, lifecycle.contributions, params, explainers, response.option && {
+      label: `Response "${response.option.label}"`,
+      effects: response.effects,
+      cost: response.option.cost
+    });
+
+    // Borrowing cost for this turn's opening debt
+    params.interest_rate = borrowingRate(prevBalance, state.flags.finance);
+
     const financeInput: FinanceInput = {
       prev_balance: prevBalance,
       drivers,
       params,
-      policy: { dividend: false, repay_debt: false } // deterministic policy for now
+      // Sweep excess cash into the revolver unless this turn deliberately drew on it
+      policy: { dividend: false, repay_debt: credit.facility.auto_repay && resolvedActions.financing.draw === 0 },
+      financing,
+      credit_limit: credit.facility.limit,
+      ...(Object.values(spending).some(amount => amount > 0) ? { direct_cash_spending: spending } : {}),
+      event_adjustments: eventAdjustments
     };
 
     const financials: FinancialSnapshot = computeFinancials(financeInput);
+    if (financials.pnl.interest > 0) {
+      explainers.push(`Interest ${fmtDollars(-financials.pnl.interest)} at ${(params.interest_rate * 100).toFixed(1)}% on ${fmtDollars(prevBalance.debt).slice(1)} debt`);
+    }
+    const lossUsed = (prevBalance.tax_loss_carryforward ?? 0) - (financials.balance.tax_loss_carryforward ?? 0);
+    if (financials.pnl.taxes > 0 || lossUsed > 0) {
+      const shelter = lossUsed > 0 ? ` after ${fmtDollars(lossUsed).slice(1)} of loss carryforward` : "";
+      explainers.push(`Tax ${fmtDollars(-financials.pnl.taxes)} at ${((params.tax_rate ?? 0) * 100).toFixed(0)}%${shelter}`);
+    }
+    const { draw, repay, dividend } = resolvedActions.financing;
+    if (draw > 0 || repay > 0 || dividend > 0) {
+      const parts = [
+        draw > 0 ? `debt draw ${fmtDollars(draw)}` : "",
+        repay > 0 ? `debt repayment ${fmtDollars(-repay)}` : "",
+        dividend > 0 ? `dividend ${fmtDollars(-dividend)}` : ""
+      ].filter(Boolean);
+      explainers.push(`Financing actions: ${parts.join(", ")}`);
+    }
+    if (capital.dividend > 0 || capital.buyback > 0) {
+      const parts = [
+        capital.dividend > 0 ? `dividend ${fmtDollars(-capital.dividend)}` : "",
+        capital.buyback > 0 ? `buyback ${fmtDollars(-capital.buyback)} retiring ${capital.shares_retired.toLocaleString("en-US")} shares at $${openingEquity.share_price.toFixed(2)}` : ""
+      ].filter(Boolean);
+      explainers.push(`Capital return: ${parts.join(", ")}`);
+    }
 
-    // Check for direct cash spending declarations and apply AFTER normal financial calculation
-    const cashSpending = this.detectCashSpending(declaration, evaluatorOutput);
-    if (cashSpending > 0) {
-      let directCashSpending: number;
-      if (cashSpending <= 1) {
-        // Percentage-based spending (0-1 range) - use ORIGINAL cash balance, not post-operations
-        directCashSpending = prevBalance.cash * cashSpending;
-      } else {
-        // Absolute amount spending
-        directCashSpending = cashSpending;
-      }
-      explainers.push(`Direct cash expenditure: $${(directCashSpending / 1000000).toFixed(1)}M`);
-      
-      // Apply direct cash spending as additional outflow after normal operations
-      financials.balance.cash = Math.max(0, financials.balance.cash - directCashSpending);
+    const spent = (Object.keys(spending) as SpendingCategory[])
+      .filter(category => spending[category] > 0)
+      .map(category => `${fmtDollars(spending[category]).slice(1)} to ${spendingLabel(category)}`);
+    if (spent.length > 0) {
+      explainers.push(`Direct spending: ${spent.join(", ")}`);
     }
 
-    // Update the newState with computed financials
-    newState.pnl = {
-      revenue: financials.pnl.revenue / 1000000, // Convert back to millions for consistency
-      cogs: financials.pnl.cogs / 1000000,
-      gm_percent: (financials.pnl.gross_profit / financials.pnl.revenue) * 100, // Calculate GM%
-      opex: financials.pnl.opex / 1000000,
-      net: financials.pnl.net_income / 1000000,
-      cash: financials.balance.cash / 1000000
+    // Carry the closing balance forward so the next turn opens from it
+    const flowHistory = recordNetFlow(state.financials?.flow_history, financials.cashflow.cfo, financials.cashflow.cfi);
+    newState.financials = {
+      balance: { ...financials.balance },
+      last_snapshot: financials,
+      flow_history: flowHistory
     };
 
+    // Runway from closing liquidity and trailing burn
+    const runway = computeRunway({
+      cash: financials.balance.cash,
+      debt: financials.balance.debt,
+      credit_limit: credit.facility.limit,
+      flow_history: flowHistory,
+      period_days: params.period_days
+    });
+    newState.runway = runway;
+    rawDeltas.cash_runway = runway.months - state.cash_runway;
+    appliedDeltas.cash_runway = this.clampDelta('cash_runway', rawDeltas.cash_runway, state.cash_runway, caps);
+    newState.cash_runway = state.cash_runway + appliedDeltas.cash_runway;
+    if (!runway.profitable) {
+      explainers.push(`Runway ${runway.months.toFixed(1)} months at ${fmtDollars(-runway.monthly_burn)} monthly net burn`);
+    }
+
+    // Covenant test on the closing position: breaches raise finance pressure and cost credibility
+    const covenants = testCovenants(financials, credit.facility, params.period_days);
+    newState.credit_facility = credit.facility;
+    newState.covenants = covenants;
+    if (covenants.breaches.length > 0) {
+      const breached = covenants.breaches.length;
+      newState.flags = deriveLegacyFlags({
+        ...newState.flags,
+        finance: Math.min(1, newState.flags.finance + COVENANT_BREACH_PRESSURE * breached)
+      }, newState.tail_risk ?? TAIL_RISK_BASELINE);
+      rawDeltas.credibility = (rawDeltas.credibility || 0) - COVENANT_BREACH_CREDIBILITY * breached;
+      appliedDeltas.credibility = this.clampDelta('credibility', rawDeltas.credibility, moddedState.credibility, caps);
+      newState.credibility = moddedState.credibility + appliedDeltas.credibility;
+      explainers.push(`Covenant breach: ${covenants.breaches.join(", ")}; lenders raise finance pressure`);
+    }
+
+    // Share count and investor metrics on the closing position
+    const equity = equityAfterTurn(openingEquity, financials, { ...financing, dividend: financing.dividend + spending.capital_return }, capital.shares_retired, params.period_days);
+    newState.equity = equity;
+
+    // Report how much of each raw delta the caps and bounds removed
+    const rawKpiDeltas = {} as KpiDeltas;
+    const clipped = {} as KpiDeltas;
+    for (const key of KPI_KEYS) {
+      rawKpiDeltas[key] = rawDeltas[key] || 0;
+      clipped[key] = rawKpiDeltas[key] - appliedDeltas[key];
+    }
+
     return {
       turn_no: newState.turn_no,
       state_before: state,
-      state_after: newState,
+      // kpis, pnl and ceo_credibility follow the canonical fields and the new snapshot
+      state_after: syncStateViews(newState),
       declaration,
       assessment: evaluatorOutput.assessment,
       signals: evaluatorOutput.signals,
@@ -899,17 +879,33 @@ export class Engine {
       integrated: evaluatorOutput.integrated,
       penalties: evaluatorOutput.penalties,
       policy: evaluatorOutput.policy,
-      deltas: {
-        morale: rawDeltas.morale || 0,
-        credibility: rawDeltas.credibility || 0,
-        backlog: rawDeltas.backlog_pressure || 0,
-        service: rawDeltas.service_risk || 0,
-        share: rawDeltas.share || 0,
-        cash_runway: rawDeltas.cash_runway || 0
-      },
+      deltas: rawKpiDeltas,
       applied_deltas: appliedDeltas,
+      clipped,
       financials,
       explainers: { finance: explainers },
+      active_events: {
+        shocks: lifecycle.active_shocks,
+        rewards: lifecycle.active_rewards,
+        expired: lifecycle.expired,
+        applied_effects: lingering
+      },
+      levers: {
+        declared: declaredLevers,
+        standing: standingLevers
+      },
+      covenants,
+      equity,
+      market,
+      capacity,
+      workforce,
+      actions: resolvedActions.results,
+      ...(response.result ? { event_response: response.result } : {}),
+      scheduled_effects: {
+        queued: scheduled.queued,
+        applied: scheduled.applied,
+        pending: scheduled.pending
+      },
       narrative,
       quotes
     }
@@ -929,10 +925,10 @@ export class Engine {
   }
 
   /**
-   * Get current caps
+   * Get current caps, with the difficulty preset's overrides when given the run's state
    */
-  getCaps(): Caps {
-    return { ...this.caps }
+  getCaps(state?: State): Caps {
+    return { ...this.caps, ...(state ? difficultyOf(state).caps : {}) }
   }
 
   /**
@@ -943,45 +939,61 @@ export class Engine {
   }
 
   /**
-   * Detect direct cash spending declarations
+   * Convert event $M effects into per-period finance adjustments (units in eventCatalog.ts), plus
+   * a chosen response's effects and one-off cost, which is expensed in OpEx
    */
-  private detectCashSpending(declaration: string, evaluatorOutput: EvaluatorOutput): number {
-    const lowerDecl = declaration.toLowerCase();
-    
-    // Check for specific cash spending patterns (order matters - more specific first)
-    const cashPatterns = [
-      // Direct amount patterns (most specific first)
-      { pattern: /(\d+(?:\.\d+)?)\s*(?:million|m)\s*(?:in|on|for|to)\s*(?:employee|staff|bonus|bonuses)/, multiplier: 1000000 },
-      { pattern: /(\d+(?:\.\d+)?)\s*(?:thousand|k)\s*(?:in|on|for|to)\s*(?:employee|staff|bonus|bonuses)/, multiplier: 1000 },
-      { pattern: /(\d+(?:\.\d+)?)\s*(?:billion|b)\s*(?:in|on|for|to)\s*(?:employee|staff|bonus|bonuses)/, multiplier: 1000000000 },
-      
-      // Percentage of cash patterns (less specific, should come after amount patterns)
-      { pattern: /(?:spend|use|give)\s*(\d+(?:\.\d+)?)%\s*(?:of\s*)?(?:our\s*)?(?:cash|money)/, multiplier: 1, isPercentage: true },
-      { pattern: /(?:spend|use|give)\s*(?:all|100%)\s*(?:of\s*)?(?:our\s*)?(?:cash|money)/, multiplier: 1, isPercentage: true },
-    ];
-    
-    for (const pattern of cashPatterns) {
-      const match = lowerDecl.match(pattern.pattern);
-      if (match) {
-        if (pattern.isPercentage) {
-          const percentage = match[1] ? parseFloat(match[1]) / 100 : 1.0;
-          return percentage; // Return as percentage (0-1)
-        } else {
-          const amount = parseFloat(match[1]);
-          return amount * pattern.multiplier;
-        }
-      }
+  private eventFinanceAdjustments(
+    rngEvent: RngEvent | undefined,
+    lingering: EventEffects,
+    contributions: { name: string; effects: EventEffects }[],
+    params: FinancialParams,
+    explainers: string[],
+    response?: { label: string; effects: EventEffects; cost: number }
+  ): EventFinanceAdjustments {
+    const runRate = (millions: number) => runRateDollars(millions, params.period_days);
+    const sources: { label: string; effects: EventEffects; cost?: number }[] = [];
+    const named = [...contributions];
+    if (rngEvent?.effects && rngEvent.name && parseInt(rngEvent.tier ?? '0') > 0) {
+      const lines = linesNamedBy(rngEvent.name);
+      const onLines = lines.length > 0 ? ` [${lines.map(line => line.name).join(", ")}]` : "";
+      sources.push({ label: `${rngEvent.name}${onLines}`, effects: rngEvent.effects });
+      named.push({ name: rngEvent.name, effects: rngEvent.effects });
     }
-    
-    return 0;
+    sources.push({ label: "Active shocks/rewards", effects: lingering });
+    if (response) sources.push(response);
+
+    const total: EventFinanceAdjustments = { revenue: 0, cogs: 0, opex: 0, cash: 0 };
+    for (const { label, effects, cost = 0 } of sources) {
+      const adj: EventFinanceAdjustments = {
+        revenue: runRate(effects.revenue_delta),
+        cogs: runRate(effects.cogs_delta),
+        opex: runRate(effects.opex_delta) + cost,
+        cash: eventCashDollars(effects.cash_delta, params.period_days)
+      };
+      const parts = (Object.keys(adj) as Exclude<keyof EventFinanceAdjustments, 'lines'>[])
+        .filter(k => Math.abs(adj[k]) >= 1)
+        .map(k => `${k === 'cogs' ? 'COGS' : k === 'opex' ? 'OpEx' : k} ${fmtDollars(adj[k])}`);
+      if (parts.length === 0) continue;
+      explainers.push(`${label}: ${parts.join(', ')}`);
+      total.revenue += adj.revenue;
+      total.cogs += adj.cogs;
+      total.opex += adj.opex;
+      total.cash += adj.cash;
+    }
+
+    // Events that name a product line land their revenue/COGS on it
+    for (const { name, effects } of named) {
+      targetLines(total, linesNamedBy(name), runRate(effects.revenue_delta), runRate(effects.cogs_delta));
+    }
+    return total;
   }
 
   /**
    * Helper to get previous balance from state or use starting balance
    */
-  private getPrevBalanceFromState(state: any): MiniBalanceSheet {
+  private getPrevBalanceFromState(state: State): MiniBalanceSheet {
     // If prior financials exist, prefer them; else starting balance.
-    return state?.financials?.balance ?? STARTING_BALANCE;
+    return state.financials?.balance ?? STARTING_BALANCE;
   }
 }
 
@@ -993,36 +1005,96 @@ const FINANCE_PARAMS_DEFAULT: FinancialParams = {
   price_to_units: 0,                  // elasticities wired later
   morale_to_units: 0,
   credibility_to_price: 0,
-  scrap_rate: 0.00                    // service_risk→scrap tuned later
+  scrap_rate: 0.00,                   // service_risk→scrap tuned later
+  tax_rate: 0.25                      // interest_rate is priced each turn from leverage and finance pressure
 };
 
-// Deterministic starting balance if absent in state
-const STARTING_BALANCE: MiniBalanceSheet = {
-  cash: 1_000_000,
-  ar: 250_000,
-  inventory: 300_000,
-  ppe: 2_000_000,
-  ap: 200_000,
-  debt: 0,
-  retained_earnings: 1_350_000,
-  other_equity: 1_700_000
+// Caps that scale evaluator signal strengths
+type SignalCapKey = 'morale' | 'credibility' | 'service_risk' | 'backlog_pressure';
+
+// Canonical KPIs reported in deltas/applied_deltas/clipped, and the cap each one uses
+const KPI_KEYS = ['morale', 'credibility', 'backlog', 'service', 'share', 'cash_runway'] as const;
+const KPI_CAP: Record<keyof KpiDeltas, (caps: Caps) => number> = {
+  morale: caps => caps.morale,
+  credibility: caps => caps.credibility,
+  backlog: caps => caps.backlog_units,
+  service: caps => caps.service_risk,
+  share: caps => caps.share,
+  cash_runway: caps => caps.cash_runway
 };
 
 // Conservative baseline drivers; will be adjusted from signals in a later step.
+// Payroll is added each turn from the workforce (see workforce.ts)
 const BASELINE_DRIVERS: FinancialDrivers = {
   units_sold: 10_000,
   avg_price: 100,
-  unit_cost: 60,
-  opex_base: 300_000,
+  unit_cost: 30,       // materials; assembly payroll adds $20 a unit at baseline volume
+  opex_base: 100_000,  // non-payroll OpEx
   capex_base: 50_000,
   dso: 30,  // days
   dpo: 30,  // days
   dio: 45   // days
 };
 
+// Monthly revenue, COGS (materials plus direct payroll) and OpEx at the baseline drivers
+function baselineFlows(): { revenue: number; cogs: number; opex: number } {
+  const labor = laborSplit(baselineLabor());
+  return {
+    revenue: BASELINE_DRIVERS.units_sold * BASELINE_DRIVERS.avg_price,
+    cogs: BASELINE_DRIVERS.units_sold * BASELINE_DRIVERS.unit_cost + labor.cogs,
+    opex: BASELINE_DRIVERS.opex_base + labor.opex
+  };
+}
+
+/**
+ * Opening balance sheet: working capital at the baseline drivers' DSO/DIO/DPO, so the first turn
+ * books no build-up, and retained earnings set so assets equal liabilities plus equity exactly
+ */
+export function openingBalance(overrides: { cash?: number; debt?: number } = {}): MiniBalanceSheet {
+  const { revenue, cogs } = baselineFlows();
+  const period = FINANCE_PARAMS_DEFAULT.period_days;
+  const sheet = {
+    cash: overrides.cash ?? 1_000_000,
+    ar: revenue * BASELINE_DRIVERS.dso / period,
+    inventory: cogs * BASELINE_DRIVERS.dio / period,
+    ppe: 2_000_000,
+    ap: cogs * BASELINE_DRIVERS.dpo / period,
+    debt: overrides.debt ?? 0,
+    other_equity: 1_700_000
+  };
+  const retained_earnings = sheet.cash + sheet.ar + sheet.inventory + sheet.ppe - sheet.ap - sheet.debt - sheet.other_equity;
+  return { ...sheet, retained_earnings };
+}
+
+// Deterministic starting balance if absent in state
+export const STARTING_BALANCE: MiniBalanceSheet = openingBalance();
+
+// Cash ($M) below which shock pressure rises and the cash_tight hint fires
+const CASH_TIGHT_M = 0.5;
+
+const cashInMillions = (state: State) => (state.financials?.balance.cash ?? STARTING_BALANCE.cash) / 1_000_000;
+
+// Pro-forma monthly P&L view ($M) from the baseline drivers, shown before the first turn
+function openingPnl(balance: MiniBalanceSheet): NonNullable<State['pnl']> {
+  const { revenue, cogs, opex } = baselineFlows();
+  const depreciation = balance.ppe / FINANCE_PARAMS_DEFAULT.depreciation_life_years / 12;
+  return {
+    revenue: revenue / 1_000_000,
+    cogs: cogs / 1_000_000,
+    gm_percent: ((revenue - cogs) / revenue) * 100,
+    opex: opex / 1_000_000,
+    net: (revenue - cogs - opex - depreciation) * (1 - (FINANCE_PARAMS_DEFAULT.tax_rate ?? 0)) / 1_000_000,
+    cash: balance.cash / 1_000_000
+  };
+}
+
+// The run's difficulty preset (states from before presets play standard)
+const difficultyOf = (state: State): DifficultyPreset => DIFFICULTY_PRESETS[state.difficulty ?? DEFAULT_DIFFICULTY];
+
 // clamp and signed helpers
 const clamp = (x: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, x));
 const sgn = (dir: "up" | "down" | "none") => dir === "up" ? +1 : dir === "down" ? -1 : 0;
+const fmtDollars = (x: number) => `${x < 0 ? "-" : "+"}$${Math.round(Math.abs(x) / 1000)}k`;
 
 // deterministic hash (simple) to split penalty across KPIs if needed
 function hashStr(s: string): number {
@@ -0,0 +1,97 @@
+import { Equity, FinancialSnapshot, FinancingActions, Levers, MiniBalanceSheet, State } from './contracts'
+
+/**
+ * Equity and capital return.
+ * Shares are valued at EV_EBITDA_MULTIPLE times annualised EBITDA less net debt, never below book
+ * value. Declared dividends are paid from retained earnings; buybacks retire whole shares at the
+ * opening share price against other equity. Both are funded only from cash above the minimum buffer,
+ * after any financing the turn's structured actions already committed.
+ */
+
+export const INITIAL_SHARES = 1_000_000
+export const EV_EBITDA_MULTIPLE = 6
+
+export interface CapitalReturnContext {
+  balance: MiniBalanceSheet    // opening balance sheet
+  financing: FinancingActions  // draws, repayments and dividends already committed by actions
+  min_cash_buffer: number
+  equity: Equity               // opening share count and price
+}
+
+export interface CapitalReturn {
+  dividend: number
+  buyback: number
+  shares_retired: number
+}
+
+/**
+ * Share price, market cap and book value per share for a balance sheet
+ */
+export function valueEquity(balance: MiniBalanceSheet, annualEbitda: number, shares: number): Pick<Equity, 'share_price' | 'market_cap' | 'book_value_per_share'> {
+  const book = balance.retained_earnings + balance.other_equity
+  const netDebt = balance.debt - balance.cash
+  const marketCap = Math.max(0, book, Math.max(0, annualEbitda) * EV_EBITDA_MULTIPLE - netDebt)
+  return {
+    share_price: marketCap / shares,
+    market_cap: marketCap,
+    book_value_per_share: book / shares
+  }
+}
+
+/**
+ * Opening equity for a balance sheet and monthly P&L view ($M), before any capital is returned
+ */
+export function initialEquity(balance: MiniBalanceSheet, pnl: State['pnl'], shares = INITIAL_SHARES): Equity {
+  const monthlyEbitda = pnl ? (pnl.revenue - pnl.cogs - pnl.opex) * 1_000_000 : 0
+  return {
+    shares_outstanding: shares,
+    ...valueEquity(balance, monthlyEbitda * 12, shares),
+    eps: 0,
+    dps: 0,
+    dividends: 0,
+    buyback: 0,
+    shares_retired: 0
+  }
+}
+
+/**
+ * Equity in force for a state (pre-equity states are valued from their balance sheet)
+ */
+export function equityOf(state: State, balance: MiniBalanceSheet): Equity {
+  return state.equity ?? initialEquity(balance, state.pnl)
+}
+
+/**
+ * Clip a declared dividend and buyback to what the opening position can fund
+ */
+export function resolveCapitalReturn(levers: Levers, ctx: CapitalReturnContext): CapitalReturn {
+  const { balance, financing, equity } = ctx
+  const spendable = Math.max(0, balance.cash + financing.draw - financing.repay - financing.dividend - ctx.min_cash_buffer)
+  const distributable = Math.max(0, balance.retained_earnings - financing.dividend)
+  const dividend = Math.min(levers.dividend ?? 0, distributable, spendable)
+
+  if (!levers.buyback_pct || equity.share_price <= 0) {
+    return { dividend, buyback: 0, shares_retired: 0 }
+  }
+  const wanted = equity.shares_outstanding * levers.buyback_pct / 100
+  const affordable = (spendable - dividend) / equity.share_price
+  const sharesRetired = Math.floor(Math.min(wanted, affordable))
+  return { dividend, buyback: sharesRetired * equity.share_price, shares_retired: sharesRetired }
+}
+
+/**
+ * Share count and investor metrics after a turn's financials
+ */
+export function equityAfterTurn(opening: Equity, snapshot: FinancialSnapshot, financing: FinancingActions, sharesRetired: number, periodDays = 30): Equity {
+  const shares = opening.shares_outstanding - sharesRetired
+  const annualise = 12 * 30 / Math.max(1, periodDays)
+  return {
+    shares_outstanding: shares,
+    ...valueEquity(snapshot.balance, snapshot.pnl.ebitda * annualise, shares),
+    eps: snapshot.pnl.net_income / shares,
+    dps: financing.dividend / opening.shares_outstanding,
+    dividends: financing.dividend,
+    buyback: financing.buyback ?? 0,
+    shares_retired: sharesRetired
+  }
+}
@@ -6,9 +6,16 @@ import {
   RngEvent,
   Direction,
   DirStrength,
-  Caps
+  Caps,
+  Action
 } from './contracts'
 import { OOB_KEYWORDS, NONSENSE_KEYWORDS } from './rules/evaluatorKeywords'
+import { CANONICAL_KPIS, formatKpi } from './stateModel'
+import { RUNWAY_WARNING_MONTHS } from './runway'
+import { describePeriod } from './calendar'
+import { detectLaggedActions } from './scheduledEffects'
+import { extractLevers } from './levers'
+import { describeActions } from './actions'
 
 export class Evaluator {
   private openai: OpenAI | null = null
@@ -55,45 +62,53 @@ You DO NOT compute final numeric deltas. You judge fit and produce normalized st
 If the declaration tries to inject external events or money, set policy.oob = true and record violations; otherwise judge best-effort.
 If the declaration is incoherent or irrelevant, set a small penalties.nonsense_penalty (0..1) and keep signals near-neutral.
 Always tie your rationale and severity notes to concrete state_packet facts and the provided RNG event. Never invent external shocks or money; only use the event packet provided.
+Record concrete quantities the declaration commits to in "levers" (percent changes, days, heads hired (+) or laid off (-), production shifts added and for how many weeks, capex and dividend dollars, buyback % of shares); omit levers it does not state.
+If open event chains are listed, credit a declaration that addresses one (it helps head off the escalation) and note the risk when it is ignored.
+If the declaration commits to something whose payoff is lagged (e.g. a marketing push), list it in "scheduled" with a delay and duration in turns: the cost usually lands now (delay 0) and the payoff later.
 Respond with STRICT JSON only, no extra text.`
 
     const userPrompt = `Evaluate this CEO declaration: "${declaration}"
 
 Current state:
 - Turn: ${statePacket.turn_no}
-- Period: ${statePacket.period || 'N/A'}
+- Period: ${describePeriod(statePacket)}
 - Event: ${statePacket.event.category} (${statePacket.event.tier})
-- Morale: ${statePacket.morale}
-- Credibility: ${statePacket.credibility}
-- Backlog: ${statePacket.backlog}
-- Service: ${statePacket.service}
-- Share: ${statePacket.share}
-- Cash runway: ${statePacket.cash_runway} months
+${CANONICAL_KPIS.map(({ key }) => `- ${formatKpi(statePacket, key)}`).join('\n')}${statePacket.runway && !statePacket.runway.profitable ? `
+- Monthly net burn: $${Math.round(statePacket.runway.monthly_burn / 1000)}k against $${Math.round(statePacket.runway.liquidity / 1000)}k cash + undrawn credit` : ''}${statePacket.covenants && statePacket.covenants.breaches.length > 0 ? `
+- Covenant breaches: ${statePacket.covenants.breaches.join(', ')}` : ''}
 - Flags: ${Object.entries(statePacket.flags).filter(([_, v]) => v).map(([k, _]) => k).join(', ') || 'none'}
 - Pressures: ${Object.entries(statePacket.pressures).filter(([_, v]) => v).map(([k, _]) => k).join(', ') || 'none'}
 - Recent moves: ${statePacket.recent_moves.join(', ') || 'none'}
 ${statePacket.pnl ? `
-Financial metrics:
+Financial metrics (last month):
 - Revenue: $${statePacket.pnl.revenue}M
 - COGS: $${statePacket.pnl.cogs}M
 - Gross Margin: ${statePacket.pnl.gm_percent}%
 - OpEx: $${statePacket.pnl.opex}M
 - Net Income: $${statePacket.pnl.net}M
-- Cash: $${statePacket.pnl.cash}M` : ''}
-${statePacket.kpis ? `
-Enhanced KPIs:
-- Market Share: ${statePacket.kpis.share_percent}%
-- Service NPS: ${statePacket.kpis.service_nps}
-- Team Morale: ${statePacket.kpis.morale}
-- Backlog Units: ${statePacket.kpis.backlog_units}` : ''}
+- Cash: $${statePacket.pnl.cash}M` : ''}${statePacket.equity ? `
+- Shares: ${(statePacket.equity.shares_outstanding / 1_000_000).toFixed(2)}M at $${statePacket.equity.share_price.toFixed(2)} (EPS $${statePacket.equity.eps.toFixed(2)})` : ''}
 ${statePacket.tail_risk !== undefined ? `
 Risk metrics:
 - Tail Risk: ${statePacket.tail_risk}/100
 - CEO Credibility: ${statePacket.ceo_credibility}/100` : ''}
 ${statePacket.active_shocks && statePacket.active_shocks.length > 0 ? `
-Active Shocks: ${statePacket.active_shocks.map(s => `${s.name} (${s.tier})`).join(', ')}` : ''}
+Active Shocks: ${statePacket.active_shocks.map(s => `${s.name} (tier ${s.tier}, ${Math.round(s.intensity * 100)}% strength)`).join(', ')}` : ''}
 ${statePacket.active_rewards && statePacket.active_rewards.length > 0 ? `
-Active Rewards: ${statePacket.active_rewards.map(r => `${r.name} (${r.tier})`).join(', ')}` : ''}
+Active Rewards: ${statePacket.active_rewards.map(r => `${r.name} (tier ${r.tier}, ${Math.round(r.intensity * 100)}% strength)`).join(', ')}` : ''}
+${statePacket.levers && Object.keys(statePacket.levers).length > 0 ? `
+Levers in force: ${Object.entries(statePacket.levers).map(([k, v]) => `${k} ${v > 0 ? '+' : ''}${v}`).join(', ')}` : ''}
+${statePacket.scheduled_effects && statePacket.scheduled_effects.length > 0 ? `
+Pending Effects: ${statePacket.scheduled_effects.map(e => `${e.label} (turns ${e.start_turn}-${e.end_turn})`).join(', ')}` : ''}
+${statePacket.open_chains && statePacket.open_chains.length > 0 ? `
+Open Event Chains: ${statePacket.open_chains.map(c => `${c.name} (${c.category}, open ${c.turns_open} turn${c.turns_open === 1 ? '' : 's'}${c.ignored ? ', ignored last turn' : ''}; may escalate to ${c.risks.join(' or ')})`).join('; ')}` : ''}${statePacket.pending_response ? `
+Awaiting Response: ${statePacket.pending_response.name}; options ${statePacket.pending_response.options.map(o => `"${o.label}"`).join(', ')}` : ''}
+${statePacket.workforce ? `
+Workforce: ${statePacket.workforce.teams.map(t => `${t.name} ${Math.round(t.heads)}${t.planned > Math.round(t.heads) ? ` (${Math.round(t.planned - t.heads)} open)` : ''}`).join(', ')}; attrition ${statePacket.workforce.attrition_pct.toFixed(1)}% a month` : ''}${statePacket.capacity ? `
+Production: ${statePacket.capacity.shifts} shift${statePacket.capacity.shifts > 1 ? 's' : ''}${statePacket.capacity.shift_turns_left !== null ? ` (${statePacket.capacity.shift_turns_left} more turn${statePacket.capacity.shift_turns_left === 1 ? '' : 's'} of extra shifts)` : ''}, ${Math.round(statePacket.capacity.headcount)} heads; shipped ${statePacket.capacity.shipped_units} of ${Math.round(statePacket.capacity.demand_units)} ordered, ${Math.round(statePacket.capacity.utilization * 100)}% of capacity` : ''}
+${statePacket.market ? `
+Rivals: ${statePacket.market.rivals.map(r => `${r.name} $${r.price.toFixed(0)}, service ${r.service.toFixed(0)}, ${r.share.toFixed(1)}% share${r.promo ? ', promoting' : ''}`).join('; ')}${statePacket.market.moves.length > 0 ? `
+Rival moves last turn: ${statePacket.market.moves.join('; ')}` : ''}` : ''}
 
 RNG Event: Roll ${rngEvent.roll}, Type: ${rngEvent.event_type}${rngEvent.tier ? `, Tier: ${rngEvent.tier}` : ''}${rngEvent.name ? `, Name: "${rngEvent.name}"` : ''}${rngEvent.effects ? `
 Event Effects:
@@ -143,7 +158,16 @@ Return valid JSON matching this schema:
     "oob": false,
     "violations": []
   },
-  "rationale": "concise; must cite state_packet facts"
+  "rationale": "concise; must cite state_packet facts",
+  "levers": {"opex_pct": -10, "dpo_days": 15},
+  "scheduled": [
+    {
+      "label": "short name of the lagged effect",
+      "delay": 0,
+      "duration": 1,
+      "effects": {"units_pct": 0, "price_pct": 0, "opex": 0, "morale": 0, "credibility": 0, "backlog": 0, "service": 0, "share": 0}
+    }
+  ]
 }
 
 Respond ONLY with JSON conforming to the schema. No prose.`
@@ -172,13 +196,53 @@ Respond ONLY with JSON conforming to the schema. No prose.`
         throw new Error('Invalid JSON response from LLM')
       }
       
-      return EvaluatorOutputSchema.parse(parsed)
+      const output = EvaluatorOutputSchema.parse(parsed)
+      // Fall back to the lever and lagged-action rules when the model tags nothing
+      return {
+        ...output,
+        levers: output.levers ?? (output.policy.oob ? {} : extractLevers(declaration)),
+        scheduled: output.scheduled ?? (output.policy.oob ? [] : detectLaggedActions(declaration))
+      }
     } catch (error) {
       console.error('LLM evaluation failed, falling back to rules:', error)
       return this.evaluateWithRules(declaration, statePacket, rngEvent, caps)
     }
   }
 
+  /**
+   * Deterministic evaluation for an action-only turn: no declaration to judge, so CEO signals are
+   * neutral and the actions carry the move. The RNG event still lands through the rule-based channels.
+   */
+  evaluateActions(statePacket: StatePacket, rngEvent: RngEvent, actions: Action[]): EvaluatorOutput {
+    const none: DirStrength = { dir: 'none', strength: 0 }
+    const eventImpact = this.generateEventImpact(rngEvent, statePacket)
+
+    return {
+      assessment: {
+        intent: ['structured actions'],
+        targets: [...new Set(actions.map(action => action.type))],
+        tone: 'procedural',
+        fit_reasons: [describeActions(actions)]
+      },
+      signals: { morale: none, credibility: none, backlog_pressure: none, service_risk: none },
+      event: {
+        roll: rngEvent.roll,
+        event_type: rngEvent.event_type,
+        impact_channels: eventImpact,
+        severity_note: this.generateSeverityNote(rngEvent, statePacket)
+      },
+      integrated: {
+        synergy: 'neutral',
+        narrative_hook: `The CEO submitted ${actions.length} structured action${actions.length === 1 ? '' : 's'} without a declaration.`
+      },
+      penalties: { nonsense_penalty: 0 },
+      policy: { oob: false, violations: [] },
+      rationale: 'Action-only turn; levers and financing come from the validated actions.',
+      levers: {},
+      scheduled: []
+    }
+  }
+
   /**
    * Rule-based evaluation fallback
    */
@@ -239,7 +303,10 @@ Respond ONLY with JSON conforming to the schema. No prose.`
         oob: isOob,
         violations: isOob ? ['External financial commitments or crisis invention detected'] : []
       },
-      rationale
+      rationale,
+      // Only coherent, in-bounds commitments move levers or get a lagged payoff
+      levers: isOob || isNonsense ? {} : extractLevers(declaration),
+      scheduled: isOob || isNonsense ? [] : detectLaggedActions(declaration)
     }
 
     return Promise.resolve(result)
@@ -462,13 +529,13 @@ Respond ONLY with JSON conforming to the schema. No prose.`
       case 'labor_unrest':
         return `${severity}-severity labor tensions; ${statePacket.flags.labor_tense ? 'compounds current strain' : 'introduces workforce concerns'}.`
       case 'demand_spike':
-        return `${severity}-severity demand surge; ${statePacket.backlog > 1200 ? 'strains already elevated backlog' : 'creates growth opportunity'}.`
+        return `${severity}-severity demand surge; ${statePacket.backlog > 8000 ? 'strains already elevated backlog' : 'creates growth opportunity'}.`
       case 'reg_probe':
         return `${severity}-severity regulatory inquiry; ${statePacket.event.tier === 'critical' ? 'adds to critical event pressure' : 'increases compliance scrutiny'}.`
       case 'fx_move':
         return `${severity}-severity currency volatility; impacts international operations and pricing.`
       case 'credit_tightening':
-        return `${severity}-severity credit constraints; ${statePacket.cash_runway < 12 ? 'pressures already tight liquidity' : 'reduces financial flexibility'}.`
+        return `${severity}-severity credit constraints; ${statePacket.cash_runway < RUNWAY_WARNING_MONTHS ? 'pressures already tight liquidity' : 'reduces financial flexibility'}.`
       default:
         return 'Market conditions remain stable with minimal external pressure.'
     }
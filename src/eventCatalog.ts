@@ -0,0 +1,106 @@
+import defaultCatalog from './rules/eventCatalog.json'
+import { EventCatalog, EventCatalogEntry, EventCatalogSchema, EventCategory, EventEffects, State } from './contracts'
+import { RandomStream } from './rng'
+import { parsePeriod } from './calendar'
+
+/**
+ * Event catalog.
+ * Shocks and rewards are data: each entry fills a slot (kind, category, tier) with effects, pressure
+ * bumps, decay, prerequisites on the opening state and a weight. Once the engine has rolled a slot,
+ * drawCatalogEvent picks among the slot's eligible entries by weight; when none is eligible it steps
+ * down a tier, ending at the unconditional tier-0 entry every category must have. Entries marked
+ * `follow_up_only` are never drawn this way; they fire through event chains (eventChains.ts). The
+ * default catalog is rules/eventCatalog.json.
+ */
+
+export interface EventSlot {
+  kind: EventCatalogEntry['kind']
+  category: EventCategory
+  tier: number
+}
+
+/**
+ * Validate a catalog; throws a ZodError naming the offending entries
+ */
+export function parseEventCatalog(data: unknown): EventCatalog {
+  return EventCatalogSchema.parse(data)
+}
+
+export const DEFAULT_EVENT_CATALOG: EventCatalog = parseEventCatalog(defaultCatalog)
+
+/**
+ * Event money is quoted in $M. revenue_delta, cogs_delta and opex_delta are annual run-rates,
+ * applied every turn (decayed) while the event is active. cash_delta is quoted on the same annual
+ * scale but booked once, as one period of it, on the turn the event fires. credit_limit_delta is
+ * a one-off amount. Response costs are already dollars.
+ */
+export const EVENT_DOLLARS_PER_M = 1_000_000
+
+/**
+ * Dollars a run-rate $M effect adds to one period
+ */
+export function runRateDollars(millions: number, periodDays = 30): number {
+  return millions * EVENT_DOLLARS_PER_M / 12 * (periodDays / 30)
+}
+
+/**
+ * Dollars of a one-off cash_delta: one period of the annual $M figure the catalog quotes
+ */
+export function eventCashDollars(millions: number, periodDays = 30): number {
+  return runRateDollars(millions, periodDays)
+}
+
+/**
+ * Dollars of a one-off $M effect
+ */
+export function oneOffDollars(millions: number): number {
+  return millions * EVENT_DOLLARS_PER_M
+}
+
+/**
+ * Whether the opening state meets every prerequisite of an entry
+ */
+export function isEligible(entry: EventCatalogEntry, state: State): boolean {
+  const p = entry.prerequisites
+  if (p.min_turn !== undefined && state.turn_no < p.min_turn) return false
+  if (p.seasons && !p.seasons.includes(parsePeriod(state.period).season)) return false
+  if (p.min_pressure !== undefined && state.flags[entry.category] < p.min_pressure) return false
+  if (p.max_morale !== undefined && state.morale > p.max_morale) return false
+  if (p.min_backlog !== undefined && state.backlog < p.min_backlog) return false
+  return true
+}
+
+/**
+ * Weighted draw among the eligible entries of a slot, stepping down a tier when there are none
+ */
+export function drawCatalogEvent(catalog: EventCatalog, slot: EventSlot, state: State, stream: RandomStream): EventCatalogEntry {
+  for (let tier = slot.tier; tier >= 0; tier--) {
+    const eligible = catalog.filter(e => e.kind === slot.kind && e.category === slot.category && e.tier === tier && !e.follow_up_only && isEligible(e, state))
+    if (eligible.length === 0) continue
+    let pick = stream.next() * eligible.reduce((sum, e) => sum + e.weight, 0)
+    for (const entry of eligible) {
+      pick -= entry.weight
+      if (pick < 0) return entry
+    }
+    return eligible[eligible.length - 1]
+  }
+  throw new Error(`Event catalog has no tier-0 ${slot.kind} for ${slot.category}`)
+}
+
+/**
+ * An entry's effects with every channel present
+ */
+export function catalogEffects(entry: EventCatalogEntry): EventEffects {
+  return {
+    revenue_delta: 0,
+    cogs_delta: 0,
+    opex_delta: 0,
+    cash_delta: 0,
+    share_delta: 0,
+    nps_delta: 0,
+    morale_delta: 0,
+    backlog_delta: 0,
+    notes: '',
+    ...entry.effects
+  }
+}
@@ -0,0 +1,97 @@
+import { EventCatalog, EventCatalogEntry, EventFollowUp, OpenChain, RngEvent, RngState, State } from './contracts'
+import { rngStream } from './rng'
+import { isEligible } from './eventCatalog'
+import { PressureCategory } from './pressures'
+
+/**
+ * Event chains.
+ * A shock with follow-ups opens a chain when it fires. Each later turn the chain ages, and the
+ * declaration either addresses its category (a response) or ignores it. Before the rolls, the first
+ * open chain with an eligible follow-up whose conditions hold and whose chance comes up escalates: the
+ * follow-up becomes the turn's shock and the chain closes (the follow-up may open a chain of its
+ * own). CHAIN_RESOLVE_RESPONSES responses resolve a chain; one open CHAIN_EXPIRY_TURNS turns lapses.
+ */
+
+export const CHAIN_RESOLVE_RESPONSES = 2
+export const CHAIN_EXPIRY_TURNS = 6
+
+export interface Escalation {
+  chain: OpenChain
+  entry: EventCatalogEntry
+}
+
+export interface ChainUpdate {
+  open_chains: OpenChain[]
+  opened: OpenChain[]
+  escalated: OpenChain[]
+  resolved: OpenChain[]
+  lapsed: OpenChain[]
+}
+
+/**
+ * Whether a follow-up's conditions hold for an open chain
+ */
+export function followUpDue(chain: OpenChain, followUp: EventFollowUp, state: State): boolean {
+  if (chain.turns_open < followUp.after_turns) return false
+  if (followUp.min_pressure !== undefined && state.flags[chain.category] < followUp.min_pressure) return false
+  if (followUp.if_ignored && !chain.ignored) return false
+  return true
+}
+
+/**
+ * The follow-up that escalates an open chain this turn, if any; each chance is drawn from its own stream
+ */
+export function escalation(state: State, catalog: EventCatalog, rng: RngState): Escalation | null {
+  for (const chain of state.open_chains ?? []) {
+    const origin = catalog.find(e => e.id === chain.id)
+    for (const followUp of origin?.follow_ups ?? []) {
+      if (!followUpDue(chain, followUp, state)) continue
+      if (rngStream(rng, `chain:${chain.id}:${followUp.event}`).next() >= followUp.chance) continue
+      const entry = catalog.find(e => e.id === followUp.event)
+      if (entry && isEligible(entry, state)) return { chain, entry }
+    }
+  }
+  return null
+}
+
+/**
+ * Age the open chains against this turn's declaration and shock, and open one for a shock with follow-ups
+ */
+export function advanceChains(state: State, rngEvent: RngEvent | undefined, addressed: PressureCategory[], catalog: EventCatalog): ChainUpdate {
+  const update: ChainUpdate = { open_chains: [], opened: [], escalated: [], resolved: [], lapsed: [] }
+
+  for (const chain of state.open_chains ?? []) {
+    if (rngEvent?.chain_from === chain.id) {
+      update.escalated.push(chain)
+      continue
+    }
+    const responded = addressed.includes(chain.category)
+    const aged: OpenChain = {
+      ...chain,
+      turns_open: chain.turns_open + 1,
+      responses: chain.responses + (responded ? 1 : 0),
+      ignored: !responded
+    }
+    if (aged.responses >= CHAIN_RESOLVE_RESPONSES) update.resolved.push(aged)
+    else if (aged.turns_open >= CHAIN_EXPIRY_TURNS) update.lapsed.push(aged)
+    else update.open_chains.push(aged)
+  }
+
+  // The declaration was written before the shock fired, so a new chain starts with no response
+  const entry = rngEvent?.catalog_id ? catalog.find(e => e.id === rngEvent.catalog_id) : undefined
+  if (entry && entry.follow_ups.length > 0 && !update.open_chains.some(c => c.id === entry.id)) {
+    const chain: OpenChain = {
+      id: entry.id,
+      name: entry.name,
+      category: entry.category,
+      opened_turn: state.turn_no + 1,
+      turns_open: 0,
+      responses: 0,
+      ignored: false,
+      risks: entry.follow_ups.map(f => catalog.find(e => e.id === f.event)?.name ?? f.event)
+    }
+    update.open_chains.push(chain)
+    update.opened.push(chain)
+  }
+  return update
+}
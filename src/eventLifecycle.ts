@@ -0,0 +1,144 @@
+import { State, RngEvent, ActiveEvent, EventEffects } from './contracts'
+
+/**
+ * Active shock/reward lifecycle.
+ * A fired shock or reward joins the active list at full intensity. On every later turn its
+ * intensity decays by the state's configured rate (shock_decay / reward_decay; 'fast' events
+ * decay FAST_DECAY_MULTIPLIER times quicker) and the decayed effects are applied again until
+ * the intensity drops below ACTIVE_EVENT_EXPIRY. cash_delta is a one-off and is never re-applied.
+ */
+
+export const ACTIVE_EVENT_EXPIRY = 0.5
+export const FAST_DECAY_MULTIPLIER = 3
+
+const DEFAULT_SHOCK_DECAY = 0.10
+const DEFAULT_REWARD_DECAY = 0.50
+
+export interface EventLifecycleResult {
+  active_shocks: ActiveEvent[]
+  active_rewards: ActiveEvent[]
+  expired: string[]
+  // Effects the active set contributes to this turn (the firing shock itself is excluded;
+  // its impact reaches the engine through the evaluator's impact channels)
+  applied_effects: EventEffects
+  // The same effects per event, so the engine can aim them at the product lines an event names
+  contributions: { name: string; effects: EventEffects }[]
+}
+
+export function zeroEffects(): EventEffects {
+  return {
+    revenue_delta: 0,
+    cogs_delta: 0,
+    opex_delta: 0,
+    cash_delta: 0,
+    share_delta: 0,
+    nps_delta: 0,
+    morale_delta: 0,
+    backlog_delta: 0,
+    notes: ""
+  }
+}
+
+export function scaleEffects(effects: EventEffects, factor: number): EventEffects {
+  return {
+    revenue_delta: effects.revenue_delta * factor,
+    cogs_delta: effects.cogs_delta * factor,
+    opex_delta: effects.opex_delta * factor,
+    cash_delta: effects.cash_delta * factor,
+    share_delta: effects.share_delta * factor,
+    nps_delta: effects.nps_delta * factor,
+    morale_delta: effects.morale_delta * factor,
+    backlog_delta: effects.backlog_delta * factor,
+    notes: effects.notes
+  }
+}
+
+export function addEffects(a: EventEffects, b: EventEffects): EventEffects {
+  return {
+    revenue_delta: a.revenue_delta + b.revenue_delta,
+    cogs_delta: a.cogs_delta + b.cogs_delta,
+    opex_delta: a.opex_delta + b.opex_delta,
+    cash_delta: a.cash_delta + b.cash_delta,
+    share_delta: a.share_delta + b.share_delta,
+    nps_delta: a.nps_delta + b.nps_delta,
+    morale_delta: a.morale_delta + b.morale_delta,
+    backlog_delta: a.backlog_delta + b.backlog_delta,
+    notes: [a.notes, b.notes].filter(Boolean).join(' ')
+  }
+}
+
+/**
+ * Per-turn decay rate for an active event
+ */
+export function decayRate(event: ActiveEvent, baseRate: number): number {
+  const rate = event.decay === 'fast' ? baseRate * FAST_DECAY_MULTIPLIER : baseRate
+  return Math.min(1, Math.max(0, rate))
+}
+
+/**
+ * Age the active shocks/rewards by one turn, then activate the events fired this turn.
+ * Deterministic: depends only on the state and the RNG event.
+ */
+export function advanceActiveEvents(state: State, rngEvent: RngEvent | undefined, turnNo: number): EventLifecycleResult {
+  const expired: string[] = []
+  let applied = zeroEffects()
+  const contributions: { name: string; effects: EventEffects }[] = []
+
+  const age = (events: ActiveEvent[], baseRate: number): ActiveEvent[] => {
+    const kept: ActiveEvent[] = []
+    for (const event of events) {
+      const intensity = event.intensity * (1 - decayRate(event, baseRate))
+      if (intensity < ACTIVE_EVENT_EXPIRY) {
+        expired.push(event.name)
+        continue
+      }
+      const scaled = { ...scaleEffects(event.effects, intensity), cash_delta: 0 }
+      applied = addEffects(applied, scaled)
+      contributions.push({ name: event.name, effects: scaled })
+      kept.push({ ...event, intensity })
+    }
+    return kept
+  }
+
+  const activeShocks = age(state.active_shocks ?? [], state.shock_decay ?? DEFAULT_SHOCK_DECAY)
+  const activeRewards = age(state.active_rewards ?? [], state.reward_decay ?? DEFAULT_REWARD_DECAY)
+
+  // Tier 0 events are flavour only and never become active
+  const shockTier = parseInt(rngEvent?.tier ?? '0')
+  if (rngEvent?.effects && rngEvent.name && shockTier > 0) {
+    activeShocks.push({
+      category: rngEvent.event_type,
+      tier: shockTier,
+      name: rngEvent.name,
+      effects: { ...rngEvent.effects },
+      decay: rngEvent.decay ?? 'fast',
+      intensity: 1,
+      started_turn: turnNo
+    })
+  }
+
+  const reward = rngEvent?.reward
+  const rewardTier = parseInt(reward?.tier ?? '0')
+  if (reward && rewardTier > 0) {
+    activeRewards.push({
+      category: reward.event_type,
+      tier: rewardTier,
+      name: reward.name,
+      effects: { ...reward.effects },
+      decay: reward.decay,
+      intensity: 1,
+      started_turn: turnNo
+    })
+    // Rewards have no evaluator channel, so they land in full on the turn they fire
+    applied = addEffects(applied, reward.effects)
+    contributions.push({ name: reward.name, effects: reward.effects })
+  }
+
+  return {
+    active_shocks: activeShocks,
+    active_rewards: activeRewards,
+    expired,
+    applied_effects: applied,
+    contributions
+  }
+}
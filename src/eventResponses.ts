@@ -0,0 +1,78 @@
+import { ActiveEvent, EventCatalog, EventEffects, EventResponseOption, EventResponseResult, PendingResponse, RngEvent, State } from './contracts'
+import { zeroEffects } from './eventLifecycle'
+
+/**
+ * Event responses.
+ * A tier-2/3 shock with `responses` in the catalog waits for an answer: the turn after it fires
+ * may name one option (TurnRequest.responseId). The chosen option books its one-off cost, removes
+ * its mitigation share of the shock's remaining intensity before the shock decays again, and
+ * applies its effects once. Any turn closes the choice, answered or not, so responses never pile up.
+ */
+
+export interface ResponseResolution {
+  result?: EventResponseResult    // absent when nothing was pending and no option was named
+  option?: EventResponseOption    // the applied option
+  effects: EventEffects           // the option's effects with every channel present
+  active_shocks: ActiveEvent[]    // the opening active shocks after mitigation
+}
+
+/**
+ * The choice a shock leaves for the next turn, if its catalog entry has responses
+ */
+export function pendingResponseFor(rngEvent: RngEvent | undefined, catalog: EventCatalog, firedTurn: number): PendingResponse | undefined {
+  const entry = rngEvent?.catalog_id ? catalog.find(e => e.id === rngEvent.catalog_id) : undefined
+  if (!entry || entry.responses.length === 0) return undefined
+  return { event_id: entry.id, name: entry.name, fired_turn: firedTurn, options: entry.responses }
+}
+
+/**
+ * Why a response id cannot be applied to the state, or null when it can
+ */
+export function responseError(state: State, responseId: string): string | null {
+  const pending = state.pending_response
+  if (!pending) return 'No event is awaiting a response'
+  if (!pending.options.some(o => o.id === responseId)) {
+    return `Unknown response "${responseId}" for ${pending.name}; choose ${pending.options.map(o => o.id).join(', ')}`
+  }
+  return null
+}
+
+/**
+ * Answer the pending response, if any, and mitigate the shock it belongs to
+ */
+export function resolveEventResponse(state: State, responseId: string | undefined): ResponseResolution {
+  const activeShocks = state.active_shocks ?? []
+  const pending = state.pending_response
+  const none: ResponseResolution = { effects: zeroEffects(), active_shocks: activeShocks }
+
+  if (responseId === undefined) {
+    if (!pending) return none
+    return { ...none, result: { event_id: pending.event_id, name: pending.name, status: 'unanswered', cost: 0, mitigation: 0 } }
+  }
+
+  const error = responseError(state, responseId)
+  if (error) {
+    return {
+      ...none,
+      result: { event_id: pending?.event_id ?? '', name: pending?.name ?? '', status: 'rejected', option_id: responseId, cost: 0, mitigation: 0, reason: error }
+    }
+  }
+
+  const option = pending!.options.find(o => o.id === responseId)!
+  return {
+    result: {
+      event_id: pending!.event_id,
+      name: pending!.name,
+      status: 'applied',
+      option_id: option.id,
+      label: option.label,
+      cost: option.cost,
+      mitigation: option.mitigation
+    },
+    option,
+    effects: { ...zeroEffects(), ...option.effects },
+    active_shocks: activeShocks.map(shock => shock.name === pending!.name && shock.started_turn === pending!.fired_turn
+      ? { ...shock, intensity: shock.intensity * (1 - option.mitigation) }
+      : shock)
+  }
+}
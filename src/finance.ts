@@ -1,4 +1,21 @@
-import { FinanceInput, FinancialSnapshot, FinancialDrivers, FinancialParams, MiniBalanceSheet } from "./contracts";
+import { FinanceInput, FinancialSnapshot, FinancialDrivers, FinancialParams, MiniBalanceSheet, EventFinanceAdjustments, ProductLineDrivers, ProductLineResult } from "./contracts";
+import { laborSplit } from "./workforce";
+
+// Borrowing cost: a base rate plus spreads for leverage (debt/equity) and finance pressure
+export const BASE_INTEREST_RATE = 0.08;
+export const LEVERAGE_SPREAD = 0.04;          // per 1.0 of debt/equity, up to MAX_PRICED_LEVERAGE
+export const FINANCE_PRESSURE_SPREAD = 0.05;  // at finance pressure 1.0
+export const MAX_PRICED_LEVERAGE = 2;
+
+/**
+ * Annual interest rate for a balance sheet; negative equity is priced at the maximum leverage
+ */
+export function borrowingRate(balance: MiniBalanceSheet, financePressure = 0): number {
+  const equity = balance.retained_earnings + balance.other_equity;
+  const leverage = equity > 0 ? Math.min(MAX_PRICED_LEVERAGE, balance.debt / equity) : MAX_PRICED_LEVERAGE;
+  const pressure = Math.min(1, Math.max(0, financePressure));
+  return BASE_INTEREST_RATE + LEVERAGE_SPREAD * leverage + FINANCE_PRESSURE_SPREAD * pressure;
+}
 /**
  * Deterministic mini-financials. No randomness here; engine provides all inputs.
  * Identities enforced:
@@ -6,74 +23,147 @@ import { FinanceInput, FinancialSnapshot, FinancialDrivers, FinancialParams, Min
  *  - cash_close == cash_open + CFO + CFI + CFF
  */
 export function computeFinancials(input: FinanceInput): FinancialSnapshot {
-  const { prev_balance, drivers, params, policy, direct_cash_spending = 0 } = input;
+  const { prev_balance, drivers, params, policy, financing, credit_limit = Infinity, direct_cash_spending, event_adjustments } = input;
   const notes: string[] = [];
   const cash_open = prev_balance.cash;
+  const ev = event_adjustments ?? { revenue: 0, cogs: 0, opex: 0, cash: 0 };
+  // Declared one-off spending: OpEx is expensed, capex capitalised, a capital return distributed
+  const direct = direct_cash_spending ?? { opex: 0, capex: 0, capital_return: 0 };
+  // Payroll on top of materials (unit_cost) and non-payroll OpEx (opex_base)
+  const labor = drivers.labor ? laborSplit(drivers.labor) : { cogs: 0, opex: 0 };
   // --- P&L ---
-  const revenue = drivers.units_sold * drivers.avg_price;
-  const cogs_core = drivers.units_sold * drivers.unit_cost;
-  const cogs_scrap = cogs_core * (params.scrap_rate ?? 0);
-  const cogs = cogs_core + cogs_scrap;
-  
+  // With product lines, revenue and COGS roll up from the per-line breakdown
+  const lines = drivers.lines ? lineBreakdown(drivers.lines, ev, params.scrap_rate ?? 0, labor.cogs) : undefined;
+  let revenue: number;
+  let cogs: number;
+  if (lines) {
+    revenue = lines.reduce((sum, line) => sum + line.revenue, 0);
+    cogs = lines.reduce((sum, line) => sum + line.cogs, 0);
+  } else {
+    revenue = Math.max(0, drivers.units_sold * drivers.avg_price + ev.revenue);
+    const cogs_core = drivers.units_sold * drivers.unit_cost;
+    const cogs_scrap = cogs_core * (params.scrap_rate ?? 0);
+    cogs = Math.max(0, cogs_core + cogs_scrap + ev.cogs + labor.cogs);
+  }
+
   if ((params.scrap_rate ?? 0) > 0) {
     notes.push(`Applied scrap/returns factor ${(params.scrap_rate ?? 0).toFixed(3)} to COGS.`);
   }
+  if (ev.revenue !== 0 || ev.cogs !== 0 || ev.opex !== 0) {
+    notes.push("Applied event revenue/COGS/OpEx adjustments.");
+  }
   const gross_profit = revenue - cogs;
-  const opex = drivers.opex_base;
+  const opex = Math.max(0, drivers.opex_base + ev.opex + labor.opex) + direct.opex;
+  if (direct.opex !== 0) {
+    notes.push("Expensed declared one-off spending in OpEx.");
+  }
   const ebitda = gross_profit - opex;
   // Straight-line depreciation from PP&E
   const dep_life_years = Math.max(1, params.depreciation_life_years);
   const depreciation = prev_balance.ppe / dep_life_years / 12 * (params.period_days / 30); // simple proportional
   const ebit = ebitda - depreciation;
-  const interest = prev_balance.debt * 0.0; // interest modeling deferred (kept zero for now)
-  const taxes = Math.max(0, ebit - interest) * 0.0; // tax modeling deferred (kept zero for now)
-  const net_income = ebit - interest - taxes;
+  // One-off event cash items sit below EBIT so they never read as operating profit
+  const non_operating = ev.cash;
+  if (non_operating !== 0) {
+    notes.push("Booked one-off event cash items as non-operating.");
+  }
+  // Interest on opening debt, pro-rated from the annual rate
+  const interest = prev_balance.debt * (params.interest_rate ?? 0) / 12 * (params.period_days / 30);
+  const ebt = ebit + non_operating - interest;
+  // Losses carry forward and shelter later profits before tax is charged
+  const loss_cf_open = prev_balance.tax_loss_carryforward ?? 0;
+  const loss_used = ebt > 0 ? Math.min(loss_cf_open, ebt) : 0;
+  const taxes = (ebt - loss_used) > 0 ? (ebt - loss_used) * (params.tax_rate ?? 0) : 0;
+  const tax_loss_carryforward = loss_cf_open - loss_used + Math.max(0, -ebt);
+  if (loss_used > 0) {
+    notes.push("Used tax loss carryforward against pre-tax profit.");
+  }
+  const net_income = ebt - taxes;
   // --- Working capital (end-of-period balances) ---
   const period = Math.max(1, params.period_days);
   const ar = revenue * (drivers.dso / period);
   const inventory = cogs * (drivers.dio / period);
-  const ap = cogs * (drivers.dpo / period);
+  let ap = cogs * (drivers.dpo / period);
   // Deltas vs. prior balances for indirect cash flow
   const dAR = ar - prev_balance.ar;
   const dInv = inventory - prev_balance.inventory;
   const dAP = ap - prev_balance.ap;
   const deltaNWC = dAR + dInv - dAP;
   // --- Capex & PP&E ---
-  const capex = drivers.capex_base;
+  const capex = drivers.capex_base + direct.capex;
+  if (direct.capex !== 0) {
+    notes.push("Capitalised declared one-off spending into PP&E.");
+  }
   const ppe = Math.max(0, prev_balance.ppe + capex - depreciation);
   // --- Cash Flow (indirect) ---
-  const cfo = net_income + depreciation - deltaNWC;
+  let cfo = net_income + depreciation - deltaNWC;
   const cfi = -capex; // no asset sales yet
-  const direct_cash_flow = -direct_cash_spending; // Direct cash spending (negative cash flow)
+  // Explicit financing actions (validated by the engine against credit headroom and cash)
+  const fin = financing ?? { draw: 0, repay: 0, dividend: 0 };
+  const buyback = fin.buyback ?? 0;
+  if (fin.draw !== 0 || fin.repay !== 0 || fin.dividend !== 0) {
+    notes.push("Applied financing actions (debt draw/repayment, dividend).");
+  }
+  if (buyback !== 0) {
+    notes.push("Repurchased shares at cost against other equity.");
+  }
+  if (direct.capital_return !== 0) {
+    notes.push("Distributed declared capital return from retained earnings.");
+  }
   // Financing policy (deterministic buffer)
-  let cff = 0;
-  let debt = prev_balance.debt;
-  let retained_earnings = prev_balance.retained_earnings + net_income;
-  const other_equity = prev_balance.other_equity;
+  let cff = fin.draw - fin.repay - fin.dividend - buyback - direct.capital_return;
+  let debt = prev_balance.debt + fin.draw - fin.repay;
+  let retained_earnings = prev_balance.retained_earnings + net_income - fin.dividend - direct.capital_return;
+  const other_equity = prev_balance.other_equity - buyback;
   // Provisional cash close to decide financing
-  let cash_close_prov = cash_open + cfo + cfi + cff + direct_cash_flow;
+  let cash_close_prov = cash_open + cfo + cfi + cff;
   if (cash_close_prov < params.min_cash_buffer) {
+    // Draw on the revolver to restore the buffer, but never beyond its limit
     const needed = params.min_cash_buffer - cash_close_prov;
-    debt += needed;
-    cff += needed; // debt draw
-    cash_close_prov += needed;
-    notes.push("Debt draw to maintain minimum cash buffer.");
-  } else if (policy?.dividend && retained_earnings > 0 && cash_close_prov > params.min_cash_buffer) {
-    const div = Math.min(retained_earnings, (cash_close_prov - params.min_cash_buffer) * 0.25);
-    if (div > 0) {
-      retained_earnings -= div;
-      cff -= div;
-      cash_close_prov -= div;
-      notes.push("Dividend paid from retained earnings.");
+    const draw = Math.min(needed, Math.max(0, credit_limit - debt));
+    if (draw > 0) {
+      debt += draw;
+      cff += draw; // debt draw
+      cash_close_prov += draw;
+      notes.push("Debt draw to maintain minimum cash buffer.");
+    }
+    if (draw < needed) {
+      notes.push("Revolver limit reached; cash buffer not restored.");
+    }
+    if (cash_close_prov < 0) {
+      // Out of cash and credit: the shortfall is left unpaid with suppliers
+      const shortfall = -cash_close_prov;
+      ap += shortfall;
+      cfo += shortfall;
+      cash_close_prov = 0;
+      notes.push("Cash exhausted; shortfall left in payables.");
+    }
+  } else {
+    if (policy?.repay_debt && debt > 0 && cash_close_prov > params.min_cash_buffer) {
+      const repay = Math.min(debt, cash_close_prov - params.min_cash_buffer);
+      debt -= repay;
+      cff -= repay;
+      cash_close_prov -= repay;
+      notes.push("Repaid debt from cash above the buffer.");
+    }
+    if (policy?.dividend && retained_earnings > 0 && cash_close_prov > params.min_cash_buffer) {
+      const div = Math.min(retained_earnings, (cash_close_prov - params.min_cash_buffer) * 0.25);
+      if (div > 0) {
+        retained_earnings -= div;
+        cff -= div;
+        cash_close_prov -= div;
+        notes.push("Dividend paid from retained earnings.");
+      }
     }
   }
-  const cash_close = cash_open + cfo + cfi + cff + direct_cash_flow;
+  const cash_close = cash_open + cfo + cfi + cff;
   // --- Build balance sheet end-of-period ---
   const cash = Math.max(0, cash_close);
   const balance: MiniBalanceSheet = {
     cash, ar, inventory, ppe,
     ap, debt,
-    retained_earnings, other_equity
+    retained_earnings, other_equity,
+    tax_loss_carryforward
   };
   // --- Identities & checks ---
   const assets = cash + ar + inventory + ppe;
@@ -90,12 +180,34 @@ export function computeFinancials(input: FinanceInput): FinancialSnapshot {
   if (!cash_recon_ok) notes.push("Cash reconciliation drifted; review CFO/CFI/CFF.");
   return {
     cash_open,
-    pnl: { revenue, cogs, gross_profit, opex, ebitda, depreciation, ebit, interest, taxes, net_income },
+    pnl: { revenue, cogs, gross_profit, opex, ebitda, depreciation, ebit, non_operating, interest, taxes, net_income },
     cashflow: { cfo, cfi, cff },
     balance,
+    ...(lines ? { lines } : {}),
+    ...(drivers.labor ? { labor: drivers.labor } : {}),
+    ...(direct_cash_spending ? { direct_spending: direct_cash_spending } : {}),
     cash_close: cash,
     balance_ok,
     cash_recon_ok,
     notes
   };
 }
+
+/**
+ * Per-line revenue and COGS: event dollars aimed at a line land on it; the rest, and direct labor,
+ * is spread pro rata
+ */
+function lineBreakdown(lines: ProductLineDrivers[], ev: EventFinanceAdjustments, scrapRate: number, laborCogs: number): ProductLineResult[] {
+  const base = lines.map(line => ({ revenue: line.units * line.price, cogs: line.units * line.unit_cost }));
+  const baseRevenue = base.reduce((sum, b) => sum + b.revenue, 0);
+  const baseCogs = base.reduce((sum, b) => sum + b.cogs, 0);
+  const targeted = lines.map(line => ev.lines?.[line.id] ?? { revenue: 0, cogs: 0 });
+  const spreadRevenue = ev.revenue - targeted.reduce((sum, t) => sum + t.revenue, 0);
+  const spreadCogs = ev.cogs + laborCogs - targeted.reduce((sum, t) => sum + t.cogs, 0);
+
+  return lines.map((line, i) => {
+    const revenue = Math.max(0, base[i].revenue + targeted[i].revenue + (baseRevenue > 0 ? spreadRevenue * base[i].revenue / baseRevenue : 0));
+    const cogs = Math.max(0, base[i].cogs * (1 + scrapRate) + targeted[i].cogs + (baseCogs > 0 ? spreadCogs * base[i].cogs / baseCogs : 0));
+    return { ...line, revenue, cogs, gross_profit: revenue - cogs };
+  });
+}
@@ -0,0 +1,146 @@
+import { Levers, FinancialDrivers } from './contracts'
+import { LEVER_PATTERNS, DOWN_VERB_SET, NEGATORS, LeverKey } from './rules/leverPatterns'
+
+/**
+ * Declared levers.
+ * Quantities in a declaration ("Cut OpEx by 10%", "+15 days DPO", "price +12%") become a typed Levers
+ * object. Levers stay in force once declared: each turn's declared levers add to the standing set in
+ * `State.levers`, which is kept within LEVER_BOUNDS and applied to the baseline drivers. Capex,
+ * dividends, buybacks and promotional discounts are one-offs in the declaring turn; negated
+ * quantities ("we will not cut prices by 10%") are not levers; hires and layoffs go to the workforce
+ * model and shift changes to the capacity model.
+ */
+
+// Limits for a declared lever and for the standing total
+export const LEVER_BOUNDS: Record<LeverKey, { min: number; max: number }> = {
+  opex_pct: { min: -30, max: 30 },
+  price_pct: { min: -25, max: 25 },
+  promo_pct: { min: -25, max: 0 },
+  cogs_pct: { min: -15, max: 15 },
+  dpo_days: { min: -30, max: 30 },
+  dso_days: { min: -30, max: 30 },
+  safety_stock_pct: { min: -50, max: 50 },
+  headcount: { min: -50, max: 50 },
+  capex: { min: 0, max: 2_000_000 },
+  dividend: { min: 0, max: 5_000_000 },
+  buyback_pct: { min: 0, max: 10 },
+  shifts: { min: -2, max: 2 },
+  shift_weeks: { min: 0, max: 52 }
+}
+
+// Levers spent in the declaring turn rather than carried in the standing set
+// (heads are carried by the workforce model, shifts by the capacity model)
+export const ONE_OFF_LEVERS: LeverKey[] = ['capex', 'promo_pct', 'dividend', 'buyback_pct', 'headcount', 'shifts', 'shift_weeks']
+
+export const PRICE_ELASTICITY = 1.5 // % units lost per % price raised
+
+const LEVER_KEYS = Object.keys(LEVER_BOUNDS) as LeverKey[]
+const SCALES: Record<string, number> = { k: 1_000, m: 1_000_000 }
+
+const clamp = (x: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, x))
+
+/**
+ * Levers a declaration states, from LEVER_PATTERNS
+ */
+export function extractLevers(declaration: string): Levers {
+  const lowerDecl = declaration.toLowerCase()
+  const levers: Levers = {}
+
+  for (const { lever, pattern, sign } of LEVER_PATTERNS) {
+    if (levers[lever] !== undefined) continue
+    const match = firstAffirmed(lowerDecl, pattern)
+    if (!match) continue
+
+    const groups: Record<string, string | undefined> = match.groups ?? {}
+    const raw = groups.value ?? '1'
+    const magnitude = Math.abs(parseFloat(raw)) * (groups.scale ? SCALES[groups.scale] : 1)
+    let direction = sign ?? 1
+    if (raw.startsWith('-')) direction = -1
+    else if (raw.startsWith('+')) direction = 1
+    else if (groups.verb) direction = DOWN_VERB_SET.includes(groups.verb) ? -1 : 1
+    levers[lever] = direction * magnitude
+  }
+
+  return clampLevers(levers)
+}
+
+/**
+ * First match of the pattern that no negator leads up to within its clause
+ */
+function firstAffirmed(text: string, pattern: RegExp): RegExpMatchArray | undefined {
+  for (const match of text.matchAll(new RegExp(pattern.source, 'g'))) {
+    const clause = text.slice(0, match.index).split(/[.;,!?]/).pop() ?? ''
+    if (!NEGATORS.test(clause)) return match
+  }
+  return undefined
+}
+
+/**
+ * Keep every lever within LEVER_BOUNDS
+ */
+export function clampLevers(levers: Levers): Levers {
+  const clamped: Levers = {}
+  for (const key of LEVER_KEYS) {
+    const value = levers[key]
+    if (value !== undefined) clamped[key] = clamp(value, LEVER_BOUNDS[key].min, LEVER_BOUNDS[key].max)
+  }
+  return clamped
+}
+
+/**
+ * Add this turn's declared levers to the standing set; one-off levers are not carried
+ */
+export function accumulateLevers(standing: Levers | undefined, declared: Levers): Levers {
+  const next: Levers = {}
+  for (const key of LEVER_KEYS) {
+    if (ONE_OFF_LEVERS.includes(key)) continue
+    const total = (standing?.[key] ?? 0) + (declared[key] ?? 0)
+    if (total !== 0) next[key] = total
+  }
+  return clampLevers(next)
+}
+
+/**
+ * Apply levers to the drivers in place and describe them, e.g. "OpEx -10%, DPO +15 days"
+ */
+export function applyLevers(drivers: FinancialDrivers, levers: Levers): string[] {
+  const parts: string[] = []
+  const signed = (x: number) => `${x < 0 ? '-' : '+'}${Math.abs(x)}`
+
+  if (levers.opex_pct) {
+    drivers.opex_base *= 1 + levers.opex_pct / 100
+    parts.push(`OpEx ${signed(levers.opex_pct)}%`)
+  }
+  if (levers.price_pct) {
+    drivers.avg_price *= 1 + levers.price_pct / 100
+    drivers.units_sold *= Math.max(0, 1 - PRICE_ELASTICITY * levers.price_pct / 100)
+    parts.push(`price ${signed(levers.price_pct)}%`)
+  }
+  if (levers.promo_pct) {
+    drivers.avg_price *= 1 + levers.promo_pct / 100
+    drivers.units_sold *= Math.max(0, 1 - PRICE_ELASTICITY * levers.promo_pct / 100)
+    parts.push(`promotion ${signed(levers.promo_pct)}% this turn`)
+  }
+  if (levers.cogs_pct) {
+    drivers.unit_cost *= 1 + levers.cogs_pct / 100
+    parts.push(`COGS ${signed(levers.cogs_pct)}%`)
+  }
+  if (levers.dpo_days) {
+    drivers.dpo += levers.dpo_days
+    parts.push(`DPO ${signed(levers.dpo_days)} days`)
+  }
+  if (levers.dso_days) {
+    drivers.dso += levers.dso_days
+    parts.push(`DSO ${signed(levers.dso_days)} days`)
+  }
+  if (levers.safety_stock_pct) {
+    drivers.dio *= 1 + levers.safety_stock_pct / 100
+    parts.push(`safety stock ${signed(levers.safety_stock_pct)}%`)
+  }
+  if (levers.capex) {
+    drivers.capex_base += levers.capex
+    parts.push(`capex +$${Math.round(levers.capex / 1000)}k`)
+  }
+
+  return parts
+}
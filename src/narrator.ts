@@ -1,5 +1,9 @@
 import OpenAI from 'openai'
 import { State, EvaluatorOutput, Caps, RngEvent } from './contracts'
+import { CANONICAL_KPIS } from './stateModel'
+import { describePeriod, parsePeriod } from './calendar'
+
+const fmt = (x: number) => `${Math.round(x * 10) / 10}`
 
 export class Narrator {
   private openai: OpenAI | null = null
@@ -27,9 +31,10 @@ export class Narrator {
     signals: EvaluatorOutput['signals'],
     integrated: EvaluatorOutput['integrated'],
     penalties: EvaluatorOutput['penalties'],
-    caps: Caps
+    caps: Caps,
+    templateOnly = false // action-only turns stay deterministic
   ): Promise<{ narrative: string; quotes: string[] }> {
-    if (this.hasApiKey && this.openai) {
+    if (this.hasApiKey && this.openai && !templateOnly) {
       return this.narrateWithLLM(stateBefore, stateAfter, rngEvent, assessment, signals, integrated, penalties, caps)
     } else {
       return this.narrateWithTemplate(stateBefore, stateAfter, rngEvent, assessment, signals, integrated, penalties, caps)
@@ -49,19 +54,16 @@ export class Narrator {
     penalties: EvaluatorOutput['penalties'],
     caps: Caps
   ): Promise<{ narrative: string; quotes: string[] }> {
-    const systemPrompt = `You are the Narrator. Given state_before, state_after, RNG event (roll, type, impact_channels), assessment, signals, integrated analysis, penalties, and caps, produce 120–160 words of tense, grounded narrative and 2–3 short quotes (CFO, Chair, Ops, HR). Never propose numbers; describe impacts qualitatively. Reference the RNG event explicitly and whether it aligned with or undermined the CEO's move. If a nonsense penalty applied, acknowledge a small reputational drag without numbers.`
+    const systemPrompt = `You are the Narrator. Given state_before, state_after, RNG event (roll, type, impact_channels), assessment, signals, integrated analysis, penalties, and caps, produce 120–160 words of tense, grounded narrative and 2–3 short quotes (CFO, Chair, Ops, HR). Never propose numbers; describe impacts qualitatively. Reference the RNG event explicitly and whether it aligned with or undermined the CEO's move. Mention any rival moves. If a nonsense penalty applied, acknowledge a small reputational drag without numbers.`
 
     const userPrompt = `Narrate this business turn:
 
+Period: ${describePeriod(stateBefore)}
+
 RNG Event: ${rngEvent.event_type} (Roll: ${rngEvent.roll}) - ${this.getEventDescription(rngEvent)}
 
 State Changes:
-- Morale: ${stateBefore.morale} → ${stateAfter.morale} (${this.getChangeDescription(stateBefore.morale, stateAfter.morale)})
-- Credibility: ${stateBefore.credibility} → ${stateAfter.credibility} (${this.getChangeDescription(stateBefore.credibility, stateAfter.credibility)})
-- Backlog: ${stateBefore.backlog} → ${stateAfter.backlog} (${this.getChangeDescription(stateBefore.backlog, stateAfter.backlog)})
-- Service: ${stateBefore.service} → ${stateAfter.service} (${this.getChangeDescription(stateBefore.service, stateAfter.service)})
-- Share: ${stateBefore.share} → ${stateAfter.share} (${this.getChangeDescription(stateBefore.share, stateAfter.share)})
-- Cash Runway: ${stateBefore.cash_runway} → ${stateAfter.cash_runway} months (${this.getChangeDescription(stateBefore.cash_runway, stateAfter.cash_runway)})
+${CANONICAL_KPIS.map(({ key, label, unit }) => `- ${label}: ${fmt(stateBefore[key])} → ${fmt(stateAfter[key])}${unit} (${this.getChangeDescription(stateBefore[key], stateAfter[key])})`).join('\n')}
 
 CEO Assessment: ${assessment.tone} tone, targeting ${assessment.targets.join(', ')}
 
@@ -73,6 +75,8 @@ Penalties: ${penalties.nonsense_penalty > 0 ? `Nonsense penalty applied (${penal
 
 Flags: ${Object.entries(stateAfter.flags).filter(([_, v]) => v).map(([k, _]) => k).join(', ') || 'none'}
 
+Rival Moves: ${stateAfter.market?.moves.join('; ') || 'none'}
+
 Return JSON:
 {
   "narrative": "120-160 word narrative...",
@@ -138,6 +142,20 @@ Return JSON:
       narrative += `maintained steady progress despite ${rngEvent.event_type} (roll ${rngEvent.roll}) creating mixed market conditions. `
     }
     
+    // Add seasonal context
+    const { season } = parsePeriod(stateBefore.period)
+    if (season === 'spring' || season === 'summer') {
+      narrative += `With the ${season} mowing season in full swing, every week of output counted. `
+    } else {
+      narrative += `In the quieter ${season} months, the focus shifted to preparing for next season. `
+    }
+    
+    // Add competitor context
+    const rivalMoves = stateAfter.market?.moves ?? []
+    if (rivalMoves.length > 0) {
+      narrative += `Rivals did not stand still: ${rivalMoves.join('; ')}. `
+    }
+    
     // Add penalty context if applicable
     if (penalties.nonsense_penalty > 0) {
       narrative += `The unclear communication created minor reputational friction. `
@@ -0,0 +1,112 @@
+import { State, TurnResult, OutcomeConfig, OutcomeReason, RunOutcome } from './contracts'
+import { RUNWAY_CAP_MONTHS } from './runway'
+import { creditFacility } from './credit'
+
+/**
+ * Run outcomes.
+ * After each resolved turn the run's history is checked against its OutcomeConfig: defeats first
+ * (insolvency, board ouster), then victories (share or trailing EBIT target), then the turn limit.
+ * The run ends on the first condition met and gets a final composite score.
+ */
+
+// Composite score weights (sum to 100)
+export const SCORE_WEIGHTS = {
+  credibility: 20,
+  morale: 15,
+  service: 15,
+  share: 25,   // against the share target
+  runway: 25   // against the profitable runway cap
+}
+
+// Added to the composite score for how the run ended
+export const OUTCOME_BONUS: Record<RunOutcome['result'], number> = {
+  victory: 25,
+  survived: 0,
+  defeat: -25
+}
+
+// Turns of EBIT summed against the EBIT target: a full year, so no single peak month wins
+export const EBIT_TARGET_TURNS = 12
+
+type Ending = Pick<RunOutcome, 'result' | 'reason' | 'message'>
+
+/**
+ * Insolvent when the facility in force has no headroom over the closing debt and cash is down to
+ * the floor
+ */
+export function isInsolvent(state: State, config: OutcomeConfig): boolean {
+  const balance = state.financials?.balance
+  if (!balance) return false
+  const headroom = creditFacility(state).limit - balance.debt
+  return headroom <= 0 && balance.cash <= config.insolvency_cash_floor
+}
+
+/**
+ * Composite 0-100 score from the closing KPIs, plus the outcome bonus (never below 0)
+ */
+export function compositeScore(state: State, config: OutcomeConfig, result: RunOutcome['result']): number {
+  const base =
+    SCORE_WEIGHTS.credibility * (state.credibility / 100) +
+    SCORE_WEIGHTS.morale * (state.morale / 100) +
+    SCORE_WEIGHTS.service * (state.service / 100) +
+    SCORE_WEIGHTS.share * Math.min(1, state.share / config.share_target) +
+    SCORE_WEIGHTS.runway * Math.min(1, state.cash_runway / RUNWAY_CAP_MONTHS)
+  return Math.max(0, Math.round((base + OUTCOME_BONUS[result]) * 10) / 10)
+}
+
+/**
+ * EBIT summed over the last EBIT_TARGET_TURNS turns
+ */
+export function trailingEbit(turns: TurnResult[]): number {
+  return turns.slice(-EBIT_TARGET_TURNS).reduce((sum, t) => sum + t.financials.pnl.ebit, 0)
+}
+
+/**
+ * First end condition the run's history meets, if any
+ */
+function endCondition(turns: TurnResult[], config: OutcomeConfig): Ending | undefined {
+  const latest = turns[turns.length - 1]
+  const state = latest.state_after
+  const ending = (result: RunOutcome['result'], reason: OutcomeReason, message: string): Ending => ({ result, reason, message })
+
+  if (isInsolvent(state, config)) {
+    return ending('defeat', 'insolvency', 'Cash and credit are exhausted; the company is insolvent.')
+  }
+
+  const recent = turns.slice(-config.credibility_floor_turns)
+  if (recent.length === config.credibility_floor_turns && recent.every(t => t.state_after.credibility < config.credibility_floor)) {
+    return ending('defeat', 'board_ouster',
+      `Credibility stayed below ${config.credibility_floor} for ${config.credibility_floor_turns} turns; the board has replaced the CEO.`)
+  }
+
+  if (state.share >= config.share_target) {
+    return ending('victory', 'share_target', `Market share reached the ${config.share_target}% target.`)
+  }
+
+  if (turns.length >= EBIT_TARGET_TURNS && trailingEbit(turns) >= config.ebit_target) {
+    return ending('victory', 'ebit_target',
+      `Trailing twelve-month EBIT reached the $${(config.ebit_target / 1_000_000).toFixed(1)}M target.`)
+  }
+
+  if (state.turn_no >= config.max_turns) {
+    return ending('survived', 'max_turns', `The ${config.max_turns}-turn term is complete.`)
+  }
+
+  return undefined
+}
+
+/**
+ * Evaluate the end conditions after a resolved turn; undefined while the run continues
+ */
+export function evaluateOutcome(turns: TurnResult[], config: OutcomeConfig): RunOutcome | undefined {
+  if (turns.length === 0) return undefined
+  const ending = endCondition(turns, config)
+  if (!ending) return undefined
+
+  const state = turns[turns.length - 1].state_after
+  return {
+    ...ending,
+    turn_no: state.turn_no,
+    score: compositeScore(state, config, ending.result)
+  }
+}
@@ -0,0 +1,130 @@
+import { State, Flags, RngEvent } from './contracts'
+import { PRESSURE_KEYWORDS } from './rules/pressureKeywords'
+
+/**
+ * Pressure dynamics for the 0-1 category pressures in State.flags and the tail_risk score.
+ * Each turn: pressures decay toward baseline, the shock bumps its category (flag_bump) and
+ * tail_risk (tail_risk_bump), and categories the declaration addresses are relieved.
+ * The legacy boolean flags are then derived from the pressure thresholds.
+ */
+
+export const PRESSURE_CATEGORIES = ['supply', 'labor', 'quality', 'competition', 'finance', 'regulation', 'tech', 'weather'] as const
+export type PressureCategory = typeof PRESSURE_CATEGORIES[number]
+
+// Resting level each pressure decays toward
+export const PRESSURE_BASELINE: Record<PressureCategory, number> = {
+  supply: 0.10,
+  labor: 0.05,
+  quality: 0.00,
+  competition: 0.10,
+  finance: 0.00,
+  regulation: 0.00,
+  tech: 0.05,
+  weather: 0.05
+}
+
+export const PRESSURE_DECAY = 0.15      // share of the gap to baseline closed each turn
+export const PRESSURE_RELIEF = 0.05     // reduction when a declaration addresses the category
+export const TAIL_RISK_BASELINE = 5
+export const TAIL_RISK_DECAY = 0.10
+
+// Pressure levels at which the legacy boolean flags switch on
+export const LEGACY_FLAG_THRESHOLDS = {
+  supply_fragile: 0.30,  // flags.supply
+  labor_tense: 0.30,     // flags.labor
+  quality_watch: 0.20,   // flags.quality
+  tail_risk: 25          // State.tail_risk (0-100)
+}
+
+// Legacy event types map onto the pressure category they stress
+const LEGACY_EVENT_CATEGORY: Record<string, PressureCategory> = {
+  supply_shock: 'supply',
+  labor_unrest: 'labor',
+  reg_probe: 'regulation',
+  credit_tightening: 'finance',
+  fx_move: 'finance'
+}
+
+export interface PressureUpdate {
+  flags: Flags
+  tail_risk: number
+  addressed: PressureCategory[]
+}
+
+const clamp01 = (x: number) => Math.min(1, Math.max(0, x))
+
+/**
+ * Pressure category an RNG event stresses, if any
+ */
+export function eventCategory(eventType: string): PressureCategory | undefined {
+  if ((PRESSURE_CATEGORIES as readonly string[]).includes(eventType)) return eventType as PressureCategory
+  return LEGACY_EVENT_CATEGORY[eventType]
+}
+
+/**
+ * Categories a declaration addresses (keyword match)
+ */
+export function addressedCategories(declaration: string): PressureCategory[] {
+  const lowerDecl = declaration.toLowerCase()
+  return PRESSURE_CATEGORIES.filter(cat =>
+    (PRESSURE_KEYWORDS[cat] || []).some(keyword => lowerDecl.includes(keyword))
+  )
+}
+
+/**
+ * Derive the legacy boolean flags from the pressure thresholds
+ */
+export function deriveLegacyFlags(flags: Flags, tailRisk: number): Flags {
+  return {
+    ...flags,
+    supply_fragile: flags.supply >= LEGACY_FLAG_THRESHOLDS.supply_fragile,
+    labor_tense: flags.labor >= LEGACY_FLAG_THRESHOLDS.labor_tense,
+    quality_watch: flags.quality >= LEGACY_FLAG_THRESHOLDS.quality_watch,
+    tail_risk: tailRisk >= LEGACY_FLAG_THRESHOLDS.tail_risk
+  }
+}
+
+/**
+ * Advance pressures by one turn. Relief only applies to coherent, in-bounds declarations.
+ */
+export function updatePressures(
+  state: State,
+  rngEvent: RngEvent | undefined,
+  declaration: string,
+  allowRelief: boolean = true
+): PressureUpdate {
+  const flags: Flags = { ...state.flags }
+
+  // 1. Decay toward baseline
+  for (const cat of PRESSURE_CATEGORIES) {
+    flags[cat] = flags[cat] + (PRESSURE_BASELINE[cat] - flags[cat]) * PRESSURE_DECAY
+  }
+  let tailRisk = state.tail_risk ?? TAIL_RISK_BASELINE
+  tailRisk = tailRisk + (TAIL_RISK_BASELINE - tailRisk) * TAIL_RISK_DECAY
+
+  // 2. Event bumps
+  const cat = rngEvent ? eventCategory(rngEvent.event_type) : undefined
+  if (cat && rngEvent?.flag_bump) {
+    flags[cat] = flags[cat] + rngEvent.flag_bump
+  }
+  if (rngEvent?.tail_risk_bump) {
+    tailRisk += rngEvent.tail_risk_bump
+  }
+
+  // 3. Relief for categories the declaration addresses
+  const addressed = allowRelief ? addressedCategories(declaration) : []
+  for (const relieved of addressed) {
+    flags[relieved] = flags[relieved] - PRESSURE_RELIEF
+  }
+
+  for (const c of PRESSURE_CATEGORIES) {
+    flags[c] = clamp01(flags[c])
+  }
+  tailRisk = Math.min(100, Math.max(0, tailRisk))
+
+  return {
+    flags: deriveLegacyFlags(flags, tailRisk),
+    tail_risk: tailRisk,
+    addressed
+  }
+}
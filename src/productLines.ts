@@ -0,0 +1,65 @@
+import { EventFinanceAdjustments, FinancialDrivers, ProductLineDrivers } from './contracts'
+import { PRODUCT_LINES, ProductLineSpec } from './rules/productLines'
+
+/**
+ * Product portfolio.
+ * The engine moves one aggregate volume, price and unit cost; each turn they are split across
+ * PRODUCT_LINES. Volume follows a seasonal mix (in peak months the share of seasonal lines grows),
+ * while price and unit cost keep each line's baseline ratio to the portfolio average. The P&L then
+ * rolls up from the lines, and events that name a line land their dollars on it.
+ */
+
+const BASE_UNITS = PRODUCT_LINES.reduce((sum, line) => sum + line.units, 0)
+const BASE_PRICE = PRODUCT_LINES.reduce((sum, line) => sum + line.units * line.price, 0) / BASE_UNITS
+const BASE_UNIT_COST = PRODUCT_LINES.reduce((sum, line) => sum + line.units * line.unit_cost, 0) / BASE_UNITS
+
+/**
+ * A line's demand multiplier for the run's seasonal factor
+ */
+export function lineSeasonalFactor(line: ProductLineSpec, seasonFactor: number): number {
+  return Math.max(0, 1 + (seasonFactor - 1) * line.seasonal_sensitivity)
+}
+
+/**
+ * Split the aggregate drivers across the product lines
+ */
+export function buildProductLines(drivers: FinancialDrivers, seasonFactor = 1): ProductLineDrivers[] {
+  const weights = PRODUCT_LINES.map(line => line.units * lineSeasonalFactor(line, seasonFactor))
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0)
+  const priceRatio = drivers.avg_price / BASE_PRICE
+  const costRatio = drivers.unit_cost / BASE_UNIT_COST
+
+  return PRODUCT_LINES.map((line, i) => ({
+    id: line.id,
+    name: line.name,
+    kind: line.kind,
+    units: totalWeight > 0 ? drivers.units_sold * weights[i] / totalWeight : 0,
+    price: line.price * priceRatio,
+    unit_cost: line.unit_cost * costRatio
+  }))
+}
+
+/**
+ * Lines an event names, from their keywords
+ */
+export function linesNamedBy(eventName: string): ProductLineSpec[] {
+  const lowerName = eventName.toLowerCase()
+  return PRODUCT_LINES.filter(line => line.keywords.some(keyword => lowerName.includes(keyword)))
+}
+
+/**
+ * Aim event revenue/COGS dollars at the named lines, pro rata to their baseline revenue and COGS
+ */
+export function targetLines(adjustments: EventFinanceAdjustments, lines: ProductLineSpec[], revenue: number, cogs: number): void {
+  if (lines.length === 0 || (revenue === 0 && cogs === 0)) return
+  const baseRevenue = lines.reduce((sum, line) => sum + line.units * line.price, 0)
+  const baseCogs = lines.reduce((sum, line) => sum + line.units * line.unit_cost, 0)
+  const targeted = adjustments.lines ?? {}
+  for (const line of lines) {
+    const entry = targeted[line.id] ?? { revenue: 0, cogs: 0 }
+    entry.revenue += revenue * line.units * line.price / baseRevenue
+    entry.cogs += cogs * line.units * line.unit_cost / baseCogs
+    targeted[line.id] = entry
+  }
+  adjustments.lines = targeted
+}
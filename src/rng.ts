@@ -0,0 +1,104 @@
+import { RngState } from './contracts'
+
+/**
+ * Seeded, splittable PRNG for all engine randomness.
+ * The run seed is hashed once into a stream key stored in State.rng. Every draw comes from a
+ * sub-stream keyed by (key, position, label), so the shock roll, reward roll, category picks
+ * and any future draws are independent of each other and of unrelated State fields.
+ * Generator: xoshiro128** seeded through cyrb128.
+ */
+
+/**
+ * 128-bit string hash (cyrb128); returns four 32-bit words
+ */
+function cyrb128(str: string): [number, number, number, number] {
+  let h1 = 1779033703, h2 = 3144134277, h3 = 1013904242, h4 = 2773480762
+  for (let i = 0; i < str.length; i++) {
+    const k = str.charCodeAt(i)
+    h1 = h2 ^ Math.imul(h1 ^ k, 597399067)
+    h2 = h3 ^ Math.imul(h2 ^ k, 2869860233)
+    h3 = h4 ^ Math.imul(h3 ^ k, 951274213)
+    h4 = h1 ^ Math.imul(h4 ^ k, 2716044179)
+  }
+  h1 = Math.imul(h3 ^ (h1 >>> 18), 597399067)
+  h2 = Math.imul(h4 ^ (h2 >>> 22), 2869860233)
+  h3 = Math.imul(h1 ^ (h3 >>> 17), 951274213)
+  h4 = Math.imul(h2 ^ (h4 >>> 19), 2716044179)
+  h1 ^= (h2 ^ h3 ^ h4); h2 ^= h1; h3 ^= h1; h4 ^= h1
+  return [h1 >>> 0, h2 >>> 0, h3 >>> 0, h4 >>> 0]
+}
+
+/**
+ * Independent xoshiro128** stream
+ */
+export class RandomStream {
+  private s: [number, number, number, number]
+
+  constructor(seedWords: [number, number, number, number]) {
+    // xoshiro must never start from the all-zero state
+    this.s = seedWords.every(w => w === 0) ? [1, 0, 0, 0] : [...seedWords]
+  }
+
+  /**
+   * Next raw 32-bit output
+   */
+  nextUint32(): number {
+    const s = this.s
+    const result = Math.imul(rotl(Math.imul(s[1], 5), 7), 9) >>> 0
+    const t = s[1] << 9
+    s[2] ^= s[0]
+    s[3] ^= s[1]
+    s[1] ^= s[2]
+    s[0] ^= s[3]
+    s[2] ^= t
+    s[3] = rotl(s[3], 11)
+    return result
+  }
+
+  /**
+   * Uniform float in [0, 1)
+   */
+  next(): number {
+    return this.nextUint32() / 4294967296
+  }
+
+  /**
+   * Uniform integer in [0, n)
+   */
+  int(n: number): number {
+    return Math.floor(this.next() * n)
+  }
+
+  /**
+   * Dice roll in [1, sides], e.g. roll(100) for a D100
+   */
+  roll(sides: number): number {
+    return this.int(sides) + 1
+  }
+}
+
+function rotl(x: number, k: number): number {
+  return (x << k) | (x >>> (32 - k))
+}
+
+/**
+ * Derive the run's stream key from Run.seed
+ */
+export function createRngState(seed: string): RngState {
+  const key = cyrb128(`greencut:${seed}`).map(w => w.toString(16).padStart(8, '0')).join('')
+  return { key, position: 0 }
+}
+
+/**
+ * Sub-stream for one purpose at the current position
+ */
+export function rngStream(rng: RngState, label: string): RandomStream {
+  return new RandomStream(cyrb128(`${rng.key}:${rng.position}:${label}`))
+}
+
+/**
+ * Move the stream position on by one turn
+ */
+export function advanceRng(rng: RngState): RngState {
+  return { ...rng, position: rng.position + 1 }
+}
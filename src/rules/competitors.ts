@@ -0,0 +1,64 @@
+// Rival firms
+//
+// Each rival starts at its base price, service level and market share. Every
+// turn it re-prices toward our price by `price_follow` (0 ignores us, 1
+// tracks our moves one for one), nudges its service level toward ours by
+// `service_follow`, and runs a `promo_depth` promotion for one turn when its
+// share has fallen more than PROMO_TRIGGER below its base share. A rival
+// cannot serve more than `capacity_share` points of the market; demand
+// beyond that lowers its availability. Prices are on our $100 baseline
+// scale and service on the same 0-100 scale as our service KPI.
+
+export interface CompetitorSpec {
+  id: string
+  name: string
+  base_price: number
+  base_service: number
+  base_share: number      // percent of the market at baseline
+  capacity_share: number  // most of the market it can serve, percent
+  price_follow: number
+  service_follow: number
+  promo_depth: number     // fractional price cut while promoting
+}
+
+export const COMPETITORS: CompetitorSpec[] = [
+  {
+    // Big-box value brand: cheap, thin service, fights hard on price
+    id: 'mowmax',
+    name: 'MowMax',
+    base_price: 85,
+    base_service: 70,
+    base_share: 24,
+    capacity_share: 32,
+    price_follow: 0.6,
+    service_follow: 0,
+    promo_depth: 0.10
+  },
+  {
+    // Premium dealer brand: holds price, matches our service
+    id: 'verdant',
+    name: 'Verdant Outdoor',
+    base_price: 130,
+    base_service: 92,
+    base_share: 10,
+    capacity_share: 12,
+    price_follow: 0.2,
+    service_follow: 0.5,
+    promo_depth: 0
+  },
+  {
+    // Mid-market incumbent: follows the market, occasional promotions
+    id: 'bladeline',
+    name: 'Bladeline',
+    base_price: 105,
+    base_service: 80,
+    base_share: 16,
+    capacity_share: 22,
+    price_follow: 0.4,
+    service_follow: 0.2,
+    promo_depth: 0.08
+  }
+]
+
+// Share below base (relative) that sets off a rival's promotion
+export const PROMO_TRIGGER = 0.05
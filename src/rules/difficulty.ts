@@ -0,0 +1,61 @@
+// Difficulty presets
+//
+// A run picks a preset by name when it is created, and its state carries the
+// name so every later turn draws events the same way. Tier thresholds are the
+// highest roll that lands in tiers 0, 1 and 2 (anything above the last is tier
+// 3), for the shock roll and the reward roll. The shock pressure from flags
+// and company health (0-20) is scaled by the weight before it is added to the
+// shock roll. Caps replace the engine's per-turn KPI caps, and the opening cash
+// and debt replace the standard ones; retained earnings absorb the difference
+// so the opening sheet still balances. The start period is the first month the
+// run resolves: March opens near average demand with the season ahead, while
+// September leads straight into the winter trough. 'standard' is the classic game.
+
+import { Caps } from '../contracts'
+
+export interface DifficultyPreset {
+  label: string
+  shock_tiers: [number, number, number]
+  reward_tiers: [number, number, number]
+  shock_pressure_weight: number
+  caps: Partial<Omit<Caps, 'bounds'>>
+  balance: { cash?: number; debt?: number }
+  start_period: string
+}
+
+export const DIFFICULTY_PRESETS = {
+  // Rare big shocks, generous rewards, wider caps on declared moves and a cash cushion
+  sandbox: {
+    label: 'Sandbox',
+    shock_tiers: [55, 90, 99],
+    reward_tiers: [30, 70, 92],
+    shock_pressure_weight: 0.5,
+    caps: { morale: 4.5, credibility: 3.0, share: 1.5 },
+    balance: { cash: 1_500_000 },
+    start_period: 'Mar 2026'
+  },
+  standard: {
+    label: 'Standard',
+    shock_tiers: [40, 80, 96],
+    reward_tiers: [40, 80, 96],
+    shock_pressure_weight: 1,
+    caps: {},
+    balance: {},
+    start_period: 'Mar 2026'
+  },
+  // Frequent big shocks that compound with pressure, scarce rewards, tight caps, opening debt
+  // and a start just before the winter trough
+  brutal: {
+    label: 'Brutal',
+    shock_tiers: [30, 70, 92],
+    reward_tiers: [50, 88, 98],
+    shock_pressure_weight: 1.5,
+    caps: { morale: 2.0, credibility: 1.5, share: 0.75 },
+    balance: { cash: 600_000, debt: 200_000 },
+    start_period: 'Sep 2025'
+  }
+} satisfies Record<string, DifficultyPreset>
+
+export type DifficultyName = keyof typeof DIFFICULTY_PRESETS
+
+export const DEFAULT_DIFFICULTY: DifficultyName = 'standard'
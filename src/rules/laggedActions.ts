@@ -0,0 +1,36 @@
+// Declarations with a lagged payoff
+//
+// The rule-based evaluator matches each pattern against the lower-cased
+// declaration. A match schedules every phase of the action, with the
+// per-percent effects scaled by the percentage found in the declaration
+// (first capture group) or `default_pct`. Add entries to model new
+// invest-now, pay-off-later moves.
+
+import { DelayedEffects } from '../contracts'
+
+export interface LaggedActionPhase {
+  suffix: string   // appended to the action label, e.g. "spend"
+  delay: number    // turns after the declaration before the phase starts
+  duration: number // turns the phase lasts
+  per_pct: Partial<DelayedEffects>
+}
+
+export interface LaggedActionRule {
+  label: string
+  pattern: RegExp
+  default_pct: number
+  phases: LaggedActionPhase[]
+}
+
+export const LAGGED_ACTIONS: LaggedActionRule[] = [
+  {
+    // "Increase Marketing by 15% ... expect lagged payoff": campaign cost now, demand over the next 3 turns
+    label: 'Marketing push',
+    pattern: /(?:increase|boost|raise|expand|double down on)\s+(?:our\s+|the\s+)?marketing(?:[^.;%\d]*?(\d+(?:\.\d+)?)\s*%)?/,
+    default_pct: 10,
+    phases: [
+      { suffix: 'spend', delay: 0, duration: 1, per_pct: { opex: 4_000 } },
+      { suffix: 'payoff', delay: 1, duration: 3, per_pct: { units_pct: 0.3, share: 0.01 } }
+    ]
+  }
+]
@@ -0,0 +1,99 @@
+// Patterns for lever extraction
+//
+// Each pattern runs against the lower-cased declaration and captures a
+// `value` (and optionally a `verb` and a `scale`). The sign comes from an
+// explicit +/- on the value, else from the verb (DOWN_VERBS are negative),
+// else from `sign`. A pattern without a `value` counts one ("add a second
+// shift"). The first matching pattern for a lever wins, so list the most
+// specific forms first. A match that follows one of NEGATORS within a few
+// words of its clause ("we will not cut prices by 10%") is not a lever.
+
+import { Levers } from '../contracts'
+
+export type LeverKey = keyof Levers
+
+export interface LeverPattern {
+  lever: LeverKey
+  pattern: RegExp
+  sign?: 1 | -1 // applied when neither the value nor a verb carries a sign
+}
+
+const UP_VERBS = 'increase|raise|boost|lift|extend|add|hire|recruit|onboard|invest|spend|commit'
+const DOWN_VERBS = 'cut|reduce|lower|trim|decrease|slash|shorten|lay off|eliminate'
+
+export const DOWN_VERB_SET = DOWN_VERBS.split('|')
+
+// Words that cancel a lever when they lead up to it in the same clause
+export const NEGATORS = /(?:^|[\s,])(?:not|never|no|won't|wont|don't|dont|cannot|can't|without)\s+(?:[a-z'-]+\s+){0,3}$/
+
+// A discount on these lasts as a price change; any other discount is a one-turn promotion
+const STANDING_TERMS = '[^.;]*\\b(?:contracts?|subscriptions?|plans?|memberships?|permanent(?:ly)?|ongoing)\\b'
+
+const NUMBER = '\\d+(?:\\.\\d+)?'
+
+const EXTRA_SHIFT = '(?:second|third|extra|additional|night|weekend)\\s+shifts?\\b'
+
+// "cut opex by 10%", "reduce safety stock levels by 20%"
+const verbBy = (alias: string, unit: string) =>
+  new RegExp(`(?<verb>${UP_VERBS}|${DOWN_VERBS})\\s+(?:our\\s+|the\\s+)?(?:${alias})(?:\\s+[a-z-]+){0,3}?\\s+by\\s+(?<value>${NUMBER})\\s*${unit}`)
+
+// "price +12%", "dpo: +15 days"
+const signedAfter = (alias: string, unit: string) =>
+  new RegExp(`(?:${alias})(?:\\s+[a-z-]+){0,2}?\\s*:?\\s*(?<value>[+-]${NUMBER})\\s*${unit}`)
+
+// "+15 days dpo", "+2% cogs"
+const signedBefore = (alias: string, unit: string) =>
+  new RegExp(`(?<value>[+-]${NUMBER})\\s*${unit}\\s+(?:${alias})\\b`)
+
+const ALIASES: Partial<Record<LeverKey, string>> = {
+  opex_pct: 'opex|operating expenses|operating costs|overhead',
+  price_pct: 'prices?|pricing|asp',
+  cogs_pct: 'cogs|unit costs?|cost of goods',
+  dpo_days: 'dpo|payables|payment terms',
+  dso_days: 'dso|receivables|collection terms',
+  safety_stock_pct: 'safety stock|inventory'
+}
+
+const UNITS: Partial<Record<LeverKey, string>> = {
+  opex_pct: '%',
+  price_pct: '%',
+  cogs_pct: '%',
+  dpo_days: 'days?',
+  dso_days: 'days?',
+  safety_stock_pct: '%'
+}
+
+export const LEVER_PATTERNS: LeverPattern[] = [
+  ...(Object.keys(ALIASES) as LeverKey[]).flatMap(lever => [
+    { lever, pattern: verbBy(ALIASES[lever]!, UNITS[lever]!) },
+    { lever, pattern: signedAfter(ALIASES[lever]!, UNITS[lever]!) },
+    { lever, pattern: signedBefore(ALIASES[lever]!, UNITS[lever]!) }
+  ]),
+  // "a 10% price cut", "5% discount for 12-month contracts"
+  { lever: 'price_pct', pattern: new RegExp(`(?<value>${NUMBER})\\s*%\\s+price cut`), sign: -1 },
+  { lever: 'price_pct', pattern: new RegExp(`(?<value>${NUMBER})\\s*%\\s+(?:price\\s+)?(?:discount|markdown)(?=${STANDING_TERMS})`), sign: -1 },
+  // "offer a 10% discount for early orders", "20% off promotion" (this turn only)
+  { lever: 'promo_pct', pattern: new RegExp(`(?<value>${NUMBER})\\s*%\\s+(?:price\\s+)?(?:discount|markdown|promotion|promo|off)\\b(?!${STANDING_TERMS})`), sign: -1 },
+  // "hire 5 senior sales reps", "lay off 12 assembly workers"
+  {
+    lever: 'headcount',
+    pattern: new RegExp(`(?<verb>hire|recruit|onboard|add|${DOWN_VERBS})\\s+(?<value>\\d+)\\s+(?:[a-z-]+\\s+){0,3}?(?:reps?|engineers?|staff|people|employees|heads|hires|workers|technicians|assemblers|jobs|roles|positions)\\b`)
+  },
+  // "invest $400k in automation"
+  {
+    lever: 'capex',
+    pattern: new RegExp(`(?<verb>invest|spend|commit)\\s+\\$(?<value>${NUMBER})\\s*(?<scale>k|m)?\\s+(?:in|on|into)\\s+(?:[a-z-]+\\s+){0,3}?(?:capex|equipment|automation|machinery|tooling|plant|capacity)\\b`)
+  },
+  // "pay a $0.5m special dividend", "dividend of $500k"
+  { lever: 'dividend', pattern: new RegExp(`\\$(?<value>${NUMBER})\\s*(?<scale>k|m)?\\s+(?:[a-z-]+\\s+){0,2}?dividends?\\b`) },
+  { lever: 'dividend', pattern: new RegExp(`dividends?\\s+of\\s+\\$(?<value>${NUMBER})\\s*(?<scale>k|m)?`) },
+  // "authorize buyback of 5%", "buy back 5% of our shares", "3% share repurchase"
+  { lever: 'buyback_pct', pattern: new RegExp(`(?:buy-?\\s?backs?|repurchases?)\\s+(?:of\\s+|up to\\s+)?(?<value>${NUMBER})\\s*%`) },
+  { lever: 'buyback_pct', pattern: new RegExp(`(?<value>${NUMBER})\\s*%\\s+(?:share\\s+|stock\\s+)?(?:buy-?\\s?backs?|repurchases?)\\b`) },
+  // "add 2 shifts", "add a second shift in assembly", "drop the night shift"
+  { lever: 'shifts', pattern: new RegExp(`(?<verb>add|${DOWN_VERBS})\\s+(?<value>\\d+)\\s+(?:extra\\s+|additional\\s+)?shifts?\\b`) },
+  { lever: 'shifts', pattern: new RegExp(`(?:add|start|open|run|launch)\\s+(?:a\\s+)?${EXTRA_SHIFT}`) },
+  { lever: 'shifts', pattern: new RegExp(`(?:drop|end|stop|close|cut|eliminate)\\s+(?:the\\s+|our\\s+)?${EXTRA_SHIFT}`), sign: -1 },
+  // "... shift in assembly for 8 weeks"
+  { lever: 'shift_weeks', pattern: new RegExp(`shifts?\\b[^.;]*?\\bfor\\s+(?:the\\s+next\\s+)?(?<value>\\d+)\\s+weeks?`) }
+]
@@ -0,0 +1,16 @@
+// Keyword lists for pressure relief
+//
+// A declaration that mentions any keyword of a category is treated as
+// addressing that category and relieves some of its pressure. Extend these
+// arrays to teach the engine new ways of addressing a risk area.
+
+export const PRESSURE_KEYWORDS: Record<string, string[]> = {
+  supply: ['supplier', 'supply', 'vendor', 'dual-source', 'dual source', 'safety stock', 'logistics', 'freight'],
+  labor: ['union', 'overtime', 'wage', 'retention', 'workforce', 'staffing', 'hiring', 'shift'],
+  quality: ['quality', 'warranty', 'recall', 'defect', 'inspection', 'reliability'],
+  competition: ['competitor', 'rival', 'promo', 'marketing', 'retailer', 'pricing'],
+  finance: ['cash', 'debt', 'credit', 'liquidity', 'working capital', 'dpo', 'lender'],
+  regulation: ['compliance', 'regulator', 'regulatory', 'emissions', 'certification', 'audit'],
+  tech: ['firmware', 'software', 'cyber', 'connectivity', 'patch'],
+  weather: ['season', 'weather', 'forecast', 'demand plan']
+}
@@ -0,0 +1,67 @@
+// Product portfolio
+//
+// Baseline month for each product line and the service stream. Units sum to
+// the aggregate baseline volume (10,000). Prices and costs set the mix only:
+// each turn buildProductLines rescales them by the ratio of the engine's
+// average price and unit cost (materials, $30 at baseline; payroll is booked
+// separately) to the portfolio averages here, so every line keeps its
+// relative price and cost. `seasonal_sensitivity` scales the run's seasonality curve for the
+// line (1 follows it, 0 is flat). An event whose name contains one of a
+// line's `keywords` lands its revenue/COGS dollars on that line; other
+// events are spread across the portfolio.
+
+import { ProductLineKind } from '../contracts'
+
+export interface ProductLineSpec {
+  id: string
+  name: string
+  kind: ProductLineKind
+  units: number      // baseline units (service: active plans billed) per month
+  price: number      // baseline price per unit, dollars
+  unit_cost: number  // baseline cost per unit, dollars
+  seasonal_sensitivity: number
+  keywords: string[] // lower-case substrings of event names
+}
+
+export const PRODUCT_LINES: ProductLineSpec[] = [
+  {
+    id: 'battery_mowers',
+    name: 'Battery mowers',
+    kind: 'product',
+    units: 4_000,
+    price: 125,
+    unit_cost: 75,
+    seasonal_sensitivity: 1.2,
+    keywords: ['battery', 'batteries', 'motor', 'firmware', 'smart model', 'electrification']
+  },
+  {
+    id: 'gas_mowers',
+    name: 'Gas mowers',
+    kind: 'product',
+    units: 2_500,
+    price: 100,
+    unit_cost: 64,
+    seasonal_sensitivity: 1.2,
+    keywords: ['starter cord', 'emissions', 'noise']
+  },
+  {
+    id: 'parts',
+    name: 'Blades & parts',
+    kind: 'product',
+    units: 3_000,
+    price: 50,
+    unit_cost: 30,
+    seasonal_sensitivity: 0.6,
+    keywords: ['blade', 'parts']
+  },
+  {
+    id: 'service',
+    name: 'Service plans',
+    kind: 'service',
+    units: 500,
+    price: 200,
+    unit_cost: 100,
+    seasonal_sensitivity: 0,
+    keywords: ['service plan', 'service tier', 'maintenance']
+  }
+]
@@ -0,0 +1,17 @@
+// Seasonality curves for unit demand
+//
+// Each curve has twelve monthly multipliers (Jan..Dec) applied to the
+// baseline units sold. Keep the average near 1.0 so a full year sells the
+// baseline volume. A run picks its curve by name when it is created; add a
+// curve here to model a different product mix.
+
+export const SEASONALITY_CURVES = {
+  // Walk-behind and riding mowers: spring ramp, May peak, long winter trough
+  lawn_mowers: [0.50, 0.60, 0.90, 1.40, 1.70, 1.60, 1.40, 1.15, 0.95, 0.75, 0.55, 0.50],
+  // No seasonality (useful for tests and tutorials)
+  flat: [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1]
+} as const
+
+export type SeasonalityCurveName = keyof typeof SEASONALITY_CURVES
+
+export const DEFAULT_SEASONALITY: SeasonalityCurveName = 'lawn_mowers'
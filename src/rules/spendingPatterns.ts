@@ -0,0 +1,55 @@
+// Direct cash spending
+//
+// Patterns for one-off spending stated in a declaration, run against the
+// lower-cased text. Each captures either an amount (`value` with a `scale`)
+// or a share of opening cash (`pct`, absent for "all our cash"), and the
+// `target` text it is spent on. An amount only counts when a spending verb
+// comes at most three words before it, so losses and event descriptions
+// ("lost 2m in the factory fire") are not read as spending. The first SPENDING_CATEGORIES entry with a
+// keyword in the target classifies it; an amount with no matching keyword is
+// not treated as spending, while a share of cash defaults to OpEx.
+
+import { SpendingCategory } from '../contracts'
+
+export interface SpendingCategorySpec {
+  category: SpendingCategory
+  label: string
+  keywords: string[]
+}
+
+export const SPENDING_CATEGORIES: SpendingCategorySpec[] = [
+  {
+    category: 'capital_return',
+    label: 'capital return',
+    keywords: ['shareholder', 'investor', 'owners', 'dividend', 'buyback', 'buy back']
+  },
+  {
+    category: 'capex',
+    label: 'capex',
+    keywords: ['equipment', 'machinery', 'automation', 'tooling', 'plant', 'factory', 'facility', 'robot', 'capex', 'capacity']
+  },
+  {
+    category: 'opex',
+    label: 'OpEx',
+    keywords: ['bonus', 'employee', 'staff', 'worker', 'team', 'training', 'marketing', 'advertising', 'campaign', 'consult', 'retention']
+  }
+]
+
+export const DEFAULT_CASH_SHARE_CATEGORY: SpendingCategory = 'opex'
+
+export const SPENDING_SCALES: Record<string, number> = {
+  k: 1_000, thousand: 1_000,
+  m: 1_000_000, million: 1_000_000,
+  b: 1_000_000_000, billion: 1_000_000_000
+}
+
+// Verbs (regex, with their -s/-ing forms) that mark an amount as money the company chooses to
+// spend; "payroll" or "paid" do not count
+export const SPENDING_VERBS = ['invest(?:s|ing)?', 'spend(?:s|ing)?', 'buy(?:s|ing)?', 'allocat(?:e|es|ing)', 'pay(?:s|ing)?', 'giv(?:e|es|ing)']
+
+export const SPENDING_PATTERNS: RegExp[] = [
+  // "pay $2m in employee bonuses", "give a $200k bonus to the assembly team"
+  new RegExp(`\\b(?:${SPENDING_VERBS.join('|')})\\s+(?:[\\w'-]+\\s+){0,3}?\\$?(?<value>\\d+(?:\\.\\d+)?)\\s*(?<scale>billion|million|thousand|b|m|k)\\b(?<target>[^.;]+)`),
+  // "spend 20% of our cash on bonuses", "give all our cash to shareholders"
+  /(?:spend|use|give|return|invest)\s+(?:(?<pct>\d+(?:\.\d+)?)%|all)\s*(?:of\s+)?(?:our\s+|the\s+)?(?:cash|money)(?<target>[^.;]*)/
+]
@@ -0,0 +1,56 @@
+// Workforce by function
+//
+// Baseline heads and monthly loaded wage for each function. Assembly
+// payroll is direct labor and lands in COGS; the other functions are paid
+// from OpEx. Together they are the payroll inside the baseline month: the
+// engine's unit cost and OpEx base exclude it. A hire or layoff goes to the
+// first function whose `keywords` (lower-case substrings) appear in the
+// clause that states it, else to DEFAULT_HIRING_FUNCTION.
+
+import { WorkforceFunction } from '../contracts'
+
+export interface WorkforceFunctionSpec {
+  id: WorkforceFunction
+  name: string
+  heads: number
+  monthly_wage: number // loaded cost per head per month, dollars
+  direct: boolean      // payroll in COGS rather than OpEx
+  keywords: string[]
+}
+
+export const WORKFORCE_FUNCTIONS: WorkforceFunctionSpec[] = [
+  {
+    id: 'assembly',
+    name: 'Assembly',
+    heads: 40,
+    monthly_wage: 5_000,
+    direct: true,
+    keywords: ['assembl', 'production', 'plant', 'factory', 'line workers', 'operators']
+  },
+  {
+    id: 'sales',
+    name: 'Sales',
+    heads: 8,
+    monthly_wage: 7_000,
+    direct: false,
+    keywords: ['sales', 'reps', 'account managers', 'marketing']
+  },
+  {
+    id: 'support',
+    name: 'Support',
+    heads: 6,
+    monthly_wage: 5_000,
+    direct: false,
+    keywords: ['support', 'technicians', 'service', 'customer care']
+  },
+  {
+    id: 'ga',
+    name: 'G&A',
+    heads: 8,
+    monthly_wage: 8_000,
+    direct: false,
+    keywords: ['g&a', 'admin', 'finance', 'accounting', 'human resources', 'engineers', 'office', 'corporate']
+  }
+]
+
+export const DEFAULT_HIRING_FUNCTION: WorkforceFunction = 'assembly'
@@ -0,0 +1,66 @@
+import { Runway } from './contracts'
+
+/**
+ * Cash runway from actual burn.
+ * Liquidity (closing cash plus undrawn credit) divided by the trailing average monthly net burn,
+ * where net flow is CFO + CFI. A business whose trailing flow is non-negative is profitable and
+ * reports RUNWAY_CAP_MONTHS, since JSON has no Infinity.
+ */
+
+export const RUNWAY_CAP_MONTHS = 60      // reported runway when not burning cash
+export const RUNWAY_WARNING_MONTHS = 6   // below this the runway_short hint fires
+export const RUNWAY_CRITICAL_MONTHS = 3  // below this the KPI turns red
+export const RUNWAY_TRAILING_TURNS = 3   // turns averaged into the burn rate
+
+export interface RunwayInput {
+  cash: number
+  debt: number
+  credit_limit: number
+  flow_history: number[] // CFO + CFI per turn, most recent last
+  period_days: number
+}
+
+/**
+ * Append this turn's net flow and keep only the trailing window
+ */
+export function recordNetFlow(history: number[] | undefined, cfo: number, cfi: number): number[] {
+  return [...(history ?? []), cfo + cfi].slice(-RUNWAY_TRAILING_TURNS)
+}
+
+/**
+ * Runway in months from liquidity and trailing net burn
+ */
+export function computeRunway(input: RunwayInput): Runway {
+  const undrawn = Math.max(0, input.credit_limit - input.debt)
+  const liquidity = Math.max(0, input.cash) + undrawn
+  const window = input.flow_history.slice(-RUNWAY_TRAILING_TURNS)
+  const avgFlow = window.length > 0 ? window.reduce((sum, f) => sum + f, 0) / window.length : 0
+  // Burn per month, normalised from the turn length
+  const monthlyBurn = Math.max(0, -avgFlow) * (30 / Math.max(1, input.period_days))
+
+  // With no cash or credit left there is no runway, even if unpaid bills have masked the burn
+  if (liquidity <= 0) {
+    return { months: 0, profitable: false, monthly_burn: monthlyBurn, liquidity: 0, undrawn_credit: undrawn }
+  }
+
+  if (monthlyBurn === 0) {
+    return { months: RUNWAY_CAP_MONTHS, profitable: true, monthly_burn: 0, liquidity, undrawn_credit: undrawn }
+  }
+
+  return {
+    months: Math.min(RUNWAY_CAP_MONTHS, liquidity / monthlyBurn),
+    profitable: false,
+    monthly_burn: monthlyBurn,
+    liquidity,
+    undrawn_credit: undrawn
+  }
+}
+
+/**
+ * KPI intent for a runway length
+ */
+export function runwayIntent(months: number): 'good' | 'warn' | 'bad' {
+  if (months < RUNWAY_CRITICAL_MONTHS) return 'bad'
+  if (months < RUNWAY_WARNING_MONTHS) return 'warn'
+  return 'good'
+}
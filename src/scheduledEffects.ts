@@ -0,0 +1,109 @@
+import { State, DelayedEffects, DelayedEffectsSchema, EffectSchedule, ScheduledEffect } from './contracts'
+import { LAGGED_ACTIONS } from './rules/laggedActions'
+
+/**
+ * Delayed-effect queue.
+ * Declarations with a lagged payoff are tagged by the evaluator with a delay and duration. The engine
+ * queues them in `State.scheduled_effects` and, on every turn between start_turn and end_turn, applies
+ * their effects in queue order. An effect leaves the queue after its last turn.
+ */
+
+export interface ScheduledEffectsStep {
+  queued: ScheduledEffect[]  // scheduled by this turn's declaration
+  applied: ScheduledEffect[] // active this turn
+  pending: ScheduledEffect[] // still queued after this turn
+  totals: DelayedEffects     // sum of the applied effects
+}
+
+const EFFECT_KEYS = Object.keys(DelayedEffectsSchema.shape) as (keyof DelayedEffects)[]
+
+export function zeroDelayedEffects(): DelayedEffects {
+  return DelayedEffectsSchema.parse({})
+}
+
+/**
+ * Lagged actions a declaration commits to, from the LAGGED_ACTIONS rules
+ */
+export function detectLaggedActions(declaration: string): EffectSchedule[] {
+  const lowerDecl = declaration.toLowerCase()
+  const schedules: EffectSchedule[] = []
+
+  for (const rule of LAGGED_ACTIONS) {
+    const match = lowerDecl.match(rule.pattern)
+    if (!match) continue
+    const pct = match[1] ? parseFloat(match[1]) : rule.default_pct
+    for (const phase of rule.phases) {
+      const effects = zeroDelayedEffects()
+      for (const key of EFFECT_KEYS) {
+        effects[key] = (phase.per_pct[key] ?? 0) * pct
+      }
+      schedules.push({
+        label: `${rule.label} +${pct}% (${phase.suffix})`,
+        delay: phase.delay,
+        duration: phase.duration,
+        effects
+      })
+    }
+  }
+
+  return schedules
+}
+
+/**
+ * Queue entries for the schedules tagged on `turnNo`'s declaration
+ */
+export function scheduleEffects(schedules: EffectSchedule[] | undefined, turnNo: number): ScheduledEffect[] {
+  return (schedules ?? []).map((schedule, i) => ({
+    id: `t${turnNo}-${i + 1}`,
+    label: schedule.label,
+    source_turn: turnNo,
+    start_turn: turnNo + schedule.delay,
+    end_turn: turnNo + schedule.delay + schedule.duration - 1,
+    effects: DelayedEffectsSchema.parse(schedule.effects)
+  }))
+}
+
+/**
+ * Queue this turn's schedules, then split the queue into effects due on `turnNo` and those still pending
+ */
+export function advanceScheduledEffects(
+  state: State,
+  schedules: EffectSchedule[] | undefined,
+  turnNo: number
+): ScheduledEffectsStep {
+  const queued = scheduleEffects(schedules, turnNo)
+  const queue = [...(state.scheduled_effects ?? []), ...queued]
+
+  const applied = queue.filter(e => e.start_turn <= turnNo && turnNo <= e.end_turn)
+  const pending = queue.filter(e => e.end_turn > turnNo)
+
+  const totals = zeroDelayedEffects()
+  for (const effect of applied) {
+    for (const key of EFFECT_KEYS) {
+      totals[key] += effect.effects[key]
+    }
+  }
+
+  return { queued, applied, pending, totals }
+}
+
+/**
+ * One-line description of an applied effect, e.g. "Marketing push +15% (payoff), turn 1 of 3: units +4.5%, share +0.15pt"
+ */
+export function describeScheduledEffect(effect: ScheduledEffect, turnNo: number): string {
+  const e = effect.effects
+  const signed = (x: number, dp: number) => `${x < 0 ? '-' : '+'}${Math.abs(x).toFixed(dp)}`
+  const parts: string[] = []
+  if (e.units_pct !== 0) parts.push(`units ${signed(e.units_pct, 1)}%`)
+  if (e.price_pct !== 0) parts.push(`price ${signed(e.price_pct, 1)}%`)
+  if (e.opex !== 0) parts.push(`OpEx ${e.opex < 0 ? '-' : '+'}$${Math.round(Math.abs(e.opex) / 1000)}k`)
+  if (e.morale !== 0) parts.push(`morale ${signed(e.morale, 1)}`)
+  if (e.credibility !== 0) parts.push(`credibility ${signed(e.credibility, 1)}`)
+  if (e.backlog !== 0) parts.push(`backlog ${signed(e.backlog, 0)} units`)
+  if (e.service !== 0) parts.push(`service ${signed(e.service, 1)}`)
+  if (e.share !== 0) parts.push(`share ${signed(e.share, 2)}pt`)
+
+  const span = effect.end_turn - effect.start_turn + 1
+  const progress = span > 1 ? `, turn ${turnNo - effect.start_turn + 1} of ${span}` : ''
+  return `${effect.label}${progress}: ${parts.join(', ') || 'no effect'}`
+}
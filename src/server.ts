@@ -8,12 +8,22 @@ import dotenv from 'dotenv'
 import { Engine } from './engine'
 import { Evaluator } from './evaluator'
 import { Narrator } from './narrator'
+import { migrateRunLog, SkippedLogEntry } from './stateMigrations'
+import { toStatePacket, toKpiMetrics, toTurnFinancials } from './stateModel'
+import { evaluateOutcome } from './outcome'
+import { describeActions } from './actions'
+import { DEFAULT_EVENT_CATALOG, parseEventCatalog } from './eventCatalog'
+import { responseError } from './eventResponses'
+import { SeasonalityCurveName, DEFAULT_SEASONALITY } from './rules/seasonality'
+import { DIFFICULTY_PRESETS, DifficultyName, DEFAULT_DIFFICULTY } from './rules/difficulty'
 import { 
   NewRunRequestSchema, 
   TurnRequestSchema, 
   Run, 
   TurnResult,
-  StatePacketSchema 
+  OutcomeConfig,
+  OutcomeConfigSchema,
+  EventCatalog
 } from './contracts'
 
 // Load environment variables
@@ -37,14 +47,42 @@ app.use(express.json({
 }))
 app.use(express.static(path.join(__dirname, '../dist/public')))
 
+// Event catalog: EVENT_CATALOG_PATH points at a JSON catalog that replaces the default one
+function loadEventCatalog(): EventCatalog {
+  const catalogPath = process.env.EVENT_CATALOG_PATH
+  if (!catalogPath) return DEFAULT_EVENT_CATALOG
+  try {
+    return parseEventCatalog(JSON.parse(fs.readFileSync(catalogPath, 'utf-8')))
+  } catch (error) {
+    console.error(`Invalid event catalog at ${catalogPath}:`, error)
+    throw error
+  }
+}
+
+const eventCatalog = loadEventCatalog()
+
 // Initialize services
-const engine = new Engine()
+const engine = new Engine(undefined, eventCatalog)
 const evaluator = new Evaluator()
 const narrator = new Narrator()
 
 // In-memory storage for runs
 const runs = new Map<string, Run>()
 
+// Helper function to create an active run with its end conditions
+function newRun(id: string, seed: string, outcomeConfig: Partial<OutcomeConfig> = {}, seasonality: SeasonalityCurveName = DEFAULT_SEASONALITY, difficulty: DifficultyName = DEFAULT_DIFFICULTY): Run {
+  return {
+    id,
+    seed,
+    created_at: Date.now(),
+    turns: [],
+    seasonality,
+    difficulty,
+    status: 'active',
+    outcome_config: OutcomeConfigSchema.parse(outcomeConfig)
+  }
+}
+
 // Helper function to write to run.jsonl
 function writeToRunLog(data: any): void {
   try {
@@ -55,17 +93,22 @@ function writeToRunLog(data: any): void {
   }
 }
 
-// Helper function to read from run.jsonl
-function readRunLog(): any[] {
+// Helper function to read from run.jsonl (older entries are migrated to the current state schema;
+// entries that cannot be migrated are left out and reported as skipped)
+function readRunLog(): { entries: any[]; skipped: SkippedLogEntry[] } {
   try {
     if (!fs.existsSync('./run.jsonl')) {
-      return []
+      return { entries: [], skipped: [] }
     }
     const content = fs.readFileSync('./run.jsonl', 'utf-8')
-    return content.trim().split('\n').filter(line => line.trim()).map(line => JSON.parse(line))
+    const log = migrateRunLog(content.trim().split('\n').filter(line => line.trim()).map(line => JSON.parse(line)))
+    if (log.skipped.length > 0) {
+      console.warn(`Skipped ${log.skipped.length} run.jsonl entries that could not be migrated`)
+    }
+    return log
   } catch (error) {
     console.error('Failed to read run.jsonl:', error)
-    return []
+    return { entries: [], skipped: [] }
   }
 }
 
@@ -77,19 +120,14 @@ function readRunLog(): any[] {
  */
 app.post('/api/run/new', async (req, res) => {
   try {
-    const { seed } = NewRunRequestSchema.parse(req.body)
+    const { seed, seasonality, difficulty, outcome_config } = NewRunRequestSchema.parse(req.body)
     const runSeed = seed || randomUUID()
     
     // Create initial state
-    const initialState = engine.createInitialState(runSeed)
+    const initialState = engine.createInitialState(runSeed, { seasonality, difficulty })
     
     // Create run
-    const run: Run = {
-      id: randomUUID(),
-      seed: runSeed,
-      created_at: Date.now(),
-      turns: []
-    }
+    const run = newRun(randomUUID(), runSeed, outcome_config, seasonality, difficulty)
     
     // Store in memory
     runs.set(run.id, run)
@@ -130,8 +168,8 @@ app.post('/api/turn', async (req, res) => {
 
     // Handle both payload shapes
     if (raw.input && !raw.declaration) {
-      // Legacy: { input: "..." } -> { declaration: "...", runId: undefined }
-      normalized = { declaration: raw.input };
+      // Legacy: { input: "..." } -> { declaration: "..." }, keeping the run, actions and response
+      normalized = { runId: raw.runId, declaration: raw.input, actions: raw.actions, responseId: raw.responseId };
     } else {
       // Current: { runId: "...", declaration: "..." }
       normalized = raw;
@@ -143,12 +181,7 @@ app.post('/api/turn', async (req, res) => {
       const initialState = engine.createInitialState(newRunId);
       
       // Store in memory (reuse your existing logic)
-      const run: Run = {
-        id: newRunId,
-        seed: newRunId,
-        created_at: Date.now(),
-        turns: []
-      };
+      const run = newRun(newRunId, newRunId);
       runs.set(run.id, run);
       
       // Write to run.jsonl (reuse your existing logic)
@@ -164,7 +197,9 @@ app.post('/api/turn', async (req, res) => {
       normalized.runId = newRunId;
     }
 
-    const { runId, declaration } = TurnRequestSchema.parse(normalized)
+    const { runId, declaration, actions = [], responseId } = TurnRequestSchema.parse(normalized)
+    // Without a declaration the actions are the whole move: no evaluator or narrator LLM calls
+    const actionOnly = declaration.trim().length === 0
     
     // Get run
     const run = runs.get(runId)
@@ -175,51 +210,53 @@ app.post('/api/turn', async (req, res) => {
       })
     }
     
+    // Finished runs accept no more turns
+    if (run.status === 'finished') {
+      return res.status(409).json({
+        success: false,
+        error: `Run has finished: ${run.outcome?.message ?? 'no further turns allowed'}`,
+        status: run.status,
+        outcome: run.outcome
+      })
+    }
+    
     // Get current state (last turn or initial state)
     const currentState = run.turns.length > 0 
       ? run.turns[run.turns.length - 1].state_after
-      : engine.createInitialState(run.seed)
+      : engine.createInitialState(run.seed, { seasonality: run.seasonality, difficulty: run.difficulty })
+
+    // A response must answer the shock awaiting one; the turn is not played otherwise
+    const responseProblem = responseId === undefined ? null : responseError(currentState, responseId)
+    if (responseProblem) {
+      return res.status(400).json({
+        success: false,
+        error: responseProblem,
+        pending_response: currentState.pending_response
+      })
+    }
     
     // Generate RNG event for this turn
     const rngEvent = engine.generateRngEvent(currentState, run.turns.length)
     
     // Create state packet for evaluator
-    const statePacket = StatePacketSchema.parse({
-      turn_no: currentState.turn_no,
-      period: currentState.period,
-      pnl: currentState.pnl,
-      kpis: currentState.kpis,
-      event: currentState.event,
-      morale: currentState.morale,
-      credibility: currentState.credibility,
-      backlog: currentState.backlog,
-      service: currentState.service,
-      share: currentState.share,
-      cash_runway: currentState.cash_runway,
-      flags: currentState.flags,
-      pressures: currentState.pressures,
-      headroom: currentState.headroom,
-      recent_moves: currentState.recent_moves,
-      tail_risk: currentState.tail_risk,
-      shock_decay: currentState.shock_decay,
-      reward_decay: currentState.reward_decay,
-      ceo_credibility: currentState.ceo_credibility,
-      active_shocks: currentState.active_shocks,
-      active_rewards: currentState.active_rewards,
-      notes: currentState.notes
-    })
+    const statePacket = toStatePacket(currentState)
     
     // Get current caps
-    const caps = engine.getCaps()
+    const caps = engine.getCaps(currentState)
     
     // Evaluate declaration with RNG event
-    const evaluation = await evaluator.evaluate(declaration, statePacket, rngEvent, caps)
+    const evaluation = actionOnly
+      ? evaluator.evaluateActions(statePacket, rngEvent, actions)
+      : await evaluator.evaluate(declaration, statePacket, rngEvent, caps)
     
     // Resolve turn in engine
     const turnResult = engine.resolveTurn(
       currentState,
-      declaration,
-      evaluation
+      actionOnly ? describeActions(actions) : declaration,
+      evaluation,
+      rngEvent,
+      actions,
+      responseId
     )
     
     // Generate narrative
@@ -231,7 +268,8 @@ app.post('/api/turn', async (req, res) => {
       evaluation.signals,
       evaluation.integrated,
       evaluation.penalties,
-      engine.getCaps()
+      engine.getCaps(currentState),
+      actionOnly
     )
     
     // Update turn result with narrative
@@ -241,6 +279,14 @@ app.post('/api/turn', async (req, res) => {
     // Add to run
     run.turns.push(turnResult)
     
+    // Check the end conditions; the turn that ends the run carries the outcome
+    const outcome = evaluateOutcome(run.turns, run.outcome_config)
+    if (outcome) {
+      turnResult.outcome = outcome
+      run.status = 'finished'
+      run.outcome = outcome
+    }
+    
     // Write to run.jsonl
     const logEntry = {
       timestamp: Date.now(),
@@ -253,6 +299,8 @@ app.post('/api/turn', async (req, res) => {
     
     res.json({
       success: true,
+      status: run.status,
+      difficulty: DIFFICULTY_PRESETS[run.difficulty].label,
       turnResult
     })
   } catch (error) {
@@ -281,12 +329,14 @@ app.get('/api/run/:id', (req, res) => {
     }
     
     // Read snapshots from run.jsonl
-    const snapshots = readRunLog().filter(entry => entry.runId === id)
+    const log = readRunLog()
+    const snapshots = log.entries.filter(entry => entry.runId === id)
     
     res.json({
       success: true,
       run,
-      snapshots
+      snapshots,
+      skipped_entries: log.skipped.filter(entry => entry.run_id === id)
     })
   } catch (error) {
     console.error('Error retrieving run:', error)
@@ -307,7 +357,9 @@ app.get('/api/runs', (req, res) => {
       id: run.id,
       seed: run.seed,
       created_at: run.created_at,
-      turn_count: run.turns.length
+      turn_count: run.turns.length,
+      status: run.status,
+      outcome: run.outcome
     }))
     
     res.json({
@@ -337,40 +389,25 @@ app.get('/api/state', (req, res) => {
       const newRunId = randomUUID();
       const initialState = engine.createInitialState(newRunId);
       
-      currentRun = {
-        id: newRunId,
-        seed: newRunId,
-        created_at: Date.now(),
-        turns: []
-      };
+      currentRun = newRun(newRunId, newRunId);
       runs.set(currentRun.id, currentRun);
     }
     
     // Get current state (last turn or initial state)
     const currentState = currentRun.turns.length > 0 
       ? currentRun.turns[currentRun.turns.length - 1].state_after
-      : engine.createInitialState(currentRun.seed)
+      : engine.createInitialState(currentRun.seed, { seasonality: currentRun.seasonality, difficulty: currentRun.difficulty })
     
     // Transform to frontend format
     const state = {
       turn: currentState.turn_no,
-      kpis: [
-        { key: 'morale', label: 'Morale', value: currentState.morale, delta: 0, intent: 'good' },
-        { key: 'credibility', label: 'Credibility', value: currentState.credibility, delta: 0, intent: 'good' },
-        { key: 'backlog', label: 'Backlog', value: currentState.backlog, delta: 0, intent: 'good' },
-        { key: 'service', label: 'Service', value: currentState.service, delta: 0, intent: 'good' },
-        { key: 'share', label: 'Market Share', value: currentState.share, delta: 0, intent: 'good' },
-        { key: 'cashRunway', label: 'Cash Runway', value: currentState.cash_runway, delta: 0, intent: 'good' },
-      ],
+      kpis: toKpiMetrics(currentState),
+      difficulty: DIFFICULTY_PRESETS[currentRun.difficulty].label,
+      status: currentRun.status,
+      outcome: currentRun.outcome,
       turns: currentRun.turns.map(turn => ({
         ...turn,
-        financials: turn.state_after.pnl ? {
-          revenue: turn.state_after.pnl.revenue * 1000000, // Convert from millions to actual dollars
-          cogs: turn.state_after.pnl.cogs * 1000000,
-          opex: turn.state_after.pnl.opex * 1000000,
-          ebit: turn.state_after.pnl.net * 1000000, // Using net as EBIT approximation
-          cash: turn.state_after.pnl.cash * 1000000
-        } : undefined
+        financials: toTurnFinancials(turn.state_after)
       }))
     };
     
@@ -407,6 +444,17 @@ app.get('/api/download', (req, res) => {
   }
 })
 
+/**
+ * GET /api/events/catalog
+ * Returns the event catalog shocks and rewards are drawn from (read-only)
+ */
+app.get('/api/events/catalog', (req, res) => {
+  res.json({
+    success: true,
+    catalog: eventCatalog
+  })
+})
+
 // Global error handler
 app.use((error: any, req: any, res: any, next: any) => {
   console.error('Global error handler:', error.message);
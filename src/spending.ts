@@ -0,0 +1,56 @@
+import { DirectCashSpending, Levers, SpendingCategory } from './contracts'
+import { DEFAULT_CASH_SHARE_CATEGORY, SPENDING_CATEGORIES, SPENDING_PATTERNS, SPENDING_SCALES } from './rules/spendingPatterns'
+
+/**
+ * Direct cash spending.
+ * One-off spending stated in a declaration ("$2m in employee bonuses", "spend 20% of our cash on
+ * new equipment") is classified by what it buys: OpEx is expensed this turn, capex is capitalised
+ * into PP&E, and a capital return is paid from retained earnings like a dividend. computeFinancials
+ * books it through the P&L, cash flow and balance sheet.
+ */
+
+export interface DeclaredSpending {
+  category: SpendingCategory
+  amount?: number   // dollars
+  cash_pct?: number // percent of opening cash
+}
+
+export const NO_DIRECT_SPENDING: DirectCashSpending = { opex: 0, capex: 0, capital_return: 0 }
+
+/**
+ * One-off spending stated in a declaration, if any
+ */
+export function detectCashSpending(declaration: string): DeclaredSpending | null {
+  const text = declaration.toLowerCase()
+  for (const pattern of SPENDING_PATTERNS) {
+    const groups = text.match(pattern)?.groups
+    if (!groups) continue
+    const target = groups.target ?? ''
+    const category = SPENDING_CATEGORIES.find(c => c.keywords.some(keyword => target.includes(keyword)))?.category
+    if (groups.value) {
+      if (!category) continue
+      return { category, amount: parseFloat(groups.value) * SPENDING_SCALES[groups.scale] }
+    }
+    return { category: category ?? DEFAULT_CASH_SHARE_CATEGORY, cash_pct: groups.pct ? parseFloat(groups.pct) : 100 }
+  }
+  return null
+}
+
+/**
+ * Dollars spent this turn by category. Capex or a capital return the `capex`, `dividend` or
+ * `buyback_pct` levers already declared is not counted twice.
+ */
+export function directSpending(declared: DeclaredSpending | null, openingCash: number, levers: Levers): DirectCashSpending {
+  if (!declared) return NO_DIRECT_SPENDING
+  if (declared.category === 'capex' && levers.capex) return NO_DIRECT_SPENDING
+  if (declared.category === 'capital_return' && (levers.dividend || levers.buyback_pct)) return NO_DIRECT_SPENDING
+  const amount = declared.amount ?? Math.max(0, openingCash) * (declared.cash_pct ?? 0) / 100
+  return { ...NO_DIRECT_SPENDING, [declared.category]: amount }
+}
+
+/**
+ * Reader-facing name of a spending category
+ */
+export function spendingLabel(category: SpendingCategory): string {
+  return SPENDING_CATEGORIES.find(c => c.category === category)!.label
+}
@@ -0,0 +1,165 @@
+import { State, StateSchema } from './contracts'
+import { STARTING_BALANCE } from './engine'
+import { STATE_SCHEMA_VERSION, syncStateViews } from './stateModel'
+import { computeRunway } from './runway'
+import { DEFAULT_PERIOD } from './calendar'
+import { SEASONALITY_CURVES, DEFAULT_SEASONALITY } from './rules/seasonality'
+import { DEFAULT_DIFFICULTY } from './rules/difficulty'
+import { DEFAULT_CREDIT_FACILITY, creditFacility } from './credit'
+import { initialEquity } from './equity'
+import { initialMarket } from './competitors'
+import { workforceOf } from './workforce'
+
+// Version 1 share was an index around 100-150; its midpoint maps onto the 8.4% prototype share
+const LEGACY_SHARE_INDEX_TO_PERCENT = 8.4 / 125
+
+export interface MigrationStep {
+  version: number      // schema version the step brings a state up to
+  description: string
+  migrate: (state: any) => any
+}
+
+/**
+ * One step per change to the persisted state shape, in version order. A state runs every step
+ * above its own schema_version; fields a step fills are the values the engine assumed while
+ * they were absent, so a migrated run plays on exactly as before.
+ */
+export const STATE_MIGRATIONS: MigrationStep[] = [
+  {
+    version: 2,
+    description: 'share re-denominated from a 100-150 index to a market share percentage',
+    migrate: state => ({ ...state, share: Math.round(state.share * LEGACY_SHARE_INDEX_TO_PERCENT * 100) / 100 })
+  },
+  {
+    version: 3,
+    description: 'cash runway derived from liquidity and trailing burn',
+    migrate: state => {
+      if (state.runway) return state
+      const runway = computeRunway({
+        cash: state.financials.balance.cash,
+        debt: state.financials.balance.debt,
+        credit_limit: creditFacility(state).limit,
+        flow_history: state.financials.flow_history ?? [],
+        period_days: 30
+      })
+      return { ...state, runway, cash_runway: runway.months }
+    }
+  },
+  {
+    version: 4,
+    description: 'monthly calendar and the run\'s seasonality curve',
+    migrate: state => ({
+      ...state,
+      period: state.period ?? DEFAULT_PERIOD,
+      seasonality: state.seasonality ?? [...SEASONALITY_CURVES[DEFAULT_SEASONALITY]]
+    })
+  },
+  {
+    version: 5,
+    description: 'queue of delayed effects',
+    migrate: state => ({ ...state, scheduled_effects: state.scheduled_effects ?? [] })
+  },
+  {
+    version: 6,
+    description: 'revolving credit facility',
+    migrate: state => ({
+      ...state,
+      credit_facility: state.credit_facility ?? { ...DEFAULT_CREDIT_FACILITY, covenants: { ...DEFAULT_CREDIT_FACILITY.covenants } }
+    })
+  },
+  {
+    version: 7,
+    description: 'share count and investor metrics',
+    migrate: state => ({ ...state, equity: state.equity ?? initialEquity(state.financials.balance, state.pnl) })
+  },
+  {
+    version: 8,
+    description: 'rival firms in the market',
+    migrate: state => ({ ...state, market: state.market ?? initialMarket() })
+  },
+  {
+    // Production capacity is a per-turn report; the next turn runs one shift without it
+    version: 9,
+    description: 'production shifts and capacity',
+    migrate: state => state
+  },
+  {
+    version: 10,
+    description: 'headcount by function, including headcount levers carried before it',
+    migrate: state => ({ ...state, workforce: workforceOf(state) })
+  },
+  {
+    version: 11,
+    description: 'event chains and pending event responses',
+    migrate: state => ({ ...state, open_chains: state.open_chains ?? [] })
+  },
+  {
+    version: 12,
+    description: 'difficulty preset',
+    migrate: state => ({ ...state, difficulty: state.difficulty ?? DEFAULT_DIFFICULTY })
+  }
+]
+
+/**
+ * Bring a state read from run.jsonl up to the current StateSchema.
+ * Older snapshots predate the carried balance sheet, so they open from the starting balance;
+ * then every migration step above the state's schema_version runs in order.
+ */
+export function migrateState(raw: any): State {
+  let migrated = { ...raw }
+
+  if (!migrated.financials?.balance) {
+    migrated.financials = { balance: { ...STARTING_BALANCE } }
+  }
+
+  const from = migrated.schema_version ?? 1
+  for (const step of STATE_MIGRATIONS) {
+    if (step.version > from && step.version <= STATE_SCHEMA_VERSION) migrated = step.migrate(migrated)
+  }
+
+  return syncStateViews(StateSchema.parse(migrated))
+}
+
+/**
+ * Migrate the states embedded in a run.jsonl entry (turn 0 snapshots and turn results).
+ * Throws when a state cannot be migrated; migrateRunLog skips and counts such entries.
+ */
+export function migrateLogEntry(entry: any): any {
+  if (entry?.type === 'snapshot' && entry.state) {
+    return { ...entry, state: migrateState(entry.state) }
+  }
+  if (entry?.type === 'turn_result' && entry.result) {
+    return {
+      ...entry,
+      result: {
+        ...entry.result,
+        state_before: migrateState(entry.result.state_before),
+        state_after: migrateState(entry.result.state_after)
+      }
+    }
+  }
+  return entry
+}
+
+export interface SkippedLogEntry {
+  line: number       // 1-based line in run.jsonl
+  run_id?: string
+  turn_no?: number
+  error: string
+}
+
+/**
+ * Migrate every run.jsonl entry, leaving out the ones that fail and reporting them instead
+ */
+export function migrateRunLog(entries: any[]): { entries: any[]; skipped: SkippedLogEntry[] } {
+  const migrated: any[] = []
+  const skipped: SkippedLogEntry[] = []
+  entries.forEach((entry, i) => {
+    try {
+      migrated.push(migrateLogEntry(entry))
+    } catch (error) {
+      skipped.push({ line: i + 1, run_id: entry?.runId, turn_no: entry?.turn_no, error: error instanceof Error ? error.message : String(error) })
+    }
+  })
+  return { entries: migrated, skipped }
+}
@@ -0,0 +1,170 @@
+import { State, StatePacket, StatePacketSchema, FinancialSnapshot } from './contracts'
+import type { KPIMetric, Turn } from './types'
+import { RUNWAY_CAP_MONTHS, runwayIntent } from './runway'
+
+/**
+ * Canonical company model.
+ * The top-level fields (morale, credibility, backlog, service, share, cash_runway) and the carried
+ * financials are the source of truth. `kpis`, `pnl` and `ceo_credibility` are views synced from them,
+ * so the evaluator packet, the prompts, the narrator and the UI all read the same numbers.
+ */
+
+// Version 1: legacy fields and prototype kpis/pnl diverged (share as a 100-150 index)
+// Version 2: top-level fields are canonical, share is a market share percentage
+// Versions 3-12 add persisted fields; stateMigrations.ts has one step per version
+export const STATE_SCHEMA_VERSION = 12
+
+// Canonical KPIs in display order, with their units
+export const CANONICAL_KPIS = [
+  { key: 'morale', label: 'Morale', unit: '/100' },
+  { key: 'credibility', label: 'Credibility', unit: '/100' },
+  { key: 'backlog', label: 'Backlog', unit: ' units' },
+  { key: 'service', label: 'Service', unit: '/100' },
+  { key: 'share', label: 'Market Share', unit: '%' },
+  { key: 'cash_runway', label: 'Cash Runway', unit: ' months' }
+] as const
+
+export type CanonicalKpi = typeof CANONICAL_KPIS[number]['key']
+
+// Anything carrying the canonical KPIs (State, StatePacket)
+type KpiSource = Pick<State, CanonicalKpi>
+
+const round = (x: number, dp: number) => Math.round(x * 10 ** dp) / 10 ** dp
+
+/**
+ * Monthly P&L view in $M from a financial snapshot
+ */
+export function pnlView(snapshot: FinancialSnapshot): NonNullable<State['pnl']> {
+  return {
+    revenue: snapshot.pnl.revenue / 1_000_000,
+    cogs: snapshot.pnl.cogs / 1_000_000,
+    gm_percent: snapshot.pnl.revenue > 0 ? (snapshot.pnl.gross_profit / snapshot.pnl.revenue) * 100 : 0,
+    opex: snapshot.pnl.opex / 1_000_000,
+    net: snapshot.pnl.net_income / 1_000_000,
+    cash: snapshot.balance.cash / 1_000_000
+  }
+}
+
+/**
+ * Re-derive the kpis/pnl/ceo_credibility views from the canonical fields.
+ * Without a financial snapshot yet (turn 0) the existing pnl view is kept, with cash from the balance.
+ */
+export function syncStateViews(state: State): State {
+  const synced: State = {
+    ...state,
+    schema_version: STATE_SCHEMA_VERSION,
+    kpis: {
+      share_percent: state.share,
+      service_nps: state.service,
+      morale: state.morale,
+      backlog_units: state.backlog
+    },
+    ceo_credibility: state.credibility
+  }
+
+  if (state.financials?.last_snapshot) {
+    synced.pnl = pnlView(state.financials.last_snapshot)
+  } else if (state.pnl && state.financials) {
+    synced.pnl = { ...state.pnl, cash: state.financials.balance.cash / 1_000_000 }
+  }
+
+  return synced
+}
+
+/**
+ * Value of a canonical KPI
+ */
+export function kpiValue(state: KpiSource, key: CanonicalKpi): number {
+  return state[key]
+}
+
+/**
+ * Human-readable canonical KPI, e.g. "Market Share: 8.4%"
+ */
+export function formatKpi(state: KpiSource, key: CanonicalKpi): string {
+  const kpi = CANONICAL_KPIS.find(k => k.key === key)!
+  if (key === 'cash_runway' && state.cash_runway >= RUNWAY_CAP_MONTHS) {
+    return `${kpi.label}: ${RUNWAY_CAP_MONTHS}+ months (not burning cash)`
+  }
+  return `${kpi.label}: ${round(kpiValue(state, key), 1)}${kpi.unit}`
+}
+
+/**
+ * Evaluator state packet from the canonical state
+ */
+export function toStatePacket(state: State): StatePacket {
+  const synced = syncStateViews(state)
+  return StatePacketSchema.parse({
+    turn_no: synced.turn_no,
+    period: synced.period,
+    seasonality: synced.seasonality,
+    pnl: synced.pnl,
+    kpis: synced.kpis,
+    event: synced.event,
+    morale: synced.morale,
+    credibility: synced.credibility,
+    backlog: synced.backlog,
+    service: synced.service,
+    share: synced.share,
+    cash_runway: synced.cash_runway,
+    runway: synced.runway,
+    flags: synced.flags,
+    pressures: synced.pressures,
+    headroom: synced.headroom,
+    recent_moves: synced.recent_moves,
+    tail_risk: synced.tail_risk,
+    shock_decay: synced.shock_decay,
+    reward_decay: synced.reward_decay,
+    ceo_credibility: synced.ceo_credibility,
+    active_shocks: synced.active_shocks,
+    active_rewards: synced.active_rewards,
+    levers: synced.levers,
+    scheduled_effects: synced.scheduled_effects,
+    open_chains: synced.open_chains,
+    pending_response: synced.pending_response,
+    covenants: synced.covenants,
+    equity: synced.equity,
+    market: synced.market,
+    capacity: synced.capacity,
+    workforce: synced.workforce,
+    notes: synced.notes
+  })
+}
+
+const UI_KEYS: Record<CanonicalKpi, KPIMetric['key']> = {
+  morale: 'morale',
+  credibility: 'credibility',
+  backlog: 'backlog',
+  service: 'service',
+  share: 'share',
+  cash_runway: 'cashRunway'
+}
+
+/**
+ * KPI cards for the frontend; deltas are against `before` when given.
+ * Cash runway turns amber/red below the warning/critical thresholds.
+ */
+export function toKpiMetrics(state: KpiSource, before?: KpiSource): KPIMetric[] {
+  return CANONICAL_KPIS.map(({ key, label }) => ({
+    key: UI_KEYS[key],
+    label,
+    value: kpiValue(state, key),
+    delta: before ? kpiValue(state, key) - kpiValue(before, key) : 0,
+    intent: key === 'cash_runway' ? runwayIntent(state.cash_runway) : 'good' as const
+  }))
+}
+
+/**
+ * Turn financials for the frontend in dollars, from the turn's snapshot
+ */
+export function toTurnFinancials(state: State): Turn['financials'] {
+  const snapshot = state.financials?.last_snapshot
+  if (!snapshot) return undefined
+  return {
+    revenue: snapshot.pnl.revenue,
+    cogs: snapshot.pnl.cogs,
+    opex: snapshot.pnl.opex,
+    ebit: snapshot.pnl.ebit,
+    cash: snapshot.balance.cash
+  }
+}
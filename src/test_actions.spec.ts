@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest'
+import { Engine, STARTING_BALANCE } from './engine'
+import { Evaluator } from './evaluator'
+import { resolveActions, describeActions, ActionContext } from './actions'
+import { extractLevers, LEVER_BOUNDS } from './levers'
+import { toStatePacket } from './stateModel'
+import { State, Action, RngEvent, TurnRequestSchema } from './contracts'
+
+describe('Structured Actions', () => {
+  const engine = new Engine()
+  const evaluator = new Evaluator()
+  const baseState: State = engine.createInitialState('actions-seed', { seasonality: 'flat' })
+  const rngEvent: RngEvent = engine.generateRngEvent(baseState, 0)
+
+  const ctx: ActionContext = {
+    standing: {},
+    balance: { ...STARTING_BALANCE, debt: 200_000 },
+    credit_limit: 1_000_000,
+    min_cash_buffer: 250_000,
+    base_price: 100
+  }
+
+  const actionTurn = (state: State, actions: Action[]) =>
+    engine.resolveTurn(state, describeActions(actions), evaluator.evaluateActions(toStatePacket(state), rngEvent, actions), rngEvent, actions)
+
+  it('should convert lever actions and clip them to the lever bounds', () => {
+    const { levers, results } = resolveActions([
+      { type: 'set_price', price: 110 },
+      { type: 'change_opex', pct: -10 },
+      { type: 'hire', count: 80 }
+    ], ctx)
+
+    expect(levers.price_pct).toBeCloseTo(10, 6)
+    expect(levers.opex_pct).toBe(-10)
+    expect(levers.headcount).toBe(LEVER_BOUNDS.headcount.max)
+    expect(results.map(r => r.status)).toEqual(['applied', 'applied', 'clipped'])
+  })
+
+  it('should validate financing against credit headroom, debt and cash above the buffer', () => {
+    const { financing, results } = resolveActions([
+      { type: 'draw_debt', amount: 1_500_000 },
+      { type: 'repay_debt', amount: 50_000 },
+      { type: 'pay_dividend', amount: 5_000_000 }
+    ], { ...ctx, balance: { ...ctx.balance, debt: 1_000_000 } })
+
+    expect(financing.draw).toBe(0)
+    expect(results[0]).toMatchObject({ status: 'rejected', reason: 'limited by undrawn credit' })
+    expect(financing.repay).toBe(50_000)
+    // 1.0M cash - 50k repaid - 250k buffer
+    expect(financing.dividend).toBe(700_000)
+    expect(results[2].status).toBe('clipped')
+  })
+
+  it('should resolve action-only turns deterministically without an LLM', () => {
+    const actions: Action[] = [{ type: 'change_opex', pct: -10 }, { type: 'pay_dividend', amount: 200_000 }]
+    const a = actionTurn(baseState, actions)
+    const b = actionTurn(baseState, actions)
+
+    expect(b).toEqual(a)
+    expect(a.declaration).toBe('Actions: OpEx -10%; pay dividend $200k')
+    expect(a.levers.declared).toEqual({ opex_pct: -10 })
+    expect(a.actions.map(r => r.status)).toEqual(['applied', 'applied'])
+    expect(a.explainers.finance).toContain('Financing actions: dividend -$200k')
+    expect(a.financials.balance_ok).toBe(true)
+    expect(a.financials.cash_recon_ok).toBe(true)
+    const opexOnly = actionTurn(baseState, [actions[0]])
+    expect(opexOnly.financials.balance.retained_earnings - a.financials.balance.retained_earnings).toBeCloseTo(200_000, 0)
+  })
+
+  it('should let actions override the levers read from the declaration', () => {
+    const declaration = 'Cut OpEx by 10% and raise prices by 5%'
+    const evaluation = { ...evaluator.evaluateActions(toStatePacket(baseState), rngEvent, []), levers: extractLevers(declaration) }
+    const result = engine.resolveTurn(baseState, declaration, evaluation, rngEvent, [{ type: 'change_opex', pct: -5 }])
+
+    expect(result.levers.declared).toEqual({ opex_pct: -5, price_pct: 5 })
+  })
+
+  it('should require a declaration or at least one action', () => {
+    expect(TurnRequestSchema.safeParse({ runId: 'r', declaration: '  ' }).success).toBe(false)
+    expect(TurnRequestSchema.safeParse({ runId: 'r', actions: [{ type: 'hire', count: 3 }] }).success).toBe(true)
+    expect(TurnRequestSchema.safeParse({ runId: 'r', actions: [{ type: 'hire', count: 2.5 }] }).success).toBe(false)
+  })
+})
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import { Engine } from './engine'
+import { advancePeriod, parsePeriod, seasonalDemand, describePeriod } from './calendar'
+import { SEASONALITY_CURVES } from './rules/seasonality'
+import { EvaluatorOutput, State } from './contracts'
+
+describe('Calendar and Seasonality', () => {
+  const engine = new Engine()
+
+  const neutral: EvaluatorOutput = {
+    assessment: { intent: [], targets: [], tone: 'neutral', fit_reasons: [] },
+    signals: {
+      morale: { dir: 'none', strength: 0 },
+      credibility: { dir: 'none', strength: 0 },
+      backlog_pressure: { dir: 'none', strength: 0 },
+      service_risk: { dir: 'none', strength: 0 }
+    },
+    event: { roll: 50, event_type: 'none', impact_channels: {}, severity_note: '' },
+    integrated: { synergy: 'neutral', narrative_hook: '' },
+    penalties: { nonsense_penalty: 0 },
+    policy: { oob: false, violations: [] },
+    rationale: ''
+  }
+
+  it('should advance periods across the year end', () => {
+    expect(advancePeriod('Sep 2025')).toBe('Oct 2025')
+    expect(advancePeriod('Dec 2025')).toBe('Jan 2026')
+    expect(parsePeriod('May 2026')).toEqual({ period: 'May 2026', month: 4, year: 2026, season: 'spring' })
+    expect(parsePeriod('not a period').period).toBe('Sep 2025')
+  })
+
+  it('should keep each curve averaging one', () => {
+    for (const curve of Object.values(SEASONALITY_CURVES)) {
+      expect(curve).toHaveLength(12)
+      expect(curve.reduce((sum, m) => sum + m, 0) / 12).toBeCloseTo(1, 6)
+    }
+  })
+
+  it('should advance the period each turn and scale units by the season', () => {
+    const state = engine.createInitialState('calendar-seed')
+    const result = engine.resolveTurn(state, 'Hold the course', neutral)
+
+    expect(result.state_after.period).toBe('Apr 2026')
+    expect(result.explainers.finance).toContain('Mar 2026 spring demand: units x0.90')
+
+    const may = engine.resolveTurn({ ...state, period: 'May 2026' }, 'Hold the course', neutral)
+    // Peak orders outrun the floor: what ships (and so revenue) is held to capacity
+    expect(may.capacity.demand_units).toBeGreaterThan(result.capacity.demand_units * 1.5)
+    expect(may.financials.pnl.revenue).toBeGreaterThan(result.financials.pnl.revenue)
+    expect(may.capacity.shipped_units).toBeCloseTo(may.capacity.capacity_units, 0)
+  })
+
+  it('should let weather pressure amplify or dampen the peak season', () => {
+    const state = engine.createInitialState('calendar-seed')
+    const peak: State = { ...state, period: 'May 2026' }
+    const calm = seasonalDemand({ ...peak, flags: { ...peak.flags, weather: 0 } })
+    const normal = seasonalDemand(peak)
+    const stormy = seasonalDemand({ ...peak, flags: { ...peak.flags, weather: 0.4 } })
+    const winter = seasonalDemand({ ...state, period: 'Jan 2026', flags: { ...state.flags, weather: 0.4 } })
+
+    expect(normal.factor).toBeCloseTo(1.7, 6)
+    expect(calm.factor).toBeGreaterThan(normal.factor)
+    expect(stormy.factor).toBeLessThan(normal.factor)
+    expect(stormy.factor).toBeGreaterThanOrEqual(1)
+    expect(winter.factor).toBe(0.5)
+  })
+
+  it('should support a flat curve per run', () => {
+    const state = engine.createInitialState('calendar-seed', { seasonality: 'flat' })
+    const result = engine.resolveTurn({ ...state, period: 'May 2026' }, 'Hold the course', neutral)
+
+    expect(describePeriod(state)).toBe('Mar 2026 (spring, seasonal demand x1.00)')
+    expect(result.explainers.finance.some(e => e.includes('demand: units'))).toBe(false)
+  })
+})
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest'
+import { Engine } from './engine'
+import { extractLevers } from './levers'
+import {
+  UNITS_PER_HEAD, EXTRA_SHIFT_OUTPUT, MAX_SHIFTS, SHIFT_MONTHLY_COST,
+  OVERTIME_UNIT_PREMIUM, TEMP_CAPACITY_PCT, TEMP_UNIT_PREMIUM, NORMAL_BACKLOG, resolveShifts, runProduction
+} from './capacity'
+import { WORKFORCE_FUNCTIONS } from './rules/workforce'
+import { Capacity, EvaluatorOutput, State } from './contracts'
+
+describe('Capacity and Backlog', () => {
+  const BASE_PRODUCTION_HEADS = WORKFORCE_FUNCTIONS.find(f => f.id === 'assembly')!.heads
+  const straightTime = BASE_PRODUCTION_HEADS * UNITS_PER_HEAD
+  const noHeadroom = { ot_pct: 0, temps_allowed: false }
+
+  it('should read shift changes and their duration from a declaration', () => {
+    expect(extractLevers('Add second shift in Assembly for 8 weeks to clear backlog.')).toEqual({ shifts: 1, shift_weeks: 8 })
+    expect(extractLevers('Add 2 shifts at the plant')).toEqual({ shifts: 2 })
+    expect(extractLevers('Drop the night shift')).toEqual({ shifts: -1 })
+  })
+
+  it('should run a temporary shift for its weeks, then fall back to one shift', () => {
+    const run = (prev: Capacity | undefined, shifts: ReturnType<typeof resolveShifts>) =>
+      runProduction({ ...shifts, headcount: BASE_PRODUCTION_HEADS, headroom: noHeadroom, demand: 10_000, backlog: NORMAL_BACKLOG }).capacity
+
+    // 8 weeks is two monthly turns
+    const first = run(undefined, resolveShifts(undefined, { shifts: 1, shift_weeks: 8 }))
+    expect(first).toMatchObject({ shifts: 2, shift_turns_left: 1 })
+    const second = run(first, resolveShifts(first, {}))
+    expect(second).toMatchObject({ shifts: 2, shift_turns_left: 0 })
+    expect(resolveShifts(second, {})).toEqual({ shifts: 1, shift_turns_left: null })
+
+    // Open-ended shifts stay until dropped, within MAX_SHIFTS
+    const standing = run(undefined, resolveShifts(undefined, { shifts: 5 }))
+    expect(standing).toMatchObject({ shifts: MAX_SHIFTS, shift_turns_left: null })
+    expect(resolveShifts(standing, {})).toEqual({ shifts: MAX_SHIFTS, shift_turns_left: null })
+    expect(resolveShifts(standing, { shifts: -1 })).toEqual({ shifts: MAX_SHIFTS - 1, shift_turns_left: null })
+  })
+
+  it('should ship orders up to capacity, using overtime before temps, and carry the rest as backlog', () => {
+    const headroom = { ot_pct: 10, temps_allowed: true }
+    const base = { shifts: 1, shift_turns_left: null, headcount: BASE_PRODUCTION_HEADS, headroom }
+
+    // 1,000 overdue units on top of 11,000 new orders: 11,000 straight time, 1,000 overtime
+    const busy = runProduction({ ...base, demand: 11_000, backlog: NORMAL_BACKLOG + 1_000 })
+    expect(busy.capacity.shipped_units).toBe(12_000)
+    expect(busy.capacity.overtime_units).toBeCloseTo(1_000, 6)
+    expect(busy.capacity.temp_units).toBe(0)
+    expect(busy.capacity.cost).toBeCloseTo(1_000 * OVERTIME_UNIT_PREMIUM, 6)
+    expect(busy.backlog).toBe(NORMAL_BACKLOG)
+
+    // Peak orders beyond every flex source pile up
+    const peak = runProduction({ ...base, demand: 17_000, backlog: NORMAL_BACKLOG })
+    const capacity = straightTime * (1 + 0.10 + TEMP_CAPACITY_PCT / 100)
+    expect(peak.capacity.capacity_units).toBeCloseTo(capacity, 6)
+    expect(peak.capacity.shipped_units).toBe(Math.round(capacity))
+    expect(peak.capacity.temp_units).toBeCloseTo(straightTime * TEMP_CAPACITY_PCT / 100, 0)
+    expect(peak.capacity.cost).toBeCloseTo(straightTime * 0.10 * OVERTIME_UNIT_PREMIUM + peak.capacity.temp_units * TEMP_UNIT_PREMIUM, 6)
+    expect(peak.backlog).toBe(NORMAL_BACKLOG + 17_000 - Math.round(capacity))
+  })
+
+  it('should add output for every head and extra shift', () => {
+    const demand = 30_000
+    const ofShifts = (shifts: number, headcount = BASE_PRODUCTION_HEADS) =>
+      runProduction({ shifts, shift_turns_left: null, headcount, headroom: noHeadroom, demand, backlog: 0 }).capacity
+
+    expect(ofShifts(1).shipped_units).toBe(straightTime)
+    expect(ofShifts(1, BASE_PRODUCTION_HEADS + 10).shipped_units).toBe(straightTime + 10 * UNITS_PER_HEAD)
+    expect(ofShifts(2).shipped_units).toBeCloseTo(straightTime * (1 + EXTRA_SHIFT_OUTPUT), 0)
+    expect(ofShifts(2).cost).toBe(SHIFT_MONTHLY_COST)
+    expect(ofShifts(1).utilization).toBe(1)
+  })
+
+  it('should tie units sold, backlog and service to production each turn', () => {
+    const engine = new Engine()
+    const initial = engine.createInitialState('capacity-seed', { seasonality: 'flat' })
+    const baseState: State = { ...initial, backlog: 20_000, headroom: noHeadroom }
+    const evaluation: EvaluatorOutput = {
+      assessment: { intent: ['test'], targets: ['test'], tone: 'neutral', fit_reasons: ['test'] },
+      signals: {
+        morale: { dir: 'none', strength: 0 },
+        credibility: { dir: 'none', strength: 0 },
+        backlog_pressure: { dir: 'none', strength: 0 },
+        service_risk: { dir: 'none', strength: 0 }
+      },
+      event: { roll: 50, event_type: 'none', impact_channels: {}, severity_note: 'No event' },
+      integrated: { synergy: 'neutral', narrative_hook: 'Test' },
+      penalties: { nonsense_penalty: 0 },
+      policy: { oob: false, violations: [] },
+      rationale: 'Test'
+    }
+
+    const hold = engine.resolveTurn(baseState, 'Hold steady', evaluation)
+    // Attrition leaves the floor a little short of its baseline heads
+    const floor = Math.round(hold.capacity.regular_units)
+    expect(hold.capacity.headcount).toBeLessThan(BASE_PRODUCTION_HEADS)
+    expect(floor).toBe(Math.round(hold.capacity.headcount * UNITS_PER_HEAD))
+    expect(hold.capacity.demand_units).toBe(10_000)
+    expect(hold.capacity.shipped_units).toBe(floor)
+    expect(hold.state_after.backlog).toBe(20_000 + 10_000 - floor)
+    // The backlog flow is not limited by the per-turn backlog cap
+    expect(hold.applied_deltas.backlog).toBe(10_000 - floor)
+    expect(hold.applied_deltas.service).toBeLessThan(0)
+    expect(hold.state_after.capacity).toEqual(hold.capacity)
+
+    const shift = engine.resolveTurn(baseState, 'Add second shift for 8 weeks', { ...evaluation, levers: { shifts: 1, shift_weeks: 8 } })
+    expect(shift.capacity.shifts).toBe(2)
+    expect(shift.state_after.backlog).toBeLessThan(hold.state_after.backlog)
+    expect(shift.financials.pnl.revenue).toBeGreaterThan(hold.financials.pnl.revenue)
+    expect(shift.explainers.finance).toContain('Capacity premiums: COGS +$90k')
+  })
+})
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import { Engine } from './engine'
+import { BASE_SHARE, REFERENCE_PRICE, REFERENCE_SERVICE, SHARE_ADJUSTMENT, advanceMarket, initialMarket, ourAvailability } from './competitors'
+import { NORMAL_BACKLOG } from './capacity'
+import { COMPETITORS } from './rules/competitors'
+import { EvaluatorOutput, State } from './contracts'
+
+describe('Competitors', () => {
+  const steady = { price: REFERENCE_PRICE, service: REFERENCE_SERVICE, backlog: NORMAL_BACKLOG }
+  const rival = (market: ReturnType<typeof initialMarket>, id: string) => market.rivals.find(r => r.id === id)!
+
+  it('should hold every firm at its base share at the reference price and service', () => {
+    const market = advanceMarket(initialMarket(), steady)
+
+    expect(market.model_share).toBeCloseTo(BASE_SHARE, 6)
+    for (const spec of COMPETITORS) {
+      expect(rival(market, spec.id).share).toBeCloseTo(spec.base_share, 6)
+      expect(rival(market, spec.id).price).toBeCloseTo(spec.base_price, 6)
+    }
+    expect(market.moves).toEqual([])
+  })
+
+  it('should draw rival price cuts when we cut, and still win share', () => {
+    const market = advanceMarket(initialMarket(), { ...steady, price: 90 })
+
+    // MowMax follows 60% of our 10% cut
+    expect(rival(market, 'mowmax').price).toBeCloseTo(85 * 0.94, 6)
+    expect(rival(market, 'verdant').price).toBeCloseTo(130 * 0.98, 6)
+    expect(market.moves).toContain('MowMax cuts prices 6% to $80')
+    expect(market.model_share).toBeGreaterThan(BASE_SHARE)
+  })
+
+  it('should promote once after losing share, not on consecutive turns', () => {
+    let market = initialMarket()
+    const mowmax = rival(market, 'mowmax')
+    mowmax.share = 20
+
+    market = advanceMarket(market, steady)
+    expect(rival(market, 'mowmax').promo).toBe(true)
+    expect(rival(market, 'mowmax').price).toBeCloseTo(85 * 0.9, 6)
+    expect(market.moves).toContain('MowMax promotes at 10% off to win back share')
+
+    rival(market, 'mowmax').share = 20
+    market = advanceMarket(market, steady)
+    expect(rival(market, 'mowmax').promo).toBe(false)
+    // Ending the promotion restores the list price without counting as a price rise
+    expect(rival(market, 'mowmax').price).toBeCloseTo(85, 6)
+    expect(market.moves.filter(move => move.startsWith('MowMax'))).toEqual([])
+  })
+
+  it('should cost us share when backlog limits availability, and cap rivals at capacity', () => {
+    expect(ourAvailability(NORMAL_BACKLOG)).toBe(1)
+    expect(ourAvailability(NORMAL_BACKLOG + 12_000)).toBeCloseTo(0.5, 6)
+    expect(ourAvailability(1_000_000)).toBe(0.5)
+
+    const backlogged = advanceMarket(initialMarket(), { ...steady, backlog: 30_000 })
+    expect(backlogged.model_share).toBeLessThan(BASE_SHARE * 0.6)
+
+    // A deep cut with no service pushes demand to MowMax beyond what it can serve
+    const stretched = advanceMarket(initialMarket(), { price: 60, service: 0, backlog: 100_000 })
+    expect(rival(stretched, 'mowmax').share).toBeCloseTo(32, 6)
+    expect(rival(stretched, 'mowmax').availability).toBeLessThan(1)
+    expect(stretched.moves).toContain('MowMax runs short of capacity')
+  })
+
+  it('should move share toward the model share and report the market each turn', () => {
+    const engine = new Engine()
+    const baseState: State = engine.createInitialState('competitor-seed', { seasonality: 'flat' })
+    const evaluation: EvaluatorOutput = {
+      assessment: { intent: ['test'], targets: ['test'], tone: 'neutral', fit_reasons: ['test'] },
+      signals: {
+        morale: { dir: 'none', strength: 0 },
+        credibility: { dir: 'none', strength: 0 },
+        backlog_pressure: { dir: 'none', strength: 0 },
+        service_risk: { dir: 'none', strength: 0 }
+      },
+      event: { roll: 50, event_type: 'none', impact_channels: {}, severity_note: 'No event' },
+      integrated: { synergy: 'neutral', narrative_hook: 'Test' },
+      penalties: { nonsense_penalty: 0 },
+      policy: { oob: false, violations: [] },
+      rationale: 'Test'
+    }
+
+    const result = engine.resolveTurn(baseState, 'Cut prices 10%', evaluation, undefined, [{ type: 'change_price', pct: -10 }])
+
+    expect(result.market.rivals).toHaveLength(COMPETITORS.length)
+    expect(result.state_after.market).toEqual(result.market)
+    expect(result.explainers.finance.some(line => line.startsWith('Rivals: MowMax cuts prices'))).toBe(true)
+    const gap = result.market.model_share - baseState.share
+    expect(result.deltas.share).toBeCloseTo(SHARE_ADJUSTMENT * gap, 6)
+    expect(result.state_after.share).toBeGreaterThan(baseState.share)
+  })
+})
@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest'
+import { computeFinancials } from './finance'
+import { DEFAULT_CREDIT_FACILITY, MAX_REPORTED_LEVERAGE, applyCreditEvents, testCovenants } from './credit'
+import { Engine } from './engine'
+import { EvaluatorOutput, FinancialDrivers, FinancialParams, MiniBalanceSheet, RngEvent, State } from './contracts'
+
+describe('Credit Facility', () => {
+  // Balanced, steady-state working capital (assets 4.2M) so no plug or working-capital swing
+  const balance: MiniBalanceSheet = {
+    cash: 300_000,
+    ar: 1_000_000,
+    inventory: 900_000,
+    ppe: 2_000_000,
+    ap: 600_000,
+    debt: 800_000,
+    retained_earnings: 1_350_000,
+    other_equity: 1_450_000
+  }
+
+  const drivers: FinancialDrivers = {
+    units_sold: 10_000,
+    avg_price: 100,
+    unit_cost: 60,
+    opex_base: 300_000,
+    capex_base: 50_000,
+    dso: 30,
+    dpo: 30,
+    dio: 45
+  }
+
+  const params: FinancialParams = {
+    period_days: 30,
+    min_cash_buffer: 250_000,
+    depreciation_life_years: 5,
+    price_to_units: 0,
+    morale_to_units: 0,
+    credibility_to_price: 0,
+    scrap_rate: 0
+  }
+
+  it('should stop buffer draws at the revolver limit and leave the shortfall in payables', () => {
+    const loss = { ...drivers, opex_base: 900_000 }
+    const result = computeFinancials({ prev_balance: balance, drivers: loss, params, credit_limit: 1_000_000 })
+
+    expect(result.balance.debt).toBe(1_000_000)
+    expect(result.balance.cash).toBeCloseTo(0, 6)
+    expect(result.notes).toContain('Revolver limit reached; cash buffer not restored.')
+    expect(result.notes).toContain('Cash exhausted; shortfall left in payables.')
+    expect(result.balance_ok).toBe(true)
+    expect(result.cash_recon_ok).toBe(true)
+
+    const unlimited = computeFinancials({ prev_balance: balance, drivers: loss, params })
+    expect(unlimited.balance.cash).toBeCloseTo(params.min_cash_buffer, 6)
+    expect(unlimited.balance.debt).toBeGreaterThan(1_000_000)
+  })
+
+  it('should sweep cash above the buffer into debt when auto-repaying', () => {
+    const flush = { ...balance, cash: 1_000_000, ppe: 1_300_000 }
+    const result = computeFinancials({ prev_balance: flush, drivers, params, policy: { dividend: false, repay_debt: true } })
+    const held = computeFinancials({ prev_balance: flush, drivers, params })
+
+    expect(result.notes).toContain('Repaid debt from cash above the buffer.')
+    expect(held.balance.debt - result.balance.debt).toBeCloseTo(held.balance.cash - result.balance.cash, 6)
+    expect(result.balance.cash).toBeGreaterThanOrEqual(params.min_cash_buffer)
+    expect(result.balance_ok).toBe(true)
+    expect(result.cash_recon_ok).toBe(true)
+  })
+
+  it('should test leverage, interest cover and liquidity against the covenants', () => {
+    const loss = computeFinancials({ prev_balance: balance, drivers: { ...drivers, opex_base: 900_000 }, params: { ...params, interest_rate: 0.1 }, credit_limit: 1_000_000 })
+    const test = testCovenants(loss, DEFAULT_CREDIT_FACILITY)
+
+    expect(test.leverage).toBe(MAX_REPORTED_LEVERAGE)
+    expect(test.interest_cover).toBeLessThan(0)
+    expect(test.liquidity).toBeCloseTo(0, 6)
+    expect(test.breaches).toEqual(['leverage', 'interest_cover', 'liquidity'])
+
+    const debtFree = computeFinancials({ prev_balance: { ...balance, debt: 0, cash: 1_100_000 }, drivers, params })
+    expect(testCovenants(debtFree, DEFAULT_CREDIT_FACILITY)).toMatchObject({ leverage: null, interest_cover: null, breaches: [] })
+  })
+
+  it('should move the revolver limit with credit events', () => {
+    const shock: RngEvent = {
+      roll: 95,
+      event_type: 'credit_tightening',
+      tier: '3',
+      name: 'Credit line cap reduced',
+      effects: { revenue_delta: 0, cogs_delta: 0, opex_delta: 0, cash_delta: 0, share_delta: 0, nps_delta: 0, morale_delta: 0, backlog_delta: 0, notes: '', credit_limit_delta: -0.4 }
+    }
+    const cut = applyCreditEvents(DEFAULT_CREDIT_FACILITY, shock)
+
+    expect(cut.change).toBe(-400_000)
+    expect(cut.facility.limit).toBe(DEFAULT_CREDIT_FACILITY.limit - 400_000)
+    expect(applyCreditEvents(DEFAULT_CREDIT_FACILITY, { roll: 50, event_type: 'none' }).facility).toEqual(DEFAULT_CREDIT_FACILITY)
+  })
+
+  it('should raise finance pressure and cost credibility when a covenant is breached', () => {
+    const engine = new Engine()
+    const neutralEvaluation: EvaluatorOutput = {
+      assessment: { intent: ['test'], targets: ['test'], tone: 'neutral', fit_reasons: ['test'] },
+      signals: {
+        morale: { dir: 'none', strength: 0 },
+        credibility: { dir: 'none', strength: 0 },
+        backlog_pressure: { dir: 'none', strength: 0 },
+        service_risk: { dir: 'none', strength: 0 }
+      },
+      event: { roll: 50, event_type: 'none', impact_channels: {}, severity_note: 'No event' },
+      integrated: { synergy: 'neutral', narrative_hook: 'Test' },
+      penalties: { nonsense_penalty: 0 },
+      policy: { oob: false, violations: [] },
+      rationale: 'Test'
+    }
+    const baseState: State = engine.createInitialState('credit-seed', { seasonality: 'flat' })
+    const strict: State = {
+      ...baseState,
+      credit_facility: { ...DEFAULT_CREDIT_FACILITY, covenants: { ...DEFAULT_CREDIT_FACILITY.covenants, min_liquidity: 10_000_000 } }
+    }
+
+    const control = engine.resolveTurn(baseState, 'Hold steady', neutralEvaluation)
+    const breached = engine.resolveTurn(strict, 'Hold steady', neutralEvaluation)
+
+    expect(control.covenants.breaches).not.toContain('liquidity')
+    expect(breached.covenants.breaches).toContain('liquidity')
+    expect(breached.state_after.flags.finance).toBeGreaterThan(control.state_after.flags.finance)
+    expect(breached.state_after.credibility).toBeLessThan(control.state_after.credibility)
+    expect(breached.explainers.finance.some(e => e.startsWith('Covenant breach:'))).toBe(true)
+    expect(breached.state_after.covenants).toEqual(breached.covenants)
+  })
+})
@@ -1,12 +1,12 @@
 import { describe, it, expect } from 'vitest'
 import { Engine } from './engine'
 import { Evaluator } from './evaluator'
-import { State, StatePacket, Caps, RngEvent } from './contracts'
+import { State, StatePacket, Caps, CapsSchema, RngEvent } from './contracts'
 
 describe('Determinism', () => {
   const engine = new Engine()
   const evaluator = new Evaluator()
-  const caps: Caps = { morale: 3.0, credibility: 2.0, service_risk: 0.6, backlog_pressure: 1.0 }
+  const caps: Caps = CapsSchema.parse({ morale: 3.0, credibility: 2.0, service_risk: 0.6, backlog_pressure: 1.0 })
 
   it('should produce identical results for identical inputs', async () => {
     const seed = 'test-seed-123'
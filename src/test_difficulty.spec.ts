@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import { Engine, STARTING_BALANCE } from './engine'
+import { DIFFICULTY_PRESETS } from './rules/difficulty'
+import { EvaluatorOutput, MiniBalanceSheet, NewRunRequestSchema, RunSchema, State } from './contracts'
+
+describe('Difficulty Presets', () => {
+  const engine = new Engine()
+  const imbalance = (b: MiniBalanceSheet) => b.cash + b.ar + b.inventory + b.ppe - b.ap - b.debt - b.retained_earnings - b.other_equity
+  const tiers = (difficulty: 'sandbox' | 'standard' | 'brutal') => {
+    const counts = { shocks: 0, rewards: 0 }
+    for (let i = 0; i < 300; i++) {
+      const event = engine.generateEnhancedRngEvent(engine.createInitialState(`difficulty-${i}`, { difficulty }), 0)
+      if (parseInt(event.tier!) >= 2) counts.shocks++
+      if (parseInt(event.reward!.tier) >= 1) counts.rewards++
+    }
+    return counts
+  }
+
+  it('should play the classic game on standard and for states without a preset', () => {
+    const standard = engine.createInitialState('classic', { difficulty: 'standard' })
+    expect(standard.difficulty).toBe('standard')
+    expect(engine.createInitialState('classic').difficulty).toBe('standard')
+    expect(standard.financials!.balance).toEqual(STARTING_BALANCE)
+
+    const legacy: State = { ...standard, difficulty: undefined }
+    for (let turn = 0; turn < 10; turn++) {
+      expect(engine.generateEnhancedRngEvent(legacy, turn)).toEqual(engine.generateEnhancedRngEvent(standard, turn))
+    }
+    expect(engine.getCaps(legacy)).toEqual(engine.getCaps())
+  })
+
+  it('should open each preset from its own balanced sheet and start month', () => {
+    const sandbox = engine.createInitialState('sheet', { difficulty: 'sandbox' }).financials!.balance
+    const brutal = engine.createInitialState('sheet', { difficulty: 'brutal' }).financials!.balance
+
+    expect(sandbox.cash).toBe(1_500_000)
+    expect(brutal).toMatchObject({ cash: 600_000, debt: 200_000 })
+    expect(imbalance(sandbox)).toBeCloseTo(0)
+    expect(imbalance(brutal)).toBeCloseTo(0)
+    expect(engine.createInitialState('sheet', { difficulty: 'brutal' }).pnl!.cash).toBeCloseTo(0.6)
+    expect(engine.createInitialState('sheet', { difficulty: 'standard' }).period).toBe('Mar 2026')
+    expect(engine.createInitialState('sheet', { difficulty: 'brutal' }).period).toBe('Sep 2025')
+  })
+
+  it('should make big shocks commoner and rewards rarer as difficulty rises', () => {
+    const sandbox = tiers('sandbox')
+    const standard = tiers('standard')
+    const brutal = tiers('brutal')
+
+    expect(sandbox.shocks).toBeLessThan(standard.shocks)
+    expect(standard.shocks).toBeLessThan(brutal.shocks)
+    expect(sandbox.rewards).toBeGreaterThan(standard.rewards)
+    expect(standard.rewards).toBeGreaterThan(brutal.rewards)
+  })
+
+  it('should apply the preset caps to the turn', () => {
+    const evaluation: EvaluatorOutput = {
+      assessment: { intent: ['test'], targets: ['test'], tone: 'decisive', fit_reasons: ['test'] },
+      signals: {
+        morale: { dir: 'none', strength: 0 },
+        credibility: { dir: 'up', strength: 1 },
+        backlog_pressure: { dir: 'none', strength: 0 },
+        service_risk: { dir: 'none', strength: 0 }
+      },
+      event: { roll: 50, event_type: 'none', impact_channels: {}, severity_note: 'No event' },
+      integrated: { synergy: 'neutral', narrative_hook: 'Test' },
+      penalties: { nonsense_penalty: 0 },
+      policy: { oob: false, violations: [] },
+      rationale: 'Test'
+    }
+    const credibilityGain = (difficulty: 'sandbox' | 'standard' | 'brutal') => {
+      const state = { ...engine.createInitialState('caps', { difficulty }), credibility: 50 }
+      return engine.resolveTurn(state, 'Deliver on every promise', evaluation).applied_deltas.credibility
+    }
+
+    expect(credibilityGain('sandbox')).toBeCloseTo(DIFFICULTY_PRESETS.sandbox.caps.credibility)
+    expect(credibilityGain('standard')).toBeCloseTo(engine.getCaps().credibility)
+    expect(credibilityGain('brutal')).toBeCloseTo(DIFFICULTY_PRESETS.brutal.caps.credibility)
+    expect(engine.getCaps(engine.createInitialState('caps', { difficulty: 'brutal' })).morale).toBe(2.0)
+  })
+
+  it('should store the preset on the run and reject unknown names', () => {
+    expect(RunSchema.parse({ id: 'run', seed: 'seed', created_at: 0 }).difficulty).toBe('standard')
+    expect(NewRunRequestSchema.parse({ difficulty: 'brutal' }).difficulty).toBe('brutal')
+    expect(() => NewRunRequestSchema.parse({ difficulty: 'nightmare' })).toThrow()
+  })
+})
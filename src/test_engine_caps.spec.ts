@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest'
 import { Engine } from './engine'
-import { State, EvaluatorOutput } from './contracts'
+import { State, EvaluatorOutput, DEFAULT_CAPS, DEFAULT_KPI_BOUNDS } from './contracts'
 
 describe('Engine Caps', () => {
   const engine = new Engine()
@@ -226,4 +226,84 @@ describe('Engine Caps', () => {
     expect(result.state_after.morale).toBeLessThan(state.morale)
     expect(result.state_after.credibility).toBeLessThan(state.credibility)
   })
+
+  describe('dedicated caps and bounds', () => {
+    const baseState: State = {
+      turn_no: 1,
+      event: { category: 'market', tier: 'medium' },
+      morale: 50,
+      credibility: 60,
+      backlog: 1000,
+      service: 80,
+      share: 8.4,
+      cash_runway: 12,
+      flags: {
+        supply_fragile: false, labor_tense: false, quality_watch: false, tail_risk: false,
+        supply: 0.1, labor: 0.05, quality: 0.0, competition: 0.1, finance: 0.0, regulation: 0.0, tech: 0.05, weather: 0.05
+      },
+      pressures: { margin_push: false },
+      headroom: { ot_pct: 0, temps_allowed: false },
+      recent_moves: []
+    }
+
+    const evaluatorOutput = (dir: 'up' | 'down'): EvaluatorOutput => ({
+      assessment: { intent: [], targets: [], tone: 'decisive', fit_reasons: [] },
+      signals: {
+        morale: { dir, strength: 1.0 },
+        credibility: { dir, strength: 1.0 },
+        backlog_pressure: { dir, strength: 1.0 },
+        service_risk: { dir, strength: 1.0 }
+      },
+      event: { roll: 50, event_type: 'none', impact_channels: {}, severity_note: '' },
+      integrated: { synergy: 'neutral', narrative_hook: '' },
+      penalties: { nonsense_penalty: 0 },
+      policy: { oob: false, violations: [] },
+      rationale: ''
+    })
+
+    it('should cap market share with its own cap', () => {
+      const shareShock = {
+        category: 'competition', tier: 3, name: 'New entrant undercuts with ultra-low price', decay: 'slow' as const, intensity: 1,
+        effects: { revenue_delta: 0, cogs_delta: 0, opex_delta: 0, cash_delta: 0, share_delta: -1.5, nps_delta: 0, morale_delta: 0, backlog_delta: 0, notes: '' }
+      }
+      const engine = new Engine({ ...DEFAULT_CAPS, share: 0.5 })
+      const result = engine.resolveTurn({ ...baseState, active_shocks: [shareShock] }, 'Test', evaluatorOutput('up'))
+
+      expect(result.deltas.share).toBeLessThan(-0.5)
+      expect(result.applied_deltas.share).toBe(-0.5)
+      expect(result.clipped.share).toBeCloseTo(result.deltas.share + 0.5, 9)
+      expect(result.state_after.share).toBeCloseTo(7.9, 9)
+    })
+
+    it('should cap backlog in units', () => {
+      const engine = new Engine({ ...DEFAULT_CAPS, backlog_units: 100 })
+      const result = engine.resolveTurn(baseState, 'Test', evaluatorOutput('up'))
+
+      expect(result.deltas.backlog).toBe(250)
+      expect(result.applied_deltas.backlog).toBe(100)
+      expect(result.clipped.backlog).toBe(150)
+    })
+
+    it('should hold KPIs within their floors and ceilings', () => {
+      const engine = new Engine({ ...DEFAULT_CAPS, bounds: { ...DEFAULT_KPI_BOUNDS, morale: { min: 0, max: 51 }, credibility: { min: 59, max: 100 } } })
+      const up = engine.resolveTurn(baseState, 'Test', evaluatorOutput('up'))
+      const down = engine.resolveTurn(baseState, 'Test', evaluatorOutput('down'))
+
+      expect(up.state_after.morale).toBe(51)
+      expect(up.applied_deltas.morale).toBe(1)
+      expect(up.clipped.morale).toBe(2)
+      expect(down.state_after.credibility).toBe(59)
+      expect(down.clipped.credibility).toBe(-1)
+    })
+
+    it('should report raw deltas under their KPI keys', () => {
+      const result = new Engine().resolveTurn(baseState, 'Test', evaluatorOutput('up'))
+
+      expect(result.deltas.backlog).toBe(250)
+      expect(result.deltas.service).toBe(1.0)
+      expect(result.applied_deltas.service).toBeCloseTo(0.6, 9)
+      expect(result.clipped.service).toBeCloseTo(0.4, 9)
+      expect(result.clipped.morale).toBe(0)
+    })
+  })
 })
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest'
 import { Engine } from './engine'
-import { State, EvaluatorOutput } from './contracts'
+import { State, EvaluatorOutput, RngEvent } from './contracts'
 
 describe('Engine Financial Integration', () => {
   const engine = new Engine()
@@ -275,4 +275,52 @@ describe('Engine Financial Integration', () => {
     expect(result.explainers.finance).toContain('Easing backlog improved fulfillment')
     expect(result.explainers.finance).toContain('Lower service risk reduced scrap/returns')
   })
+
+  it('should open each turn from the previous closing balance', () => {
+    const evaluatorOutput = createEvaluatorOutput()
+
+    const turn1 = engine.resolveTurn(baseState, 'Test declaration', evaluatorOutput)
+    const turn2 = engine.resolveTurn(turn1.state_after, 'Test declaration', evaluatorOutput)
+
+    // Closing balance and snapshot are stored on state_after
+    expect(turn1.state_after.financials?.balance).toEqual(turn1.financials.balance)
+    expect(turn1.state_after.financials?.last_snapshot).toEqual(turn1.financials)
+
+    // Turn 2 opens from turn 1's close, so balances build up across the run
+    expect(turn2.financials.cash_open).toBe(turn1.financials.cash_close)
+    expect(turn2.financials.balance.retained_earnings).toBeCloseTo(
+      turn1.financials.balance.retained_earnings + turn2.financials.pnl.net_income, 6
+    )
+  })
+
+  it('should route RNG event dollar effects into the financial snapshot', () => {
+    const evaluatorOutput = createEvaluatorOutput()
+    const shutdown: RngEvent = {
+      roll: 99,
+      event_type: 'supply',
+      tier: '3',
+      name: 'Factory shutdown (safety inspection)',
+      effects: {
+        revenue_delta: -3.0, cogs_delta: 0.8, opex_delta: 0, cash_delta: -0.6,
+        share_delta: 0, nps_delta: 0, morale_delta: -8, backlog_delta: 6000, notes: ''
+      },
+      decay: 'slow'
+    }
+
+    const calm = engine.resolveTurn(baseState, 'Test declaration', evaluatorOutput)
+    const shocked = engine.resolveTurn(baseState, 'Test declaration', evaluatorOutput, shutdown)
+
+    // $3.0M annual run-rate → $250k this month
+    expect(shocked.financials.pnl.revenue).toBeCloseTo(calm.financials.pnl.revenue - 250_000, 0)
+    expect(shocked.financials.pnl.cogs).toBeCloseTo(calm.financials.pnl.cogs + 800_000 / 12, 0)
+    expect(shocked.financials.pnl.net_income).toBeLessThan(calm.financials.pnl.net_income)
+    expect(shocked.financials.pnl.non_operating).toBeCloseTo(-50_000, 6)
+    expect(shocked.explainers.finance).toContain('Factory shutdown (safety inspection): revenue -$250k, COGS +$67k, cash -$50k')
+    expect(shocked.financials.balance_ok).toBe(true)
+
+    // The run-rate effects linger into the next turn at decayed strength; the cash item does not
+    const next = engine.resolveTurn(shocked.state_after, 'Test declaration', evaluatorOutput)
+    expect(next.explainers.finance).toContain('Active shocks/rewards: revenue -$225k, COGS +$60k')
+    expect(next.financials.pnl.non_operating).toBe(0)
+  })
 })
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import { Engine, STARTING_BALANCE } from './engine'
+import { computeFinancials } from './finance'
+import { extractLevers } from './levers'
+import { resolveCapitalReturn, initialEquity, INITIAL_SHARES } from './equity'
+import { EvaluatorOutput, FinancialDrivers, FinancialParams, MiniBalanceSheet, State } from './contracts'
+
+describe('Capital Return', () => {
+  const engine = new Engine()
+  const baseState: State = engine.createInitialState('equity-seed', { seasonality: 'flat' })
+
+  const neutralEvaluation: EvaluatorOutput = {
+    assessment: { intent: ['test'], targets: ['test'], tone: 'neutral', fit_reasons: ['test'] },
+    signals: {
+      morale: { dir: 'none', strength: 0 },
+      credibility: { dir: 'none', strength: 0 },
+      backlog_pressure: { dir: 'none', strength: 0 },
+      service_risk: { dir: 'none', strength: 0 }
+    },
+    event: { roll: 50, event_type: 'none', impact_channels: {}, severity_note: 'No event' },
+    integrated: { synergy: 'neutral', narrative_hook: 'Test' },
+    penalties: { nonsense_penalty: 0 },
+    policy: { oob: false, violations: [] },
+    rationale: 'Test'
+  }
+  const withLevers = (declaration: string): EvaluatorOutput => ({ ...neutralEvaluation, levers: extractLevers(declaration) })
+
+  it('should read dividends and buybacks from declarations', () => {
+    expect(extractLevers('Pay a $0.5M special dividend')).toEqual({ dividend: 500_000 })
+    expect(extractLevers('Authorize buyback of 5%')).toEqual({ buyback_pct: 5 })
+    expect(extractLevers('Declare a dividend of $200k and a 2% share repurchase')).toEqual({ dividend: 200_000, buyback_pct: 2 })
+    expect(extractLevers('Buy back 40% of our shares').buyback_pct).toBe(10)
+  })
+
+  it('should fund capital return only from retained earnings and cash above the buffer', () => {
+    const equity = initialEquity(STARTING_BALANCE, baseState.pnl)
+    const ctx = { balance: STARTING_BALANCE, financing: { draw: 0, repay: 0, dividend: 0 }, min_cash_buffer: 250_000, equity }
+
+    const capital = resolveCapitalReturn({ dividend: 600_000, buyback_pct: 10 }, ctx)
+    expect(capital.dividend).toBe(600_000)
+    // 1.0M cash - 250k buffer - 600k dividend leaves 150k for the buyback
+    expect(capital.buyback).toBeLessThanOrEqual(150_000)
+    expect(capital.shares_retired).toBe(Math.floor(150_000 / equity.share_price))
+
+    const paidOut = resolveCapitalReturn({ dividend: 600_000 }, { ...ctx, financing: { draw: 0, repay: 0, dividend: 700_000 } })
+    expect(paidOut.dividend).toBe(50_000)
+  })
+
+  it('should book buybacks against other equity and cash', () => {
+    // Balanced, steady-state opening position so no plug or working-capital swing
+    const balance: MiniBalanceSheet = {
+      cash: 1_000_000, ar: 1_000_000, inventory: 900_000, ppe: 2_000_000,
+      ap: 600_000, debt: 0, retained_earnings: 1_350_000, other_equity: 2_950_000
+    }
+    const drivers: FinancialDrivers = {
+      units_sold: 10_000, avg_price: 100, unit_cost: 60, opex_base: 300_000, capex_base: 50_000, dso: 30, dpo: 30, dio: 45
+    }
+    const params: FinancialParams = {
+      period_days: 30, min_cash_buffer: 250_000, depreciation_life_years: 5,
+      price_to_units: 0, morale_to_units: 0, credibility_to_price: 0, scrap_rate: 0
+    }
+    const held = computeFinancials({ prev_balance: balance, drivers, params })
+    const result = computeFinancials({ prev_balance: balance, drivers, params, financing: { draw: 0, repay: 0, dividend: 0, buyback: 300_000 } })
+
+    expect(result.balance.other_equity).toBe(balance.other_equity - 300_000)
+    expect(result.balance.retained_earnings).toBeCloseTo(held.balance.retained_earnings, 6)
+    expect(held.balance.cash - result.balance.cash).toBeCloseTo(300_000, 6)
+    expect(result.cashflow.cff).toBeCloseTo(held.cashflow.cff - 300_000, 6)
+    expect(result.notes).toContain('Repurchased shares at cost against other equity.')
+    expect(result.notes).not.toContain('Applied immaterial retained earnings plug to balance assets=liabilities+equity.')
+    expect(result.balance_ok).toBe(true)
+    expect(result.cash_recon_ok).toBe(true)
+  })
+
+  it('should move the share count and investor metrics', () => {
+    const control = engine.resolveTurn(baseState, 'Hold steady', neutralEvaluation)
+    const dividend = engine.resolveTurn(baseState, 'Pay a $0.5M special dividend', withLevers('Pay a $0.5M special dividend'))
+    const buyback = engine.resolveTurn(baseState, 'Authorize buyback of 2%', withLevers('Authorize buyback of 2%'))
+
+    expect(baseState.equity?.shares_outstanding).toBe(INITIAL_SHARES)
+    expect(dividend.equity.dps).toBeCloseTo(0.5, 6)
+    expect(control.financials.balance.retained_earnings - dividend.financials.balance.retained_earnings).toBeCloseTo(500_000, 0)
+    expect(dividend.explainers.finance).toContain('Capital return: dividend -$500k')
+
+    expect(buyback.equity.shares_retired).toBe(INITIAL_SHARES * 0.02)
+    expect(buyback.equity.shares_outstanding).toBe(INITIAL_SHARES * 0.98)
+    expect(buyback.equity.eps).toBeGreaterThan(control.equity.eps)
+    expect(buyback.financials.balance.other_equity).toBeCloseTo(STARTING_BALANCE.other_equity - buyback.equity.buyback, 6)
+    expect(buyback.state_after.equity).toEqual(buyback.equity)
+  })
+
+  it('should let structured actions return capital in place of the declaration', () => {
+    const declaration = 'Pay a $0.5M special dividend'
+    const result = engine.resolveTurn(baseState, declaration, withLevers(declaration), undefined, [
+      { type: 'pay_dividend', amount: 100_000 },
+      { type: 'buy_back_shares', pct: 2 }
+    ])
+
+    expect(result.equity.dividends).toBe(100_000)
+    expect(result.equity.shares_retired).toBe(INITIAL_SHARES * 0.02)
+    expect(result.levers.declared).toEqual({ dividend: 500_000, buyback_pct: 2 })
+    expect(result.levers.standing).toEqual({})
+  })
+})
@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest'
 import { Evaluator } from './evaluator'
-import { StatePacket, RngEvent, Caps } from './contracts'
+import { StatePacket, RngEvent, Caps, CapsSchema } from './contracts'
 
 describe('Evaluator Event Integration', () => {
   const evaluator = new Evaluator()
@@ -33,12 +33,12 @@ describe('Evaluator Event Integration', () => {
     recent_moves: ['Previous declaration']
   }
   
-  const mockCaps: Caps = {
+  const mockCaps: Caps = CapsSchema.parse({
     morale: 3.0,
     credibility: 2.0,
     service_risk: 0.6,
     backlog_pressure: 1.0
-  }
+  })
 
   it('should generate consistent output for same inputs', async () => {
     const rngEvent: RngEvent = {
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import { Engine } from './engine'
+import { DEFAULT_EVENT_CATALOG, catalogEffects, drawCatalogEvent, isEligible, parseEventCatalog } from './eventCatalog'
+import { createRngState, rngStream } from './rng'
+import { EventCatalog, EventCategorySchema, State } from './contracts'
+
+describe('Event Catalog', () => {
+  const engine = new Engine()
+  const baseState: State = engine.createInitialState('catalog-seed')
+  const stream = () => rngStream(createRngState('catalog-draws'), 'test')
+  const spike = { id: 'lithium-price-spike', kind: 'shock', category: 'supply', tier: 2, name: 'Lithium price spike', effects: { cogs_delta: 0.6 } }
+
+  it('should ship every current shock and reward as the default catalog', () => {
+    for (const kind of ['shock', 'reward'] as const) {
+      for (const category of EventCategorySchema.options) {
+        for (let tier = 0; tier <= 3; tier++) {
+          expect(DEFAULT_EVENT_CATALOG.filter(e => e.kind === kind && e.category === category && e.tier === tier && !e.follow_up_only)).toHaveLength(1)
+        }
+      }
+    }
+    const shutdown = DEFAULT_EVENT_CATALOG.find(e => e.name === 'Factory shutdown (safety inspection)')!
+    expect(shutdown).toMatchObject({ kind: 'shock', category: 'supply', tier: 3, flag_bump: 0.25, tail_risk_bump: 15, decay: 'slow', weight: 1 })
+    expect(catalogEffects(shutdown)).toEqual({
+      revenue_delta: -3.0, cogs_delta: 0.8, opex_delta: 0, cash_delta: 0,
+      share_delta: 0, nps_delta: 0, morale_delta: -8, backlog_delta: 6000, notes: ''
+    })
+  })
+
+  it('should fill entry defaults and reject duplicate ids or a missing tier-0 fallback', () => {
+    const catalog = parseEventCatalog([...DEFAULT_EVENT_CATALOG, spike])
+    expect(catalog.find(e => e.id === 'lithium-price-spike')).toMatchObject({ flag_bump: 0, decay: 'fast', prerequisites: {}, weight: 1 })
+
+    expect(() => parseEventCatalog([...DEFAULT_EVENT_CATALOG, spike, spike])).toThrow(/Duplicate event id/)
+    const noFallback = DEFAULT_EVENT_CATALOG.filter(e => e.id !== 'thin-ice-weather')
+    expect(() => parseEventCatalog(noFallback)).toThrow(/No unconditional tier-0 shock for weather/)
+    expect(() => parseEventCatalog([{ ...spike, tier: 4 }])).toThrow()
+  })
+
+  it('should reject effects quoted outside their units', () => {
+    const withSpike = (changes: object) => [...DEFAULT_EVENT_CATALOG, { ...spike, ...changes }]
+
+    expect(() => parseEventCatalog(withSpike({ effects: { cogs_delta: 600_000 } }))).toThrow(/cogs_delta is in run-rate \$M per year/)
+    expect(() => parseEventCatalog(withSpike({ effects: { cash_delta: -40 } }))).toThrow(/cash_delta is in annual \$M/)
+    expect(() => parseEventCatalog(withSpike({ effects: { backlog_delta: 2.5 } }))).toThrow()
+    expect(() => parseEventCatalog(withSpike({ effects: { cash: -0.5 } }))).toThrow(/Unrecognized key/)
+    const outage = DEFAULT_EVENT_CATALOG.find(e => e.id === 'tier-2-vendor-outage-motors')!
+    const priced = (cost: number) => DEFAULT_EVENT_CATALOG.map(e => e.id === outage.id ? { ...e, responses: e.responses.map(r => ({ ...r, cost })) } : e)
+    expect(() => parseEventCatalog(priced(0.15))).toThrow(/cost is in dollars, not \$M/)
+    expect(parseEventCatalog(priced(150_000))).toHaveLength(DEFAULT_EVENT_CATALOG.length)
+  })
+
+  it('should only draw entries whose prerequisites the opening state meets', () => {
+    const entry = parseEventCatalog([...DEFAULT_EVENT_CATALOG, {
+      ...spike, prerequisites: { min_turn: 2, seasons: ['autumn'], min_pressure: 0.3, max_morale: 70, min_backlog: 5_000 }
+    }]).find(e => e.id === 'lithium-price-spike')!
+    const ready: State = { ...baseState, turn_no: 3, period: 'Oct 2025', flags: { ...baseState.flags, supply: 0.4 }, morale: 60, backlog: 9_000 }
+
+    expect(isEligible(entry, ready)).toBe(true)
+    expect(isEligible(entry, { ...ready, turn_no: 1 })).toBe(false)
+    expect(isEligible(entry, { ...ready, period: 'May 2026' })).toBe(false)
+    expect(isEligible(entry, { ...ready, flags: { ...ready.flags, supply: 0.2 } })).toBe(false)
+    expect(isEligible(entry, { ...ready, morale: 80 })).toBe(false)
+    expect(isEligible(entry, { ...ready, backlog: 1_000 })).toBe(false)
+  })
+
+  it('should draw by weight and step down a tier when a slot has nothing eligible', () => {
+    const catalog: EventCatalog = parseEventCatalog([
+      ...DEFAULT_EVENT_CATALOG.filter(e => !(e.kind === 'shock' && e.category === 'supply' && e.tier >= 2)),
+      { ...spike, weight: 3 },
+      { ...spike, id: 'cobalt-shortage', name: 'Cobalt shortage', weight: 1 },
+      { ...spike, id: 'graphite-embargo', name: 'Graphite embargo', tier: 3, prerequisites: { min_turn: 99 } }
+    ])
+    const slot = { kind: 'shock' as const, category: 'supply' as const, tier: 2 }
+
+    const draws = stream()
+    const names = Array.from({ length: 400 }, () => drawCatalogEvent(catalog, slot, baseState, draws).name)
+    const spikes = names.filter(n => n === 'Lithium price spike').length
+    expect(spikes).toBeGreaterThan(250)
+    expect(spikes).toBeLessThan(350)
+    expect(drawCatalogEvent(catalog, slot, baseState, stream()).name).toBe(drawCatalogEvent(catalog, slot, baseState, stream()).name)
+
+    // The only tier-3 entry is not yet eligible, so the draw falls to tier 2
+    expect(drawCatalogEvent(catalog, { ...slot, tier: 3 }, baseState, stream()).tier).toBe(2)
+  })
+
+  it('should generate turn events from the engine catalog', () => {
+    const calm = parseEventCatalog(DEFAULT_EVENT_CATALOG
+      .filter(e => e.kind === 'reward' || e.tier === 0)
+      .map(e => e.kind === 'shock' ? { ...e, name: `Calm (${e.category})` } : e))
+    const calmEngine = new Engine(undefined, calm)
+
+    for (let i = 0; i < 20; i++) {
+      const state = calmEngine.createInitialState(`calm-${i}`)
+      const event = calmEngine.generateEnhancedRngEvent(state, 0)
+      expect(event.tier).toBe('0')
+      expect(event.name).toBe(`Calm (${event.event_type})`)
+      expect(event.reward).toEqual(engine.generateEnhancedRngEvent(state, 0).reward)
+    }
+  })
+})
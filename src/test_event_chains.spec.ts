@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import { Engine } from './engine'
+import { DEFAULT_EVENT_CATALOG, drawCatalogEvent, parseEventCatalog } from './eventCatalog'
+import { CHAIN_EXPIRY_TURNS, advanceChains, escalation, followUpDue } from './eventChains'
+import { createRngState, rngStream } from './rng'
+import { toStatePacket } from './stateModel'
+import { EvaluatorOutput, OpenChain, RngEvent, State } from './contracts'
+
+describe('Event Chains', () => {
+  const engine = new Engine()
+  const baseState: State = engine.createInitialState('chain-seed')
+  const notice = DEFAULT_EVENT_CATALOG.find(e => e.id === 'union-strike-notice')!
+  const noticeChain: OpenChain = {
+    id: 'union-strike-notice', name: 'Union strike notice', category: 'labor',
+    opened_turn: 1, turns_open: 1, responses: 0, ignored: true, risks: ['Union strike halts assembly']
+  }
+  const noticeShock: RngEvent = { roll: 99, event_type: 'labor', tier: '3', name: notice.name, catalog_id: notice.id }
+  // The default catalog with the strike certain once the notice is ignored
+  const certain = parseEventCatalog(DEFAULT_EVENT_CATALOG.map(e => e.id === notice.id
+    ? { ...e, follow_ups: e.follow_ups.map(f => ({ ...f, chance: 1 })) }
+    : e))
+
+  it('should validate follow-ups and keep follow-up-only shocks out of the rolls', () => {
+    expect(() => parseEventCatalog(DEFAULT_EVENT_CATALOG.map(e => e.id === notice.id
+      ? { ...e, follow_ups: [{ event: 'no-such-event' }] }
+      : e))).toThrow(/Follow-up/)
+
+    const strike = DEFAULT_EVENT_CATALOG.find(e => e.id === 'union-strike')!
+    expect(strike.follow_up_only).toBe(true)
+    const draws = rngStream(createRngState('chain-draws'), 'test')
+    for (let i = 0; i < 50; i++) {
+      expect(drawCatalogEvent(DEFAULT_EVENT_CATALOG, { kind: 'shock', category: 'labor', tier: 3 }, baseState, draws).id).toBe(notice.id)
+    }
+  })
+
+  it('should hold a follow-up until its turns, pressure and ignore conditions are met', () => {
+    const followUp = { event: 'union-strike', after_turns: 2, min_pressure: 0.3, if_ignored: true, chance: 1 }
+    const pressed: State = { ...baseState, flags: { ...baseState.flags, labor: 0.4 } }
+    const due = { ...noticeChain, turns_open: 2 }
+
+    expect(followUpDue(due, followUp, pressed)).toBe(true)
+    expect(followUpDue({ ...due, turns_open: 1 }, followUp, pressed)).toBe(false)
+    expect(followUpDue(due, followUp, { ...pressed, flags: { ...pressed.flags, labor: 0.2 } })).toBe(false)
+    expect(followUpDue({ ...due, ignored: false }, followUp, pressed)).toBe(false)
+  })
+
+  it('should escalate with the follow-up chance, deterministically per turn', () => {
+    const state: State = { ...baseState, open_chains: [noticeChain] }
+    const fired = Array.from({ length: 200 }, (_, i) => escalation(state, DEFAULT_EVENT_CATALOG, createRngState(`chance-${i}`)) !== null)
+    const rate = fired.filter(Boolean).length / fired.length
+    // Union strike notice escalates 60% of the time once ignored
+    expect(rate).toBeGreaterThan(0.5)
+    expect(rate).toBeLessThan(0.7)
+    expect(escalation(state, DEFAULT_EVENT_CATALOG, createRngState('chance-0'))).toEqual(escalation(state, DEFAULT_EVENT_CATALOG, createRngState('chance-0')))
+
+    const event = new Engine(undefined, certain).generateEnhancedRngEvent(state, 1)
+    expect(event).toMatchObject({ event_type: 'labor', tier: '3', name: 'Union strike halts assembly', chain_from: notice.id, catalog_id: 'union-strike' })
+  })
+
+  it('should open, age, resolve and lapse chains', () => {
+    const opened = advanceChains(baseState, noticeShock, [], DEFAULT_EVENT_CATALOG)
+    expect(opened.opened).toHaveLength(1)
+    expect(opened.open_chains[0]).toMatchObject({ id: notice.id, turns_open: 0, responses: 0, ignored: false, risks: ['Union strike halts assembly'] })
+
+    // Ignored, then answered twice
+    let state: State = { ...baseState, open_chains: opened.open_chains }
+    const ignored = advanceChains(state, undefined, ['supply'], DEFAULT_EVENT_CATALOG)
+    expect(ignored.open_chains[0]).toMatchObject({ turns_open: 1, ignored: true })
+    state = { ...state, open_chains: ignored.open_chains }
+    const answered = advanceChains(state, undefined, ['labor'], DEFAULT_EVENT_CATALOG)
+    expect(answered.open_chains[0]).toMatchObject({ turns_open: 2, responses: 1, ignored: false })
+    state = { ...state, open_chains: answered.open_chains }
+    const resolved = advanceChains(state, undefined, ['labor'], DEFAULT_EVENT_CATALOG)
+    expect(resolved.resolved.map(c => c.id)).toEqual([notice.id])
+    expect(resolved.open_chains).toEqual([])
+
+    const stale = advanceChains({ ...baseState, open_chains: [{ ...noticeChain, turns_open: CHAIN_EXPIRY_TURNS - 1 }] }, undefined, [], DEFAULT_EVENT_CATALOG)
+    expect(stale.lapsed).toHaveLength(1)
+    expect(stale.open_chains).toEqual([])
+  })
+
+  it('should track chains in state, close them on escalation and brief the evaluator', () => {
+    const chainEngine = new Engine(undefined, certain)
+    const evaluation: EvaluatorOutput = {
+      assessment: { intent: ['test'], targets: ['test'], tone: 'neutral', fit_reasons: ['test'] },
+      signals: {
+        morale: { dir: 'none', strength: 0 },
+        credibility: { dir: 'none', strength: 0 },
+        backlog_pressure: { dir: 'none', strength: 0 },
+        service_risk: { dir: 'none', strength: 0 }
+      },
+      event: { roll: 50, event_type: 'none', impact_channels: {}, severity_note: 'No event' },
+      integrated: { synergy: 'neutral', narrative_hook: 'Test' },
+      penalties: { nonsense_penalty: 0 },
+      policy: { oob: false, violations: [] },
+      rationale: 'Test'
+    }
+
+    const first = chainEngine.resolveTurn(baseState, 'Hold steady', evaluation, noticeShock)
+    expect(first.state_after.open_chains).toHaveLength(1)
+    expect(first.explainers.finance).toContain('Event chain opened: Union strike notice could escalate to Union strike halts assembly')
+    expect(toStatePacket(first.state_after).open_chains).toEqual(first.state_after.open_chains)
+
+    // Ignored for a turn, the notice becomes a strike
+    const second = chainEngine.resolveTurn(first.state_after, 'Hold steady', evaluation)
+    const strike = chainEngine.generateEnhancedRngEvent(second.state_after, 2)
+    expect(strike.name).toBe('Union strike halts assembly')
+    const third = chainEngine.resolveTurn(second.state_after, 'Hold steady', evaluation, strike)
+    expect(third.state_after.open_chains).toEqual([])
+    expect(third.explainers.finance).toContain('Event chain escalated: Union strike notice became Union strike halts assembly')
+
+    // Answering the union instead keeps the strike off
+    const answered = chainEngine.resolveTurn(first.state_after, 'Open wage talks with the union', evaluation)
+    expect(chainEngine.generateEnhancedRngEvent(answered.state_after, 2).chain_from).toBeUndefined()
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import { Engine } from './engine'
+import { advanceActiveEvents, ACTIVE_EVENT_EXPIRY } from './eventLifecycle'
+import { State, RngEvent, EvaluatorOutput } from './contracts'
+
+describe('Event Lifecycle', () => {
+  const engine = new Engine()
+  const baseState: State = engine.createInitialState('lifecycle-seed')
+
+  const shutdown: RngEvent = {
+    roll: 99,
+    event_type: 'supply',
+    tier: '3',
+    name: 'Factory shutdown (safety inspection)',
+    effects: {
+      revenue_delta: -3.0, cogs_delta: 0.8, opex_delta: 0, cash_delta: 0,
+      share_delta: 0, nps_delta: 0, morale_delta: -8, backlog_delta: 6000, notes: ''
+    },
+    decay: 'slow'
+  }
+
+  const neutralEvaluation: EvaluatorOutput = {
+    assessment: { intent: ['test'], targets: ['test'], tone: 'neutral', fit_reasons: ['test'] },
+    signals: {
+      morale: { dir: 'none', strength: 0 },
+      credibility: { dir: 'none', strength: 0 },
+      backlog_pressure: { dir: 'none', strength: 0 },
+      service_risk: { dir: 'none', strength: 0 }
+    },
+    event: { roll: 50, event_type: 'none', impact_channels: {}, severity_note: 'No event' },
+    integrated: { synergy: 'neutral', narrative_hook: 'Test' },
+    penalties: { nonsense_penalty: 0 },
+    policy: { oob: false, violations: [] },
+    rationale: 'Test'
+  }
+
+  it('should activate a fired shock at full intensity', () => {
+    const result = advanceActiveEvents(baseState, shutdown, 1)
+
+    expect(result.active_shocks).toHaveLength(1)
+    expect(result.active_shocks[0].intensity).toBe(1)
+    expect(result.active_shocks[0].started_turn).toBe(1)
+    // The firing turn reaches the engine through impact channels, not the lifecycle
+    expect(result.applied_effects.morale_delta).toBe(0)
+  })
+
+  it('should keep a factory shutdown hurting for several turns', () => {
+    let state: State = engine.resolveTurn(baseState, 'Hold steady', neutralEvaluation, shutdown).state_after
+    const lingeringTurns: number[] = []
+
+    for (let i = 0; i < 10; i++) {
+      const result = engine.resolveTurn(state, 'Hold steady', neutralEvaluation)
+      if (result.active_events.applied_effects.backlog_delta > 0) lingeringTurns.push(result.turn_no)
+      state = result.state_after
+    }
+
+    expect(lingeringTurns.length).toBeGreaterThan(3)
+    expect(state.active_shocks).toHaveLength(0)
+  })
+
+  it('should decay fast events quicker than slow ones', () => {
+    const fastShock: RngEvent = { ...shutdown, tier: '1', name: 'Port delay on batteries', decay: 'fast' }
+    const slow = advanceActiveEvents({ ...baseState, active_shocks: advanceActiveEvents(baseState, shutdown, 1).active_shocks }, undefined, 2)
+    const fast = advanceActiveEvents({ ...baseState, active_shocks: advanceActiveEvents(baseState, fastShock, 1).active_shocks }, undefined, 2)
+
+    expect(slow.active_shocks[0].intensity).toBeCloseTo(0.9, 6)
+    expect(fast.active_shocks[0].intensity).toBeCloseTo(0.7, 6)
+    expect(fast.active_shocks[0].intensity).toBeGreaterThanOrEqual(ACTIVE_EVENT_EXPIRY)
+  })
+
+  it('should apply rewards on the turn they fire and report expiry', () => {
+    const withReward: RngEvent = {
+      roll: 10,
+      event_type: 'none',
+      reward: {
+        event_type: 'labor',
+        tier: '1',
+        name: 'Productivity surge',
+        effects: {
+          revenue_delta: 0, cogs_delta: -0.2, opex_delta: 0, cash_delta: 0,
+          share_delta: 0, nps_delta: 0, morale_delta: 3, backlog_delta: 0, notes: ''
+        },
+        decay: 'fast'
+      }
+    }
+
+    const fired = engine.resolveTurn(baseState, 'Hold steady', neutralEvaluation, withReward)
+    expect(fired.active_events.rewards.map(r => r.name)).toContain('Productivity surge')
+    expect(fired.active_events.applied_effects.morale_delta).toBe(3)
+
+    const next = engine.resolveTurn(fired.state_after, 'Hold steady', neutralEvaluation)
+    expect(next.active_events.expired).toContain('Productivity surge')
+    expect(next.active_events.rewards).toHaveLength(0)
+  })
+
+  it('should carry the generated reward instead of discarding it', () => {
+    const rngEvent = engine.generateRngEvent(baseState, 0)
+
+    expect(rngEvent.reward).toBeDefined()
+    expect(rngEvent.reward?.name).toBeTruthy()
+    expect(rngEvent.decay).toBeDefined()
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import { Engine } from './engine'
+import { DEFAULT_EVENT_CATALOG, parseEventCatalog } from './eventCatalog'
+import { pendingResponseFor, resolveEventResponse, responseError } from './eventResponses'
+import { toStatePacket } from './stateModel'
+import { EvaluatorOutput, RngEvent, State } from './contracts'
+
+describe('Event Responses', () => {
+  const engine = new Engine()
+  const baseState: State = engine.createInitialState('response-seed')
+  const outage = DEFAULT_EVENT_CATALOG.find(e => e.id === 'tier-2-vendor-outage-motors')!
+  const outageShock: RngEvent = {
+    roll: 90, event_type: 'supply', tier: '2', name: outage.name, catalog_id: outage.id,
+    effects: { revenue_delta: -1.5, cogs_delta: 0.4, opex_delta: 0, cash_delta: 0, share_delta: 0, nps_delta: 0, morale_delta: -4, backlog_delta: 3000, notes: '' },
+    decay: 'fast'
+  }
+  const evaluation: EvaluatorOutput = {
+    assessment: { intent: ['test'], targets: ['test'], tone: 'neutral', fit_reasons: ['test'] },
+    signals: {
+      morale: { dir: 'none', strength: 0 },
+      credibility: { dir: 'none', strength: 0 },
+      backlog_pressure: { dir: 'none', strength: 0 },
+      service_risk: { dir: 'none', strength: 0 }
+    },
+    event: { roll: 50, event_type: 'none', impact_channels: {}, severity_note: 'No event' },
+    integrated: { synergy: 'neutral', narrative_hook: 'Test' },
+    penalties: { nonsense_penalty: 0 },
+    policy: { oob: false, violations: [] },
+    rationale: 'Test'
+  }
+  const fired = engine.resolveTurn(baseState, 'Hold steady', evaluation, outageShock).state_after
+
+  it('should only allow 2-4 uniquely named responses on tier-2/3 shocks', () => {
+    expect(DEFAULT_EVENT_CATALOG.filter(e => e.responses.length > 0).every(e => e.kind === 'shock' && e.tier >= 2)).toBe(true)
+    const withResponses = (id: string, responses: unknown[]) => DEFAULT_EVENT_CATALOG.map(e => e.id === id ? { ...e, responses } : e)
+    const two = outage.responses.slice(0, 2)
+
+    expect(parseEventCatalog(withResponses(outage.id, two)).find(e => e.id === outage.id)!.responses).toHaveLength(2)
+    expect(() => parseEventCatalog(withResponses('port-delay-on-batteries', two))).toThrow(/not a tier-2\/3 shock/)
+    expect(() => parseEventCatalog(withResponses(outage.id, two.slice(0, 1)))).toThrow(/needs 2-4 responses/)
+    expect(() => parseEventCatalog(withResponses(outage.id, [two[0], two[0]]))).toThrow(/Duplicate response id/)
+  })
+
+  it('should leave a pending response after a shock with options and brief the evaluator', () => {
+    expect(fired.pending_response).toMatchObject({ event_id: outage.id, name: outage.name, fired_turn: 1 })
+    expect(fired.pending_response!.options.map(o => o.id)).toEqual(['pay-expedited-freight', 'reallocate-supply', 'accept-delay'])
+    expect(toStatePacket(fired).pending_response).toEqual(fired.pending_response)
+
+    const thinIce: RngEvent = { roll: 10, event_type: 'supply', tier: '0', name: 'Thin ice (supply)', catalog_id: 'thin-ice-supply' }
+    expect(pendingResponseFor(thinIce, DEFAULT_EVENT_CATALOG, 1)).toBeUndefined()
+    expect(engine.resolveTurn(baseState, 'Hold steady', evaluation, thinIce).state_after.pending_response).toBeUndefined()
+  })
+
+  it('should book the cost, mitigate the shock and log the chosen option', () => {
+    const waited = engine.resolveTurn(fired, 'Hold steady', evaluation)
+    const freight = engine.resolveTurn(fired, 'Hold steady', evaluation, undefined, [], 'pay-expedited-freight')
+
+    expect(freight.event_response).toEqual({
+      event_id: outage.id, name: outage.name, status: 'applied', option_id: 'pay-expedited-freight',
+      label: 'Pay expedited freight', cost: 150_000, mitigation: 0.6
+    })
+    expect(freight.explainers.finance).toContain(`Event response: Pay expedited freight to ${outage.name}, intensity -60%`)
+    expect(freight.explainers.finance).toContain('Response "Pay expedited freight": OpEx +$150k')
+    expect(freight.financials.pnl.opex - waited.financials.pnl.opex).toBeGreaterThan(140_000)
+
+    // 70% after a fast decay turn, then less than the 0.5 expiry once 60% is removed
+    expect(waited.state_after.active_shocks!.find(s => s.name === outage.name)!.intensity).toBeCloseTo(0.7)
+    expect(freight.state_after.active_shocks!.some(s => s.name === outage.name)).toBe(false)
+    expect(freight.state_after.pending_response).toBeUndefined()
+  })
+
+  it('should reject an unknown or unexpected response and log an unanswered one', () => {
+    expect(responseError(fired, 'bribe-the-vendor')).toMatch(/Unknown response "bribe-the-vendor".*pay-expedited-freight, reallocate-supply, accept-delay/)
+    expect(responseError(baseState, 'accept-delay')).toBe('No event is awaiting a response')
+    expect(responseError(fired, 'accept-delay')).toBeNull()
+
+    const rejected = engine.resolveTurn(fired, 'Hold steady', evaluation, undefined, [], 'bribe-the-vendor')
+    expect(rejected.event_response).toMatchObject({ status: 'rejected', option_id: 'bribe-the-vendor', cost: 0 })
+    expect(rejected.state_after.active_shocks).toEqual(engine.resolveTurn(fired, 'Hold steady', evaluation).state_after.active_shocks)
+
+    const unanswered = engine.resolveTurn(fired, 'Hold steady', evaluation)
+    expect(unanswered.event_response).toMatchObject({ status: 'unanswered', name: outage.name })
+    expect(unanswered.explainers.finance).toContain(`Event response: none chosen for ${outage.name}`)
+    expect(engine.resolveTurn(baseState, 'Hold steady', evaluation).event_response).toBeUndefined()
+  })
+
+  it('should apply option effects deterministically', () => {
+    const first = resolveEventResponse(fired, 'reallocate-supply')
+    expect(first).toEqual(resolveEventResponse(fired, 'reallocate-supply'))
+    expect(first.effects).toMatchObject({ share_delta: -0.2, revenue_delta: 0 })
+    expect(first.active_shocks.find(s => s.name === outage.name)!.intensity).toBeCloseTo(0.7)
+
+    const a = engine.resolveTurn(fired, 'Hold steady', evaluation, undefined, [], 'reallocate-supply')
+    const b = engine.resolveTurn(fired, 'Hold steady', evaluation, undefined, [], 'reallocate-supply')
+    expect(a.state_after).toEqual(b.state_after)
+    expect(a.financials).toEqual(b.financials)
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { computeFinancials } from './finance'
+import { computeFinancials, borrowingRate, BASE_INTEREST_RATE } from './finance'
 import { FinanceInput, FinancialDrivers, FinancialParams, MiniBalanceSheet } from './contracts'
 
 describe('computeFinancials', () => {
@@ -223,4 +223,68 @@ describe('computeFinancials', () => {
     expect(result.balance.inventory).toBeGreaterThan(baseBalance.inventory)
     expect(result.balance.ap).toBeGreaterThan(baseBalance.ap)
   })
+
+  it('should apply event adjustments and keep identities', () => {
+    const input: FinanceInput = {
+      prev_balance: baseBalance,
+      drivers: baseDrivers,
+      params: baseParams,
+      event_adjustments: { revenue: -250_000, cogs: 66_667, opex: 10_000, cash: -40_000 }
+    }
+
+    const result = computeFinancials(input)
+
+    expect(result.pnl.revenue).toBe(10_000 * 100 - 250_000)
+    expect(result.pnl.cogs).toBe(10_000 * 60 + 66_667)
+    // One-off cash items sit below EBIT
+    expect(result.pnl.opex).toBe(300_000 + 10_000)
+    expect(result.pnl.non_operating).toBe(-40_000)
+    expect(result.pnl.net_income).toBeCloseTo(result.pnl.ebit - 40_000, 6)
+    expect(result.notes).toContain('Booked one-off event cash items as non-operating.')
+    expect(result.balance_ok).toBe(true)
+    expect(result.cash_recon_ok).toBe(true)
+  })
+
+  describe('interest and tax', () => {
+    // Balanced opening position (assets 3.55M) so the identities hold without a plug
+    const levered: MiniBalanceSheet = { ...baseBalance, debt: 600_000, other_equity: 1_400_000 }
+    const taxed: FinancialParams = { ...baseParams, interest_rate: 0.12, tax_rate: 0.25 }
+    const plug = 'Applied immaterial retained earnings plug to balance assets=liabilities+equity.'
+
+    it('should charge interest on opening debt and tax the remaining profit', () => {
+      const result = computeFinancials({ prev_balance: levered, drivers: baseDrivers, params: taxed })
+
+      expect(result.pnl.interest).toBeCloseTo(600_000 * 0.12 / 12, 6)
+      const ebt = result.pnl.ebit - result.pnl.interest
+      expect(result.pnl.taxes).toBeCloseTo(ebt * 0.25, 6)
+      expect(result.pnl.net_income).toBeCloseTo(ebt * 0.75, 6)
+      expect(result.balance.retained_earnings).toBeCloseTo(levered.retained_earnings + result.pnl.net_income, 6)
+      expect(result.balance_ok).toBe(true)
+      expect(result.cash_recon_ok).toBe(true)
+      expect(result.notes).not.toContain(plug)
+    })
+
+    it('should carry losses forward and shelter the next profits', () => {
+      const loss = computeFinancials({ prev_balance: levered, drivers: { ...baseDrivers, opex_base: 500_000 }, params: taxed })
+      const lossBeforeTax = -(loss.pnl.ebit - loss.pnl.interest)
+
+      expect(loss.pnl.taxes).toBe(0)
+      expect(loss.balance.tax_loss_carryforward).toBeCloseTo(lossBeforeTax, 6)
+      expect(loss.notes).not.toContain(plug)
+
+      const profit = computeFinancials({ prev_balance: loss.balance, drivers: baseDrivers, params: taxed })
+      const ebt = profit.pnl.ebit - profit.pnl.interest
+      expect(profit.pnl.taxes).toBeCloseTo(Math.max(0, ebt - lossBeforeTax) * 0.25, 6)
+      expect(profit.balance.tax_loss_carryforward).toBeCloseTo(Math.max(0, lossBeforeTax - ebt), 6)
+      expect(profit.notes).toContain('Used tax loss carryforward against pre-tax profit.')
+      expect(profit.balance_ok).toBe(true)
+      expect(profit.cash_recon_ok).toBe(true)
+    })
+
+    it('should price debt higher with leverage and finance pressure', () => {
+      expect(borrowingRate(baseBalance)).toBe(BASE_INTEREST_RATE)
+      expect(borrowingRate(levered)).toBeGreaterThan(BASE_INTEREST_RATE)
+      expect(borrowingRate(levered, 0.8)).toBeGreaterThan(borrowingRate(levered))
+    })
+  })
 })
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest'
+import { Engine } from './engine'
+import { Evaluator } from './evaluator'
+import { extractLevers, accumulateLevers, LEVER_BOUNDS } from './levers'
+import { laborSplit } from './workforce'
+import { toStatePacket } from './stateModel'
+import { State, EvaluatorOutput, RngEvent, DEFAULT_CAPS } from './contracts'
+
+describe('Declared Levers', () => {
+  const engine = new Engine()
+  const baseState: State = engine.createInitialState('levers-seed', { seasonality: 'flat' })
+
+  const neutralEvaluation: EvaluatorOutput = {
+    assessment: { intent: ['test'], targets: ['test'], tone: 'neutral', fit_reasons: ['test'] },
+    signals: {
+      morale: { dir: 'none', strength: 0 },
+      credibility: { dir: 'none', strength: 0 },
+      backlog_pressure: { dir: 'none', strength: 0 },
+      service_risk: { dir: 'none', strength: 0 }
+    },
+    event: { roll: 50, event_type: 'none', impact_channels: {}, severity_note: 'No event' },
+    integrated: { synergy: 'neutral', narrative_hook: 'Test' },
+    penalties: { nonsense_penalty: 0 },
+    policy: { oob: false, violations: [] },
+    rationale: 'Test'
+  }
+  const withLevers = (declaration: string): EvaluatorOutput => ({ ...neutralEvaluation, levers: extractLevers(declaration) })
+
+  it('should extract the quantities in the quick actions', () => {
+    expect(extractLevers('Cut OpEx by 10% across non-critical functions; protect Customer Support.')).toEqual({ opex_pct: -10 })
+    expect(extractLevers('Negotiate supplier terms: +15 days DPO; trade-off: +2% COGS.')).toEqual({ dpo_days: 15, cogs_pct: 2 })
+    expect(extractLevers('Pilot premium service tier with 24h response SLA; price +12%.')).toEqual({ price_pct: 12 })
+    expect(extractLevers('Hire 5 senior sales reps in region West; spiff comp plan for Q4.')).toEqual({ headcount: 5 })
+    expect(extractLevers('Reduce safety stock levels by 20%; implement JIT for key components.')).toEqual({ safety_stock_pct: -20 })
+    expect(extractLevers('Launch customer loyalty program with 5% discount for 12-month contracts.')).toEqual({ price_pct: -5 })
+    expect(extractLevers('Invest $400k in automation for the assembly line')).toEqual({ capex: 400_000 })
+  })
+
+  it('should keep declared and standing levers within bounds', () => {
+    expect(extractLevers('Cut OpEx by 80%').opex_pct).toBe(LEVER_BOUNDS.opex_pct.min)
+    expect(accumulateLevers({ price_pct: 20 }, { price_pct: 10, capex: 50_000 })).toEqual({ price_pct: LEVER_BOUNDS.price_pct.max })
+  })
+
+  it('should produce levers from the rule-based evaluator only for coherent, in-bounds declarations', async () => {
+    const evaluator = new Evaluator()
+    const rngEvent: RngEvent = { roll: 50, event_type: 'none' }
+    const packet = toStatePacket(baseState)
+
+    const coherent = await evaluator.evaluate('Cut OpEx by 10% across non-critical functions.', packet, rngEvent, DEFAULT_CAPS)
+    const oob = await evaluator.evaluate('Cut OpEx by 10% after the merger closes.', packet, rngEvent, DEFAULT_CAPS)
+
+    expect(coherent.levers).toEqual({ opex_pct: -10 })
+    expect(oob.levers).toEqual({})
+  })
+
+  it('should move the P&L and working capital and keep standing levers in force', () => {
+    const control = engine.resolveTurn(baseState, 'Hold steady', neutralEvaluation)
+    const declared = 'Cut OpEx by 10%; negotiate +15 days DPO.'
+    const cut = engine.resolveTurn(baseState, declared, withLevers(declared))
+
+    expect(cut.levers.declared).toEqual({ opex_pct: -10, dpo_days: 15 })
+    // The OpEx lever moves non-payroll spend; payroll moves with headcount
+    const payroll = laborSplit(control.financials.labor!).opex
+    expect(cut.financials.pnl.opex).toBeCloseTo(payroll + (control.financials.pnl.opex - payroll) * 0.9, 0)
+    expect(cut.financials.balance.ap).toBeCloseTo(control.financials.balance.ap * 45 / 30, 0)
+    expect(cut.explainers.finance).toContain('Levers in force: OpEx -10%, DPO +15 days')
+
+    const nextControl = engine.resolveTurn(control.state_after, 'Hold steady', neutralEvaluation)
+    const next = engine.resolveTurn(cut.state_after, 'Hold steady', neutralEvaluation)
+    expect(next.levers.declared).toEqual({})
+    expect(next.levers.standing).toEqual({ opex_pct: -10, dpo_days: 15 })
+    const nextPayroll = laborSplit(nextControl.financials.labor!).opex
+    expect(next.financials.pnl.opex).toBeCloseTo(nextPayroll + (nextControl.financials.pnl.opex - nextPayroll) * 0.9, 0)
+  })
+
+  it('should spend declared capex only in the declaring turn', () => {
+    const declared = 'Invest $400k in automation for the assembly line'
+    const invest = engine.resolveTurn(baseState, declared, withLevers(declared))
+    const next = engine.resolveTurn(invest.state_after, 'Hold steady', neutralEvaluation)
+
+    expect(invest.financials.cashflow.cfi).toBeCloseTo(-450_000, 0)
+    expect(invest.state_after.levers).toEqual({})
+    expect(next.financials.cashflow.cfi).toBeCloseTo(-50_000, 0)
+  })
+
+  it('should ignore negated quantities', () => {
+    expect(extractLevers('We will not cut prices by 10%')).toEqual({})
+    expect(extractLevers("We won't reduce OpEx by 5%; extend payment terms by 10 days")).toEqual({ dpo_days: 10 })
+    expect(extractLevers('Never offer a 20% discount, but cut OpEx by 5%')).toEqual({ opex_pct: -5 })
+
+    const declared = 'We will not cut prices by 10%'
+    const held = engine.resolveTurn(baseState, declared, withLevers(declared))
+    expect(held.state_after.levers).toEqual({})
+  })
+
+  it('should apply a promotional discount only in the declaring turn', () => {
+    const declared = 'Offer a 10% discount for early orders'
+    expect(extractLevers(declared)).toEqual({ promo_pct: -10 })
+
+    const control = engine.resolveTurn(baseState, 'Hold steady', neutralEvaluation)
+    const promo = engine.resolveTurn(baseState, declared, withLevers(declared))
+    const next = engine.resolveTurn(promo.state_after, 'Hold steady', neutralEvaluation)
+    const nextControl = engine.resolveTurn(control.state_after, 'Hold steady', neutralEvaluation)
+
+    expect(promo.explainers.finance).toContain('Levers in force: promotion -10% this turn')
+    expect(promo.financials.pnl.revenue).not.toBeCloseTo(control.financials.pnl.revenue, 0)
+    expect(promo.state_after.levers).toEqual({})
+    expect(next.levers.standing).toEqual({})
+    expect(next.explainers.finance.some(e => e.startsWith('Levers in force'))).toBe(false)
+    expect(next.financials.pnl.revenue).toBeCloseTo(nextControl.financials.pnl.revenue, 0)
+  })
+})
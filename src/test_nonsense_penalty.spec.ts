@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest'
 import { Evaluator } from './evaluator'
-import { StatePacket, RngEvent, Caps } from './contracts'
+import { StatePacket, RngEvent, Caps, CapsSchema } from './contracts'
 
 describe('Nonsense Penalty', () => {
   const evaluator = new Evaluator()
@@ -33,7 +33,7 @@ describe('Nonsense Penalty', () => {
     recent_moves: []
   }
   
-  const mockCaps: Caps = { morale: 3.0, credibility: 2.0, service_risk: 0.6, backlog_pressure: 1.0 }
+  const mockCaps: Caps = CapsSchema.parse({ morale: 3.0, credibility: 2.0, service_risk: 0.6, backlog_pressure: 1.0 })
 
   it('should apply penalty to nonsense declarations', async () => {
     const rngEvent: RngEvent = { roll: 50, event_type: 'none' }
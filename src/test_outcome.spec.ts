@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import { Engine } from './engine'
+import { evaluateOutcome, compositeScore, isInsolvent, trailingEbit, OUTCOME_BONUS, EBIT_TARGET_TURNS } from './outcome'
+import { DEFAULT_OUTCOME_CONFIG, EvaluatorOutput, State, TurnResult } from './contracts'
+
+describe('Run Outcomes', () => {
+  const engine = new Engine()
+  const config = DEFAULT_OUTCOME_CONFIG
+
+  const neutral: EvaluatorOutput = {
+    assessment: { intent: [], targets: [], tone: 'neutral', fit_reasons: [] },
+    signals: {
+      morale: { dir: 'none', strength: 0 },
+      credibility: { dir: 'none', strength: 0 },
+      backlog_pressure: { dir: 'none', strength: 0 },
+      service_risk: { dir: 'none', strength: 0 }
+    },
+    event: { roll: 50, event_type: 'none', impact_channels: {}, severity_note: '' },
+    integrated: { synergy: 'neutral', narrative_hook: '' },
+    penalties: { nonsense_penalty: 0 },
+    policy: { oob: false, violations: [] },
+    rationale: ''
+  }
+
+  // Play n neutral turns, letting `tweak` adjust each closing state
+  const play = (n: number, tweak: (state: State) => State = s => s): TurnResult[] => {
+    const turns: TurnResult[] = []
+    let state = engine.createInitialState('outcome-seed')
+    for (let i = 0; i < n; i++) {
+      const result = engine.resolveTurn(state, 'Hold the course', neutral)
+      result.state_after = tweak(result.state_after)
+      turns.push(result)
+      state = result.state_after
+    }
+    return turns
+  }
+
+  it('should keep an ordinary run going', () => {
+    expect(evaluateOutcome([], config)).toBeUndefined()
+    expect(evaluateOutcome(play(2), config)).toBeUndefined()
+  })
+
+  it('should end in insolvency when cash and credit are exhausted', () => {
+    const closing = (cash: number, debt: number) => (s: State) => ({
+      ...s,
+      financials: { ...s.financials!, balance: { ...s.financials!.balance, cash, debt } }
+    })
+    const limit = engine.createInitialState('outcome-seed').credit_facility!.limit
+    const turns = play(1, closing(0, limit))
+
+    expect(isInsolvent(turns[0].state_after, config)).toBe(true)
+    // A fully drawn revolver with cash left, or cash gone with headroom left, is not insolvency
+    expect(isInsolvent(play(1, closing(250_000, limit))[0].state_after, config)).toBe(false)
+    expect(isInsolvent(play(1, closing(0, limit - 100_000))[0].state_after, config)).toBe(false)
+    expect(isInsolvent(play(1, closing(0, limit + 100_000))[0].state_after, config)).toBe(true)
+    expect(evaluateOutcome(turns, config)).toMatchObject({ result: 'defeat', reason: 'insolvency', turn_no: 1 })
+  })
+
+  it('should oust the CEO only after credibility stays below the floor', () => {
+    const lowCred = (s: State) => ({ ...s, credibility: 20 })
+    const brief = [...play(1), ...play(2, lowCred).slice(1)]
+    const sustained = play(3, lowCred)
+
+    expect(evaluateOutcome(brief, config)).toBeUndefined()
+    expect(evaluateOutcome(sustained, config)).toMatchObject({ result: 'defeat', reason: 'board_ouster' })
+  })
+
+  it('should declare victory on the share or trailing EBIT target', () => {
+    const share = play(1, s => ({ ...s, share: config.share_target }))
+    const year = play(EBIT_TARGET_TURNS)
+    const target = { ...config, ebit_target: trailingEbit(year) }
+
+    expect(evaluateOutcome(share, config)).toMatchObject({ result: 'victory', reason: 'share_target' })
+    expect(evaluateOutcome(year, target)).toMatchObject({ result: 'victory', reason: 'ebit_target', turn_no: EBIT_TARGET_TURNS })
+    // Short of a full year even the best single month does not win
+    const best = Math.max(...year.map(t => t.financials.pnl.ebit))
+    expect(evaluateOutcome(year.slice(0, -1), { ...config, ebit_target: best })).toBeUndefined()
+  })
+
+  it('should not hand a passive company the EBIT victory', () => {
+    const turns = play(config.max_turns)
+
+    turns.forEach((_, i) => {
+      expect(evaluateOutcome(turns.slice(0, i + 1), { ...config, max_turns: Infinity })).toBeUndefined()
+    })
+    expect(trailingEbit(turns)).toBeLessThan(config.ebit_target)
+  })
+
+  it('should end at the turn limit', () => {
+    const outcome = evaluateOutcome(play(2), { ...config, max_turns: 2 })
+
+    expect(outcome).toMatchObject({ result: 'survived', reason: 'max_turns', turn_no: 2 })
+  })
+
+  it('should score the closing state and the way the run ended', () => {
+    const state = play(1)[0].state_after
+    const survived = compositeScore(state, config, 'survived')
+
+    expect(survived).toBeGreaterThan(0)
+    expect(survived).toBeLessThanOrEqual(100)
+    expect(compositeScore(state, config, 'victory')).toBeCloseTo(survived + OUTCOME_BONUS.victory, 1)
+    expect(evaluateOutcome(play(2), { ...config, max_turns: 2 })?.score).toBe(compositeScore(play(2)[1].state_after, config, 'survived'))
+  })
+})
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import { Engine } from './engine'
+import { updatePressures, addressedCategories, PRESSURE_BASELINE, LEGACY_FLAG_THRESHOLDS } from './pressures'
+import { State, RngEvent } from './contracts'
+
+describe('Pressure Dynamics', () => {
+  const engine = new Engine()
+  const baseState: State = engine.createInitialState('pressure-seed')
+
+  const laborShock: RngEvent = {
+    roll: 90,
+    event_type: 'labor',
+    tier: '2',
+    name: 'Shift walkouts',
+    flag_bump: 0.12,
+    tail_risk_bump: 10
+  }
+
+  it('should bump the event category and tail risk', () => {
+    const update = updatePressures(baseState, laborShock, 'Hold the course')
+
+    expect(update.flags.labor).toBeGreaterThan(baseState.flags.labor)
+    expect(update.tail_risk).toBeGreaterThan(baseState.tail_risk!)
+    // Untouched categories only decay toward baseline
+    expect(update.flags.tech).toBeCloseTo(PRESSURE_BASELINE.tech, 6)
+  })
+
+  it('should decay pressures back toward baseline', () => {
+    let state: State = { ...baseState, flags: { ...baseState.flags, supply: 0.8 }, tail_risk: 60 }
+    for (let i = 0; i < 20; i++) {
+      const update = updatePressures(state, undefined, 'Hold the course')
+      state = { ...state, flags: update.flags, tail_risk: update.tail_risk }
+    }
+
+    expect(state.flags.supply).toBeLessThan(0.2)
+    expect(state.tail_risk!).toBeLessThan(15)
+  })
+
+  it('should relieve categories the declaration addresses', () => {
+    const stressed: State = { ...baseState, flags: { ...baseState.flags, quality: 0.4 } }
+    const ignored = updatePressures(stressed, undefined, 'Hold the course')
+    const addressed = updatePressures(stressed, undefined, 'Launch a warranty and quality inspection blitz')
+    const nonsense = updatePressures(stressed, undefined, 'Launch a warranty and quality inspection blitz', false)
+
+    expect(addressedCategories('Launch a warranty and quality inspection blitz')).toEqual(['quality'])
+    expect(addressed.flags.quality).toBeLessThan(ignored.flags.quality)
+    expect(nonsense.flags.quality).toBe(ignored.flags.quality)
+  })
+
+  it('should derive legacy boolean flags from thresholds', () => {
+    const stressed: State = { ...baseState, flags: { ...baseState.flags, labor: LEGACY_FLAG_THRESHOLDS.labor_tense } }
+    const update = updatePressures(stressed, laborShock, 'Hold the course')
+
+    expect(update.flags.labor_tense).toBe(true)
+    expect(update.flags.supply_fragile).toBe(update.flags.supply >= LEGACY_FLAG_THRESHOLDS.supply_fragile)
+  })
+
+  it('should feed evolving pressures back into shock pressure', () => {
+    const calm = engine.generateRngEvent(baseState, 0)
+    const stressedFlags = { ...baseState.flags, supply: 1, labor: 1, quality: 1, competition: 1 }
+    const stressed = engine.generateRngEvent({ ...baseState, flags: stressedFlags }, 0)
+
+    // Same PRNG position, so the raw roll matches; the tier reflects the added pressure
+    expect(stressed.roll).toBe(calm.roll)
+    expect(parseInt(stressed.tier!)).toBeGreaterThanOrEqual(parseInt(calm.tier!))
+  })
+
+  it('should update pressures on state_after when resolving a turn', () => {
+    const rngEvent = engine.generateRngEvent(baseState, 0)
+    const evaluation = {
+      assessment: { intent: [], targets: [], tone: 'neutral', fit_reasons: [] },
+      signals: {
+        morale: { dir: 'none' as const, strength: 0 },
+        credibility: { dir: 'none' as const, strength: 0 },
+        backlog_pressure: { dir: 'none' as const, strength: 0 },
+        service_risk: { dir: 'none' as const, strength: 0 }
+      },
+      event: { roll: rngEvent.roll, event_type: rngEvent.event_type, impact_channels: {}, severity_note: '' },
+      integrated: { synergy: 'neutral' as const, narrative_hook: '' },
+      penalties: { nonsense_penalty: 0 },
+      policy: { oob: false, violations: [] },
+      rationale: ''
+    }
+
+    const result = engine.resolveTurn(baseState, 'Hold the course', evaluation, rngEvent)
+    const expected = updatePressures(baseState, rngEvent, 'Hold the course')
+
+    expect(result.state_after.flags).toEqual(expected.flags)
+    expect(result.state_after.tail_risk).toBe(expected.tail_risk)
+  })
+})
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest'
+import { Engine } from './engine'
+import { computeFinancials } from './finance'
+import { buildProductLines, linesNamedBy } from './productLines'
+import { PRODUCT_LINES } from './rules/productLines'
+import { EvaluatorOutput, FinancialDrivers, FinancialParams, MiniBalanceSheet, RngEvent, State } from './contracts'
+
+describe('Product Lines', () => {
+  const drivers: FinancialDrivers = {
+    units_sold: 10_000,
+    avg_price: 100,
+    unit_cost: 60,
+    opex_base: 300_000,
+    capex_base: 50_000,
+    dso: 30,
+    dpo: 30,
+    dio: 45
+  }
+
+  const params: FinancialParams = {
+    period_days: 30,
+    min_cash_buffer: 250_000,
+    depreciation_life_years: 5,
+    price_to_units: 0,
+    morale_to_units: 0,
+    credibility_to_price: 0,
+    scrap_rate: 0
+  }
+
+  // Balanced, steady-state working capital so no plug or working-capital swing
+  const balance: MiniBalanceSheet = {
+    cash: 1_000_000, ar: 1_000_000, inventory: 900_000, ppe: 2_000_000,
+    ap: 600_000, debt: 0, retained_earnings: 1_350_000, other_equity: 2_950_000
+  }
+
+  const sum = (xs: number[]) => xs.reduce((a, b) => a + b, 0)
+
+  it('should split the aggregate drivers without changing the portfolio totals', () => {
+    const lines = buildProductLines({ ...drivers, units_sold: 12_000, avg_price: 110, unit_cost: 54 })
+
+    expect(lines.map(l => l.id)).toEqual(PRODUCT_LINES.map(l => l.id))
+    expect(sum(lines.map(l => l.units))).toBeCloseTo(12_000, 6)
+    expect(sum(lines.map(l => l.units * l.price))).toBeCloseTo(12_000 * 110, 6)
+    expect(sum(lines.map(l => l.units * l.unit_cost))).toBeCloseTo(12_000 * 54, 6)
+  })
+
+  it('should shift the mix toward seasonal lines in peak months', () => {
+    const flat = buildProductLines(drivers)
+    const peak = buildProductLines({ ...drivers, units_sold: 17_000 }, 1.7)
+    const units = (lines: typeof flat, id: string) => lines.find(l => l.id === id)!.units
+
+    expect(sum(peak.map(l => l.units))).toBeCloseTo(17_000, 6)
+    expect(units(peak, 'battery_mowers') / units(flat, 'battery_mowers')).toBeGreaterThan(1.7)
+    expect(units(peak, 'parts') / units(flat, 'parts')).toBeLessThan(1.7)
+    expect(units(peak, 'service') / units(flat, 'service')).toBeCloseTo(1, 1)
+  })
+
+  it('should roll the P&L up from the lines and land named event dollars on them', () => {
+    const lines = buildProductLines(drivers)
+    const single = computeFinancials({ prev_balance: balance, drivers, params })
+    const rolled = computeFinancials({ prev_balance: balance, drivers: { ...drivers, lines }, params })
+
+    expect(rolled.pnl.revenue).toBeCloseTo(single.pnl.revenue, 6)
+    expect(rolled.pnl.cogs).toBeCloseTo(single.pnl.cogs, 6)
+    expect(single.lines).toBeUndefined()
+    expect(sum(rolled.lines!.map(l => l.gross_profit))).toBeCloseTo(rolled.pnl.gross_profit, 6)
+
+    const recall = computeFinancials({
+      prev_balance: balance,
+      drivers: { ...drivers, lines },
+      params,
+      event_adjustments: { revenue: -150_000, cogs: 0, opex: 0, cash: 0, lines: { battery_mowers: { revenue: -100_000, cogs: 0 } } }
+    })
+    const line = (id: string) => recall.lines!.find(l => l.id === id)!
+    const base = (id: string) => rolled.lines!.find(l => l.id === id)!
+
+    expect(recall.pnl.revenue).toBeCloseTo(rolled.pnl.revenue - 150_000, 6)
+    // The untargeted $50k is spread by baseline revenue: battery mowers carry half of it
+    expect(line('battery_mowers').revenue).toBeCloseTo(base('battery_mowers').revenue - 125_000, 6)
+    expect(line('service').revenue).toBeCloseTo(base('service').revenue - 5_000, 6)
+    expect(recall.balance_ok).toBe(true)
+    expect(recall.cash_recon_ok).toBe(true)
+  })
+
+  it('should match events to the lines they name', () => {
+    expect(linesNamedBy('Major recall (battery fire risk)').map(l => l.id)).toEqual(['battery_mowers'])
+    expect(linesNamedBy('Spike in warranty claims (starter cord)').map(l => l.id)).toEqual(['gas_mowers'])
+    expect(linesNamedBy('Limited recall (blade hub)').map(l => l.id)).toEqual(['parts'])
+    expect(linesNamedBy('Rival promo blitz at big-box')).toEqual([])
+  })
+
+  it('should report a per-line breakdown on every turn', () => {
+    const engine = new Engine()
+    const baseState: State = engine.createInitialState('lines-seed', { seasonality: 'flat' })
+    const evaluation: EvaluatorOutput = {
+      assessment: { intent: ['test'], targets: ['test'], tone: 'neutral', fit_reasons: ['test'] },
+      signals: {
+        morale: { dir: 'none', strength: 0 },
+        credibility: { dir: 'none', strength: 0 },
+        backlog_pressure: { dir: 'none', strength: 0 },
+        service_risk: { dir: 'none', strength: 0 }
+      },
+      event: { roll: 50, event_type: 'none', impact_channels: {}, severity_note: 'No event' },
+      integrated: { synergy: 'neutral', narrative_hook: 'Test' },
+      penalties: { nonsense_penalty: 0 },
+      policy: { oob: false, violations: [] },
+      rationale: 'Test'
+    }
+    const recall: RngEvent = {
+      roll: 97,
+      event_type: 'supply_shock',
+      tier: '3',
+      name: 'Major recall (battery fire risk)',
+      effects: {
+        revenue_delta: -1.2, cogs_delta: 0, opex_delta: 0, cash_delta: 0,
+        share_delta: 0, nps_delta: 0, morale_delta: 0, backlog_delta: 0, notes: ''
+      }
+    }
+
+    const calm = engine.resolveTurn(baseState, 'Hold steady', evaluation)
+    const shocked = engine.resolveTurn(baseState, 'Hold steady', evaluation, recall)
+    const revenue = (result: typeof calm, id: string) => result.financials.lines!.find(l => l.id === id)!.revenue
+
+    expect(calm.financials.lines).toHaveLength(PRODUCT_LINES.length)
+    expect(sum(calm.financials.lines!.map(l => l.revenue))).toBeCloseTo(calm.financials.pnl.revenue, 6)
+    // $1.2M annual run-rate → $100k this month, all on battery mowers
+    expect(revenue(shocked, 'battery_mowers')).toBeCloseTo(revenue(calm, 'battery_mowers') - 100_000, 0)
+    expect(revenue(shocked, 'gas_mowers')).toBeCloseTo(revenue(calm, 'gas_mowers'), 0)
+    expect(shocked.explainers.finance).toContain('Major recall (battery fire risk) [Battery mowers]: revenue -$100k')
+  })
+})
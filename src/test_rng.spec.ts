@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import { createRngState, rngStream, advanceRng } from './rng'
+import { Engine } from './engine'
+
+describe('Seeded PRNG', () => {
+  const engine = new Engine()
+
+  it('should reproduce the same draws for the same seed and position', () => {
+    const a = rngStream(createRngState('replay-seed'), 'shock_roll')
+    const b = rngStream(createRngState('replay-seed'), 'shock_roll')
+
+    const drawsA = Array.from({ length: 20 }, () => a.nextUint32())
+    const drawsB = Array.from({ length: 20 }, () => b.nextUint32())
+    expect(drawsA).toEqual(drawsB)
+  })
+
+  it('should give independent sub-streams per label and position', () => {
+    const rng = createRngState('split-seed')
+    const shock = rngStream(rng, 'shock_roll').nextUint32()
+    const reward = rngStream(rng, 'reward_roll').nextUint32()
+    const nextTurn = rngStream(advanceRng(rng), 'shock_roll').nextUint32()
+
+    expect(shock).not.toBe(reward)
+    expect(shock).not.toBe(nextTurn)
+  })
+
+  it('should produce well-distributed D100 rolls', () => {
+    const buckets = new Array(10).fill(0)
+    let rng = createRngState('distribution-seed')
+    for (let i = 0; i < 5000; i++) {
+      const roll = rngStream(rng, 'shock_roll').roll(100)
+      expect(roll).toBeGreaterThanOrEqual(1)
+      expect(roll).toBeLessThanOrEqual(100)
+      buckets[Math.floor((roll - 1) / 10)]++
+      rng = advanceRng(rng)
+    }
+
+    // Each decile should hold roughly 10% of the rolls
+    buckets.forEach(count => {
+      expect(count).toBeGreaterThan(400)
+      expect(count).toBeLessThan(600)
+    })
+  })
+
+  it('should not change events when unrelated state fields change', () => {
+    const state = engine.createInitialState('schema-seed')
+    const extended = { ...state, notes: ['harmless schema addition'] }
+
+    expect(engine.generateRngEvent(extended, 0)).toEqual(engine.generateRngEvent(state, 0))
+  })
+
+  it('should advance the stream position once per resolved turn', () => {
+    const state = engine.createInitialState('position-seed')
+    const rngEvent = engine.generateRngEvent(state, 0)
+    const evaluatorOutput = {
+      assessment: { intent: [], targets: [], tone: 'neutral', fit_reasons: [] },
+      signals: {
+        morale: { dir: 'none' as const, strength: 0 },
+        credibility: { dir: 'none' as const, strength: 0 },
+        backlog_pressure: { dir: 'none' as const, strength: 0 },
+        service_risk: { dir: 'none' as const, strength: 0 }
+      },
+      event: { roll: rngEvent.roll, event_type: rngEvent.event_type, impact_channels: {}, severity_note: '' },
+      integrated: { synergy: 'neutral' as const, narrative_hook: '' },
+      penalties: { nonsense_penalty: 0 },
+      policy: { oob: false, violations: [] },
+      rationale: ''
+    }
+
+    const result = engine.resolveTurn(state, 'Hold steady', evaluatorOutput, rngEvent)
+
+    expect(result.state_after.rng).toEqual({ key: state.rng!.key, position: 1 })
+    expect(engine.generateRngEvent(result.state_after, 1)).not.toEqual(rngEvent)
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import { Engine } from './engine'
+import { computeRunway, recordNetFlow, runwayIntent, RUNWAY_CAP_MONTHS, RUNWAY_TRAILING_TURNS } from './runway'
+import { toKpiMetrics } from './stateModel'
+
+describe('Cash Runway', () => {
+  const base = { cash: 600_000, debt: 200_000, credit_limit: 1_000_000, period_days: 30 }
+
+  it('should divide liquidity by trailing burn', () => {
+    const runway = computeRunway({ ...base, flow_history: [-100_000, -200_000, -300_000] })
+
+    // Liquidity = cash + undrawn credit; burn = average net outflow
+    expect(runway.liquidity).toBe(600_000 + 800_000)
+    expect(runway.monthly_burn).toBe(200_000)
+    expect(runway.months).toBeCloseTo(7, 6)
+    expect(runway.profitable).toBe(false)
+  })
+
+  it('should report profitable businesses at the cap', () => {
+    const runway = computeRunway({ ...base, flow_history: [-50_000, 80_000] })
+
+    expect(runway.profitable).toBe(true)
+    expect(runway.months).toBe(RUNWAY_CAP_MONTHS)
+    expect(runway.monthly_burn).toBe(0)
+  })
+
+  it('should keep only the trailing window of net flows', () => {
+    let history: number[] = []
+    for (let i = 0; i < 5; i++) history = recordNetFlow(history, -10_000 * i, -5_000)
+
+    expect(history).toHaveLength(RUNWAY_TRAILING_TURNS)
+    expect(history[history.length - 1]).toBe(-45_000)
+  })
+
+  it('should grade runway for the KPI intent', () => {
+    expect(runwayIntent(2)).toBe('bad')
+    expect(runwayIntent(4)).toBe('warn')
+    expect(runwayIntent(12)).toBe('good')
+  })
+
+  it('should derive cash_runway from the turn financials', () => {
+    const engine = new Engine()
+    const state = engine.createInitialState('runway-seed')
+    const rngEvent = engine.generateRngEvent(state, 0)
+    const evaluation = {
+      assessment: { intent: [], targets: [], tone: 'neutral', fit_reasons: [] },
+      signals: {
+        morale: { dir: 'none' as const, strength: 0 },
+        credibility: { dir: 'none' as const, strength: 0 },
+        backlog_pressure: { dir: 'none' as const, strength: 0 },
+        service_risk: { dir: 'none' as const, strength: 0 }
+      },
+      event: { roll: rngEvent.roll, event_type: rngEvent.event_type, impact_channels: {}, severity_note: '' },
+      integrated: { synergy: 'neutral' as const, narrative_hook: '' },
+      penalties: { nonsense_penalty: 0 },
+      policy: { oob: false, violations: [] },
+      rationale: ''
+    }
+
+    expect(state.cash_runway).toBe(RUNWAY_CAP_MONTHS)
+
+    const result = engine.resolveTurn(state, 'Hold the course', evaluation, rngEvent)
+    const after = result.state_after
+    const expected = computeRunway({
+      cash: result.financials.balance.cash,
+      debt: result.financials.balance.debt,
+      credit_limit: after.runway!.undrawn_credit + result.financials.balance.debt,
+      flow_history: [result.financials.cashflow.cfo + result.financials.cashflow.cfi],
+      period_days: 30
+    })
+
+    expect(after.financials?.flow_history).toHaveLength(1)
+    // The default runway cap spans the full range, so the KPI follows the derived runway
+    expect(after.cash_runway).toBeCloseTo(after.runway!.months, 9)
+    expect(result.clipped.cash_runway).toBeCloseTo(0, 9)
+    expect(after.runway).toEqual(expected)
+    expect(result.applied_deltas.cash_runway).toBeCloseTo(after.cash_runway - state.cash_runway, 6)
+
+    const runwayKpi = toKpiMetrics(after).find(m => m.key === 'cashRunway')
+    expect(runwayKpi?.intent).toBe(runwayIntent(after.cash_runway))
+  })
+})
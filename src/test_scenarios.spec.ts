@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import { Engine } from './engine'
+import { DEFAULT_EVENT_CATALOG, catalogEffects } from './eventCatalog'
+import { evaluateOutcome } from './outcome'
+import { DEFAULT_OUTCOME_CONFIG, EvaluatorOutput, RngEvent, State, TurnResult } from './contracts'
+
+// End-to-end scenarios: whole runs through resolveTurn, checked across finance, events and outcomes
+describe('Turn Scenarios', () => {
+  const engine = new Engine()
+  const none = { dir: 'none' as const, strength: 0 }
+  const neutral: EvaluatorOutput = {
+    assessment: { intent: ['hold'], targets: ['operations'], tone: 'neutral', fit_reasons: ['steady'] },
+    signals: { morale: none, credibility: none, backlog_pressure: none, service_risk: none },
+    event: { roll: 50, event_type: 'none', impact_channels: {}, severity_note: 'No event' },
+    integrated: { synergy: 'neutral', narrative_hook: 'Steady' },
+    penalties: { nonsense_penalty: 0 },
+    policy: { oob: false, violations: [] },
+    rationale: 'Neutral play'
+  }
+  const declaration = 'Hold steady and keep operations running'
+  // Play neutral turns; `events` picks each turn's RNG event (none after the first by default)
+  type Events = (state: State, turn: number) => RngEvent | undefined
+  const play = (state: State, first?: RngEvent, turns = 1, events: Events = (_, i) => i === 0 ? first : undefined): TurnResult[] => {
+    const results: TurnResult[] = []
+    for (let i = 0; i < turns; i++) {
+      results.push(engine.resolveTurn(state, declaration, neutral, events(state, i)))
+      state = results[i].state_after
+    }
+    return results
+  }
+  const plugged = (turn: TurnResult) => (turn.financials.notes ?? []).some(n => n.includes('plug'))
+
+  it('should open at baseline working capital and book no plug on turn 1', () => {
+    const opening = engine.createInitialState('neutral', { seasonality: 'flat' })
+    const b = opening.financials!.balance
+    expect(b.cash + b.ar + b.inventory + b.ppe - b.ap - b.debt - b.retained_earnings - b.other_equity).toBeCloseTo(0)
+
+    const [turn] = play(opening)
+    const after = turn.financials.balance
+    const deltaNwc = (after.ar - b.ar) + (after.inventory - b.inventory) - (after.ap - b.ap)
+
+    // Only the backlog shipped on top of baseline demand moves working capital
+    expect(Math.abs(deltaNwc)).toBeLessThan(0.05 * turn.financials.pnl.revenue)
+    expect(plugged(turn)).toBe(false)
+    expect(after.debt).toBe(0)
+  })
+
+  it('should book a shutdown\'s one-off cash once, in full, and keep it out of EBIT', () => {
+    const opening = engine.createInitialState('neutral', { seasonality: 'flat' })
+    const entry = DEFAULT_EVENT_CATALOG.find(e => e.id === 'factory-shutdown-safety-inspection')!
+    const shutdown = (cash_delta: number): RngEvent => ({
+      roll: 99, event_type: 'supply', tier: '3', name: entry.name, catalog_id: entry.id,
+      effects: { ...catalogEffects(entry), cash_delta }, decay: entry.decay
+    })
+    // Slow decay keeps the shutdown active for seven turns
+    const withCash = play(opening, shutdown(-6), 8)
+    const without = play(opening, shutdown(0), 8)
+    const netDebt = (turn: TurnResult) => turn.financials.balance.debt - turn.financials.balance.cash
+
+    expect(withCash[0].financials.pnl.non_operating).toBeCloseTo(-500_000, 6)
+    expect(netDebt(withCash[0]) - netDebt(without[0])).toBeCloseTo(500_000, 0)
+    expect(withCash.reduce((sum, turn) => sum + turn.financials.pnl.non_operating, 0)).toBeCloseTo(-500_000, 6)
+    withCash.forEach((turn, i) => expect(turn.financials.pnl.ebit).toBeCloseTo(without[i].financials.pnl.ebit, 6))
+    // The run-rate hit decays with the shock: $3.0M a year is $250k in the firing month
+    expect(without[0].financials.pnl.revenue).toBeCloseTo(play(opening)[0].financials.pnl.revenue - 250_000, 0)
+    expect(withCash.some(plugged)).toBe(false)
+  })
+
+  it('should cut the revolver limit on a credit shock without booking a cash loss', () => {
+    const opening = engine.createInitialState('neutral', { seasonality: 'flat' })
+    const entry = DEFAULT_EVENT_CATALOG.find(e => e.id === 'credit-line-cap-reduced')!
+    const [turn] = play(opening, {
+      roll: 99, event_type: 'finance', tier: '3', name: entry.name, catalog_id: entry.id,
+      effects: catalogEffects(entry), decay: entry.decay
+    })
+
+    expect(turn.financials.pnl.non_operating).toBe(0)
+    expect(turn.state_after.credit_facility!.limit).toBe(opening.credit_facility!.limit - 400_000)
+    expect(plugged(turn)).toBe(false)
+  })
+
+  it('should carry most passive companies through a first year on standard, winter included', () => {
+    // Twelve turns from March run through the December-February trough with every end condition
+    // live; a neutral declaration never wins, and only a run of heavy shocks can sink it
+    const runs = Array.from({ length: 20 }, (_, seed) => {
+      const opening = engine.createInitialState(`survival-${seed}`, { difficulty: 'standard' })
+      const turns = play(opening, undefined, 12, (state, i) => engine.generateRngEvent(state, i))
+      const ended = turns.map((_, i) => evaluateOutcome(turns.slice(0, i + 1), DEFAULT_OUTCOME_CONFIG)).find(Boolean)
+      return { turns, ended }
+    })
+
+    expect(runs[0].turns.map(t => t.state_before.period)).toEqual(expect.arrayContaining(['Dec 2026', 'Jan 2027', 'Feb 2027']))
+    expect(runs.filter(r => r.ended?.result === 'victory')).toEqual([])
+    expect(runs.filter(r => !r.ended).length).toBeGreaterThanOrEqual(17)
+    expect(runs.some(r => r.turns.some(plugged))).toBe(false)
+  })
+})
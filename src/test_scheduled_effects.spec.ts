@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import { Engine } from './engine'
+import { Evaluator } from './evaluator'
+import { detectLaggedActions, advanceScheduledEffects } from './scheduledEffects'
+import { toStatePacket } from './stateModel'
+import { State, StateSchema, EvaluatorOutput, RngEvent, DEFAULT_CAPS } from './contracts'
+
+describe('Scheduled Effects', () => {
+  const engine = new Engine()
+  const baseState: State = engine.createInitialState('scheduled-seed', { seasonality: 'flat' })
+  const marketing = 'Increase Marketing by 15% targeting pro-sumer segment; expect lagged payoff.'
+
+  const neutralEvaluation: EvaluatorOutput = {
+    assessment: { intent: ['test'], targets: ['test'], tone: 'neutral', fit_reasons: ['test'] },
+    signals: {
+      morale: { dir: 'none', strength: 0 },
+      credibility: { dir: 'none', strength: 0 },
+      backlog_pressure: { dir: 'none', strength: 0 },
+      service_risk: { dir: 'none', strength: 0 }
+    },
+    event: { roll: 50, event_type: 'none', impact_channels: {}, severity_note: 'No event' },
+    integrated: { synergy: 'neutral', narrative_hook: 'Test' },
+    penalties: { nonsense_penalty: 0 },
+    policy: { oob: false, violations: [] },
+    rationale: 'Test'
+  }
+  const marketingEvaluation: EvaluatorOutput = { ...neutralEvaluation, scheduled: detectLaggedActions(marketing) }
+
+  const play = (first: EvaluatorOutput, turns: number) => {
+    const results = []
+    let state = baseState
+    for (let i = 0; i < turns; i++) {
+      const result = engine.resolveTurn(state, i === 0 ? marketing : 'Hold steady', i === 0 ? first : neutralEvaluation)
+      results.push(result)
+      state = result.state_after
+    }
+    return results
+  }
+
+  it('should tag the marketing quick action with spend now and payoff over the next 3 turns', () => {
+    const [spend, payoff] = detectLaggedActions(marketing)
+
+    expect(spend).toMatchObject({ delay: 0, duration: 1 })
+    expect(spend.effects.opex).toBe(60_000)
+    expect(payoff).toMatchObject({ delay: 1, duration: 3 })
+    expect(payoff.effects.units_pct).toBeCloseTo(4.5, 6)
+    expect(detectLaggedActions('Hold steady and protect Customer Support')).toEqual([])
+  })
+
+  it('should only schedule effects for coherent, in-bounds declarations', async () => {
+    const evaluator = new Evaluator()
+    const rngEvent: RngEvent = { roll: 50, event_type: 'none' }
+    const packet = toStatePacket(baseState)
+
+    const coherent = await evaluator.evaluate(marketing, packet, rngEvent, DEFAULT_CAPS)
+    const oob = await evaluator.evaluate(`${marketing} A $50 million investment lands tomorrow.`, packet, rngEvent, DEFAULT_CAPS)
+
+    expect(coherent.scheduled).toHaveLength(2)
+    expect(oob.policy.oob).toBe(true)
+    expect(oob.scheduled).toEqual([])
+  })
+
+  it('should cost OpEx now and lift units only on the following 3 turns', () => {
+    const control = play(neutralEvaluation, 5)
+    const pushed = play(marketingEvaluation, 5)
+
+    expect(pushed[0].financials.pnl.opex - control[0].financials.pnl.opex).toBeCloseTo(60_000, 0)
+    expect(pushed[0].financials.pnl.revenue).toBeCloseTo(control[0].financials.pnl.revenue, 0)
+
+    for (const i of [1, 2, 3]) {
+      expect(pushed[i].financials.pnl.revenue / control[i].financials.pnl.revenue).toBeCloseTo(1.045, 3)
+      expect(pushed[i].state_after.share).toBeGreaterThan(control[i].state_after.share)
+    }
+    // The first payoff turn opens from the same share, so the push adds exactly its 0.15 points;
+    // later turns are pulled back toward the attraction-model share
+    expect(pushed[1].deltas.share - control[1].deltas.share).toBeCloseTo(0.15, 6)
+    expect(pushed[4].financials.pnl.revenue).toBeCloseTo(control[4].financials.pnl.revenue, 0)
+  })
+
+  it('should list queued, applied and pending effects in the turn result', () => {
+    const pushed = play(marketingEvaluation, 5)
+
+    expect(pushed[0].scheduled_effects.queued.map(e => e.id)).toEqual(['t1-1', 't1-2'])
+    expect(pushed[0].scheduled_effects.applied.map(e => e.id)).toEqual(['t1-1'])
+    expect(pushed[0].scheduled_effects.pending).toMatchObject([{ id: 't1-2', start_turn: 2, end_turn: 4 }])
+    expect(pushed[0].state_after.scheduled_effects).toEqual(pushed[0].scheduled_effects.pending)
+    expect(pushed[2].explainers.finance.some(line => line.includes('turn 2 of 3'))).toBe(true)
+    expect(pushed[3].scheduled_effects.pending).toEqual([])
+    expect(pushed[4].scheduled_effects.applied).toEqual([])
+  })
+
+  it('should replay identically from a round-tripped queue', () => {
+    const first = engine.resolveTurn(baseState, marketing, marketingEvaluation)
+    const reloaded = StateSchema.parse(JSON.parse(JSON.stringify(first.state_after)))
+
+    const a = engine.resolveTurn(first.state_after, 'Hold steady', neutralEvaluation)
+    const b = engine.resolveTurn(reloaded, 'Hold steady', neutralEvaluation)
+
+    expect(b).toEqual(a)
+    expect(advanceScheduledEffects(reloaded, undefined, 2).applied).toHaveLength(1)
+  })
+})
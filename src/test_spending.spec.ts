@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import { Engine } from './engine'
+import { computeFinancials } from './finance'
+import { NO_DIRECT_SPENDING, detectCashSpending, directSpending } from './spending'
+import { EvaluatorOutput, FinanceInput, MiniBalanceSheet, State } from './contracts'
+
+describe('Direct Cash Spending', () => {
+  const balance: MiniBalanceSheet = {
+    cash: 1_000_000,
+    ar: 250_000,
+    inventory: 300_000,
+    ppe: 2_000_000,
+    ap: 200_000,
+    debt: 0,
+    retained_earnings: 1_650_000,
+    other_equity: 1_700_000
+  }
+  const input: FinanceInput = {
+    prev_balance: balance,
+    drivers: { units_sold: 10_000, avg_price: 100, unit_cost: 60, opex_base: 300_000, capex_base: 50_000, dso: 30, dpo: 30, dio: 45 },
+    params: { period_days: 30, min_cash_buffer: 250_000, depreciation_life_years: 5, price_to_units: 0, morale_to_units: 0, credibility_to_price: 0, scrap_rate: 0 }
+  }
+  const identities = (snapshot: ReturnType<typeof computeFinancials>) => {
+    const b = snapshot.balance
+    expect(b.cash + b.ar + b.inventory + b.ppe).toBeCloseTo(b.ap + b.debt + b.retained_earnings + b.other_equity, 6)
+    expect(snapshot.cash_close).toBeCloseTo(snapshot.cash_open + snapshot.cashflow.cfo + snapshot.cashflow.cfi + snapshot.cashflow.cff, 6)
+    expect(snapshot.cash_recon_ok).toBe(true)
+    expect(snapshot.notes?.some(note => note.includes('plug'))).toBe(false)
+  }
+
+  it('should classify declared spending by what it buys', () => {
+    expect(detectCashSpending('Pay $2m in employee bonuses')).toEqual({ category: 'opex', amount: 2_000_000 })
+    expect(detectCashSpending('Spend 20% of our cash on new equipment')).toEqual({ category: 'capex', cash_pct: 20 })
+    expect(detectCashSpending('Give all our cash to shareholders')).toEqual({ category: 'capital_return', cash_pct: 100 })
+    expect(detectCashSpending('Spend 10% of cash')).toEqual({ category: 'opex', cash_pct: 10 })
+    expect(detectCashSpending('Give a $200k bonus to the assembly team')).toEqual({ category: 'opex', amount: 200_000 })
+    expect(detectCashSpending('We are investing 1.5m in new tooling')).toEqual({ category: 'capex', amount: 1_500_000 })
+    expect(detectCashSpending('Grow revenue 5m to lift share')).toBeNull()
+    expect(detectCashSpending('Hold steady')).toBeNull()
+  })
+
+  it('should not read losses or event descriptions as spending', () => {
+    expect(detectCashSpending('We lost 2m in the factory fire')).toBeNull()
+    expect(detectCashSpending('The recall cost $500k for the blade hub team')).toBeNull()
+    expect(detectCashSpending('Cut payroll by 2m for staff')).toBeNull()
+    expect(detectCashSpending('Pay down 2m of debt')).toBeNull()
+    expect(detectCashSpending('We lost 2m in the factory fire, so invest 500k in new equipment')).toEqual({ category: 'capex', amount: 500_000 })
+  })
+
+  it('should size a share of cash from the opening balance and not double count levers', () => {
+    expect(directSpending({ category: 'capex', cash_pct: 20 }, 1_000_000, {})).toEqual({ ...NO_DIRECT_SPENDING, capex: 200_000 })
+    expect(directSpending({ category: 'opex', amount: 50_000 }, 1_000_000, { capex: 400_000 })).toEqual({ ...NO_DIRECT_SPENDING, opex: 50_000 })
+    // "Invest $400k in automation" is already the capex lever
+    expect(directSpending({ category: 'capex', amount: 400_000 }, 1_000_000, { capex: 400_000 })).toEqual(NO_DIRECT_SPENDING)
+    expect(directSpending({ category: 'capital_return', amount: 100_000 }, 1_000_000, { dividend: 100_000 })).toEqual(NO_DIRECT_SPENDING)
+  })
+
+  it('should expense OpEx spending through the P&L', () => {
+    const base = computeFinancials(input)
+    const bonus = computeFinancials({ ...input, direct_cash_spending: { ...NO_DIRECT_SPENDING, opex: 100_000 } })
+
+    expect(bonus.pnl.opex - base.pnl.opex).toBeCloseTo(100_000, 6)
+    expect(bonus.pnl.net_income).toBeLessThan(base.pnl.net_income)
+    expect(bonus.direct_spending).toEqual({ ...NO_DIRECT_SPENDING, opex: 100_000 })
+    identities(bonus)
+  })
+
+  it('should capitalise capex and distribute a capital return', () => {
+    const base = computeFinancials(input)
+    const capex = computeFinancials({ ...input, direct_cash_spending: { ...NO_DIRECT_SPENDING, capex: 200_000 } })
+    expect(capex.cashflow.cfi - base.cashflow.cfi).toBeCloseTo(-200_000, 6)
+    expect(capex.balance.ppe - base.balance.ppe).toBeCloseTo(200_000, 6)
+    expect(capex.pnl.net_income).toBeCloseTo(base.pnl.net_income, 6)
+    identities(capex)
+
+    const payout = computeFinancials({ ...input, direct_cash_spending: { ...NO_DIRECT_SPENDING, capital_return: 150_000 } })
+    // Paid from cash, with the revolver restoring the buffer
+    const netCash = (snapshot: typeof base) => snapshot.balance.cash - snapshot.balance.debt
+    expect(netCash(base) - netCash(payout)).toBeCloseTo(150_000, 6)
+    expect(base.balance.retained_earnings - payout.balance.retained_earnings).toBeCloseTo(150_000, 6)
+    expect(payout.pnl.net_income).toBeCloseTo(base.pnl.net_income, 6)
+    identities(payout)
+  })
+
+  it('should route declared spending through the turn financials', () => {
+    const engine = new Engine()
+    const baseState: State = engine.createInitialState('spending-seed', { seasonality: 'flat' })
+    const evaluation: EvaluatorOutput = {
+      assessment: { intent: ['test'], targets: ['test'], tone: 'neutral', fit_reasons: ['test'] },
+      signals: {
+        morale: { dir: 'none', strength: 0 },
+        credibility: { dir: 'none', strength: 0 },
+        backlog_pressure: { dir: 'none', strength: 0 },
+        service_risk: { dir: 'none', strength: 0 }
+      },
+      event: { roll: 50, event_type: 'none', impact_channels: {}, severity_note: 'No event' },
+      integrated: { synergy: 'neutral', narrative_hook: 'Test' },
+      penalties: { nonsense_penalty: 0 },
+      policy: { oob: false, violations: [] },
+      rationale: 'Test'
+    }
+
+    const hold = engine.resolveTurn(baseState, 'Hold steady', evaluation)
+    const bonus = engine.resolveTurn(baseState, 'Pay $200k in staff bonuses', evaluation)
+    expect(bonus.financials.pnl.opex - hold.financials.pnl.opex).toBeCloseTo(200_000, 6)
+    expect(bonus.financials.cash_recon_ok).toBe(true)
+    expect(bonus.explainers.finance).toContain('Direct spending: $200k to OpEx')
+
+    // A capital return is limited to cash above the buffer, like a dividend
+    const payout = engine.resolveTurn(baseState, 'Give all our cash to shareholders', evaluation)
+    const limit = baseState.financials!.balance.cash - 250_000
+    expect(payout.financials.direct_spending?.capital_return).toBe(limit)
+    expect(payout.equity.dividends).toBe(limit)
+    expect(payout.financials.cash_recon_ok).toBe(true)
+  })
+})
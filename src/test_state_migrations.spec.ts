@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import { migrateState, migrateLogEntry, migrateRunLog, STATE_MIGRATIONS } from './stateMigrations'
+import { Engine, STARTING_BALANCE } from './engine'
+import { STATE_SCHEMA_VERSION } from './stateModel'
+
+describe('State Migrations', () => {
+  // Turn 0 snapshot as written by the original V2 Lite server
+  const legacyState = {
+    turn_no: 0,
+    event: { category: 'operational', tier: 'low' },
+    morale: 91,
+    credibility: 91,
+    backlog: 1096,
+    service: 91,
+    share: 146,
+    cash_runway: 18,
+    flags: { supply_fragile: true, labor_tense: true, quality_watch: false, tail_risk: true },
+    pressures: { margin_push: true },
+    headroom: { ot_pct: 16, temps_allowed: true },
+    recent_moves: []
+  }
+
+  it('should open legacy states from the starting balance', () => {
+    const state = migrateState(legacyState)
+
+    expect(state.financials?.balance).toEqual(STARTING_BALANCE)
+    expect(state.flags.supply).toBe(0.1)
+  })
+
+  it('should keep an existing carried balance', () => {
+    const balance = { ...STARTING_BALANCE, cash: 420_000 }
+    const state = migrateState({ ...legacyState, financials: { balance } })
+
+    expect(state.financials?.balance.cash).toBe(420_000)
+  })
+
+  it('should re-denominate version 1 share and sync the views', () => {
+    const state = migrateState({ ...legacyState, kpis: { share_percent: 8.4, service_nps: 74, morale: 66, backlog_units: 6000 } })
+
+    expect(state.schema_version).toBe(STATE_SCHEMA_VERSION)
+    expect(state.share).toBeCloseTo(146 * 8.4 / 125, 2)
+    expect(state.kpis).toEqual({ share_percent: state.share, service_nps: 91, morale: 91, backlog_units: 1096 })
+    expect(state.ceo_credibility).toBe(91)
+  })
+
+  it('should leave current states unchanged', () => {
+    const current = new Engine().createInitialState('current-seed')
+
+    expect(migrateState(JSON.parse(JSON.stringify(current)))).toEqual(current)
+  })
+
+  it('should run every step above a version 2 state and fill the fields it predates', () => {
+    const current = new Engine().createInitialState('current-seed')
+    const { runway, period, seasonality, scheduled_effects, credit_facility, equity, market, workforce, open_chains, difficulty, ...v2 } = current
+    const state = migrateState({ ...JSON.parse(JSON.stringify(v2)), schema_version: 2 })
+
+    expect(STATE_MIGRATIONS.map(step => step.version)).toEqual([2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12])
+    expect(STATE_MIGRATIONS.at(-1)!.version).toBe(STATE_SCHEMA_VERSION)
+    expect(state.share).toBe(current.share)
+    expect(state).toMatchObject({ period: 'Sep 2025', scheduled_effects: [], open_chains: [], difficulty: 'standard' })
+    expect(state.runway!.months).toBeGreaterThan(0)
+    expect(state.credit_facility!.limit).toBe(current.credit_facility!.limit)
+    expect(state.workforce).toEqual(current.workforce)
+    expect(state.market).toEqual(current.market)
+  })
+
+  it('should skip and report log entries that cannot be migrated', () => {
+    const log = migrateRunLog([
+      { type: 'snapshot', runId: 'run', turn_no: 0, state: legacyState },
+      { type: 'snapshot', runId: 'run', turn_no: 1, state: { ...legacyState, turn_no: 'one' } },
+      { type: 'note', runId: 'run' }
+    ])
+
+    expect(log.entries.map(entry => entry.turn_no ?? entry.type)).toEqual([0, 'note'])
+    expect(log.skipped).toEqual([{ line: 2, run_id: 'run', turn_no: 1, error: expect.stringContaining('turn_no') }])
+    expect(() => migrateLogEntry({ type: 'snapshot', state: { ...legacyState, turn_no: 'one' } })).toThrow()
+  })
+
+  it('should migrate states inside turn results', () => {
+    const entry = migrateLogEntry({
+      type: 'turn_result',
+      turn_no: 1,
+      result: { turn_no: 1, state_before: legacyState, state_after: { ...legacyState, turn_no: 1 } }
+    })
+
+    expect(entry.result.state_before.financials.balance).toEqual(STARTING_BALANCE)
+    expect(entry.result.state_after.turn_no).toBe(1)
+  })
+})
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import { Engine } from './engine'
+import { Evaluator } from './evaluator'
+import { STATE_SCHEMA_VERSION, toStatePacket, toKpiMetrics, toTurnFinancials, syncStateViews } from './stateModel'
+
+describe('Canonical State Model', () => {
+  const engine = new Engine()
+  const evaluator = new Evaluator()
+
+  it('should create version 2 states with share as a percentage', () => {
+    const state = engine.createInitialState('model-seed')
+
+    expect(state.schema_version).toBe(STATE_SCHEMA_VERSION)
+    expect(state.share).toBeGreaterThanOrEqual(8)
+    expect(state.share).toBeLessThan(9)
+    expect(state.kpis).toEqual({
+      share_percent: state.share,
+      service_nps: state.service,
+      morale: state.morale,
+      backlog_units: state.backlog
+    })
+    expect(state.ceo_credibility).toBe(state.credibility)
+    expect(state.pnl?.cash).toBe(1.0)
+  })
+
+  it('should keep the views in sync after a turn', async () => {
+    const state = engine.createInitialState('model-seed')
+    const rngEvent = engine.generateRngEvent(state, 0)
+    const evaluation = await evaluator.evaluate('Boost team morale with recognition', toStatePacket(state), rngEvent, engine.getCaps())
+    const result = engine.resolveTurn(state, 'Boost team morale with recognition', evaluation, rngEvent)
+    const after = result.state_after
+
+    expect(after.kpis?.morale).toBe(after.morale)
+    expect(after.kpis?.share_percent).toBe(after.share)
+    expect(after.kpis?.backlog_units).toBe(after.backlog)
+    expect(after.ceo_credibility).toBe(after.credibility)
+    expect(after.pnl?.revenue).toBeCloseTo(result.financials.pnl.revenue / 1_000_000, 6)
+    expect(after.pnl?.cash).toBeCloseTo(result.financials.balance.cash / 1_000_000, 6)
+    expect(syncStateViews(after)).toEqual(after)
+  })
+
+  it('should feed the packet and the UI the same numbers', () => {
+    const state = engine.createInitialState('model-seed')
+    const packet = toStatePacket(state)
+    const metrics = toKpiMetrics(state)
+
+    expect(packet.share).toBe(state.share)
+    expect(packet.kpis?.share_percent).toBe(state.share)
+    expect(metrics.find(m => m.key === 'share')?.value).toBe(state.share)
+    expect(metrics.find(m => m.key === 'backlog')?.value).toBe(packet.backlog)
+    expect(metrics.map(m => m.key)).toEqual(['morale', 'credibility', 'backlog', 'service', 'share', 'cashRunway'])
+  })
+
+  it('should report turn financials from the snapshot', async () => {
+    const state = engine.createInitialState('model-seed')
+    expect(toTurnFinancials(state)).toBeUndefined()
+
+    const rngEvent = engine.generateRngEvent(state, 0)
+    const evaluation = await evaluator.evaluate('Hold the course', toStatePacket(state), rngEvent, engine.getCaps())
+    const result = engine.resolveTurn(state, 'Hold the course', evaluation, rngEvent)
+
+    expect(toTurnFinancials(result.state_after)).toEqual({
+      revenue: result.financials.pnl.revenue,
+      cogs: result.financials.pnl.cogs,
+      opex: result.financials.pnl.opex,
+      ebit: result.financials.pnl.ebit,
+      cash: result.financials.balance.cash
+    })
+  })
+})
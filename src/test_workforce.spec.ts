@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import { Engine } from './engine'
+import {
+  BASE_ATTRITION_PCT, RECRUITING_COST, SEVERANCE_MONTHS,
+  advanceWorkforce, attritionPct, headsIn, hiringFunction, initialWorkforce, laborCosts, laborSplit
+} from './workforce'
+import { WORKFORCE_FUNCTIONS } from './rules/workforce'
+import { EvaluatorOutput, State } from './contracts'
+
+describe('Workforce', () => {
+  const calm = { morale: 80, labor: 0 }
+  const noPremiums = { shift_cost: 0, overtime_cost: 0, temp_cost: 0 }
+  const team = (id: string) => WORKFORCE_FUNCTIONS.find(f => f.id === id)!
+
+  it('should send hires and layoffs to the function the declaration names', () => {
+    expect(hiringFunction('Hire 5 senior sales reps in region West')).toBe('sales')
+    expect(hiringFunction('Lay off 12 assembly workers. Improve customer service.')).toBe('assembly')
+    expect(hiringFunction('Add 3 support technicians')).toBe('support')
+    expect(hiringFunction('Hire 10 people')).toBe('assembly')
+  })
+
+  it('should fill new roles a turn later and charge recruiting when they join', () => {
+    const hiring = advanceWorkforce(initialWorkforce(), { sales: 5 }, calm)
+    const sales = hiring.teams.find(t => t.id === 'sales')!
+    expect(sales.planned).toBe(team('sales').heads + 5)
+    expect(sales.hired).toBe(0)
+    expect(sales.heads).toBeLessThan(team('sales').heads)
+
+    const joined = advanceWorkforce(hiring, {}, calm)
+    const salesNext = joined.teams.find(t => t.id === 'sales')!
+    // Last turn's open roles and leavers are both filled
+    expect(salesNext.hired).toBeCloseTo(team('sales').heads + 5 - sales.heads, 6)
+    expect(laborCosts(joined, noPremiums).recruiting).toBeCloseTo(
+      joined.teams.reduce((sum, t) => sum + t.hired, 0) * RECRUITING_COST, 6)
+  })
+
+  it('should lay off at once and pay severance', () => {
+    const cut = advanceWorkforce(initialWorkforce(), { assembly: -10 }, calm)
+    const assembly = cut.teams.find(t => t.id === 'assembly')!
+    expect(assembly.laid_off).toBe(10)
+    expect(headsIn(cut, 'assembly')).toBeCloseTo((team('assembly').heads - 10) * (1 - BASE_ATTRITION_PCT / 100), 6)
+    expect(laborCosts(cut, noPremiums).severance).toBe(10 * team('assembly').monthly_wage * SEVERANCE_MONTHS)
+  })
+
+  it('should lose more heads when morale is low or labor pressure high', () => {
+    expect(attritionPct(calm)).toBe(BASE_ATTRITION_PCT)
+    expect(attritionPct({ morale: 40, labor: 0 })).toBeGreaterThan(BASE_ATTRITION_PCT)
+    expect(attritionPct({ morale: 80, labor: 0.8 })).toBeGreaterThan(attritionPct({ morale: 80, labor: 0.2 }))
+
+    const unhappy = advanceWorkforce(initialWorkforce(), {}, { morale: 40, labor: 0.5 })
+    const happy = advanceWorkforce(initialWorkforce(), {}, calm)
+    expect(unhappy.headcount).toBeLessThan(happy.headcount)
+  })
+
+  it('should book direct payroll in COGS and the rest in OpEx each turn', () => {
+    const engine = new Engine()
+    const baseState: State = engine.createInitialState('workforce-seed', { seasonality: 'flat' })
+    const evaluation: EvaluatorOutput = {
+      assessment: { intent: ['test'], targets: ['test'], tone: 'neutral', fit_reasons: ['test'] },
+      signals: {
+        morale: { dir: 'none', strength: 0 },
+        credibility: { dir: 'none', strength: 0 },
+        backlog_pressure: { dir: 'none', strength: 0 },
+        service_risk: { dir: 'none', strength: 0 }
+      },
+      event: { roll: 50, event_type: 'none', impact_channels: {}, severity_note: 'No event' },
+      integrated: { synergy: 'neutral', narrative_hook: 'Test' },
+      penalties: { nonsense_penalty: 0 },
+      policy: { oob: false, violations: [] },
+      rationale: 'Test'
+    }
+
+    const result = engine.resolveTurn(baseState, 'Hire sales', evaluation, undefined, [{ type: 'hire', count: 4, function: 'sales' }])
+    const labor = result.financials.labor!
+
+    expect(result.workforce.teams.find(t => t.id === 'sales')!.planned).toBe(team('sales').heads + 4)
+    expect(result.state_after.workforce).toEqual(result.workforce)
+    expect(labor.direct_wages).toBeCloseTo(result.workforce.teams.find(t => t.id === 'assembly')!.wages, 6)
+    expect(laborSplit(labor).opex).toBeCloseTo(labor.indirect_wages + labor.recruiting + labor.severance, 6)
+    expect(result.explainers.finance).toContain(`Workforce: ${Math.round(result.workforce.headcount)} heads, attrition ${result.workforce.attrition_pct.toFixed(1)}%; Sales +4 hiring`)
+  })
+})
@@ -26,10 +26,21 @@ export type Turn = {
   errors?: string[];         // any errors from engine
 };
 
+export type RunOutcome = {
+  result: 'victory' | 'defeat' | 'survived';
+  reason: string;
+  turn_no: number;
+  message: string;
+  score: number;
+};
+
 export type RunState = {
   turn: number;
   kpis: KPIMetric[];
   turns: Turn[]; // most recent first for easy rendering
+  status?: 'active' | 'finished';
+  difficulty?: string;    // label of the run's difficulty preset
+  outcome?: RunOutcome;   // set once the run has ended
 };
 
 export type Theme = 'light' | 'dark';
@@ -116,6 +116,7 @@ function App() {
         theme={theme}
         onThemeChange={handleThemeChange}
         currentTurn={runState.turn}
+        difficulty={runState.difficulty}
         lastUpdate={runState.turns[0]?.timestamp}
       />
 
@@ -134,6 +135,18 @@ function App() {
         </div>
       )}
 
+      {/* Outcome Banner */}
+      {runState.outcome && (
+        <div className={`border px-6 py-3 ${runState.outcome.result === 'defeat'
+          ? 'bg-red-100 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-700 dark:text-red-300'
+          : 'bg-emerald-100 dark:bg-emerald-900/20 border-emerald-200 dark:border-emerald-800 text-emerald-700 dark:text-emerald-300'}`}>
+          <div className="max-w-7xl mx-auto flex justify-between items-center">
+            <span>{runState.outcome.message}</span>
+            <span className="font-semibold">Final score: {runState.outcome.score}</span>
+          </div>
+        </div>
+      )}
+
       {/* Main Content */}
       <div className="flex">
         {/* History Sidebar */}
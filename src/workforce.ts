@@ -0,0 +1,142 @@
+import { Capacity, LaborCosts, State, Workforce, WorkforceFunction } from './contracts'
+import { WORKFORCE_FUNCTIONS, DEFAULT_HIRING_FUNCTION } from './rules/workforce'
+
+/**
+ * Workforce.
+ * Each function in WORKFORCE_FUNCTIONS has a planned headcount and the heads actually on payroll.
+ * Hires raise the plan and join a turn later; layoffs cut the plan and leave at once, with
+ * SEVERANCE_MONTHS of wages. Every turn some heads quit (more when morale is low or labor
+ * pressure high); their roles are backfilled a turn later at RECRUITING_COST a hire. Assembly
+ * payroll and the capacity premiums are direct labor in COGS, the rest is OpEx.
+ */
+
+export const BASE_ATTRITION_PCT = 1        // monthly, at good morale and no labor pressure
+export const MORALE_ATTRITION_PCT = 0.1    // per morale point below ATTRITION_MORALE_FLOOR
+export const ATTRITION_MORALE_FLOOR = 70
+export const LABOR_ATTRITION_PCT = 5       // at labor pressure 1.0
+export const RECRUITING_COST = 4_000       // per head hired or backfilled
+export const SEVERANCE_MONTHS = 2
+export const TEMP_SCRAP_PENALTY = 0.05     // extra scrap on temp-made units
+
+export type HeadcountChanges = Partial<Record<WorkforceFunction, number>>
+
+export interface AttritionDrivers {
+  morale: number
+  labor: number // labor pressure, 0..1
+}
+
+const spec = (id: WorkforceFunction) => WORKFORCE_FUNCTIONS.find(f => f.id === id)!
+
+/**
+ * Monthly attrition rate, percent
+ */
+export function attritionPct({ morale, labor }: AttritionDrivers): number {
+  return BASE_ATTRITION_PCT
+    + MORALE_ATTRITION_PCT * Math.max(0, ATTRITION_MORALE_FLOOR - morale)
+    + LABOR_ATTRITION_PCT * Math.min(1, Math.max(0, labor))
+}
+
+/**
+ * Workforce at the start of a run: every function at its baseline heads
+ */
+export function initialWorkforce(): Workforce {
+  const teams = WORKFORCE_FUNCTIONS.map(f => ({
+    id: f.id,
+    name: f.name,
+    planned: f.heads,
+    heads: f.heads,
+    hired: 0,
+    left: 0,
+    laid_off: 0,
+    wages: f.heads * f.monthly_wage
+  }))
+  return { teams, attrition_pct: 0, headcount: teams.reduce((sum, t) => sum + t.heads, 0) }
+}
+
+/**
+ * Workforce in force for a state; pre-workforce states carry their standing headcount lever into
+ * the default function
+ */
+export function workforceOf(state: State): Workforce {
+  if (state.workforce) return state.workforce
+  const workforce = initialWorkforce()
+  const carried = state.levers?.headcount ?? 0
+  if (carried === 0) return workforce
+  const teams = workforce.teams.map(t => t.id === DEFAULT_HIRING_FUNCTION
+    ? { ...t, planned: Math.max(0, t.planned + carried), heads: Math.max(0, t.heads + carried) }
+    : t)
+  return { ...workforce, teams, headcount: teams.reduce((sum, t) => sum + t.heads, 0) }
+}
+
+/**
+ * Function a declaration's hire or layoff applies to, from the first clause that states a number
+ */
+export function hiringFunction(declaration: string): WorkforceFunction {
+  const clauses = declaration.toLowerCase().split(/[.;\n]/)
+  const clause = clauses.find(c => /\d/.test(c)) ?? declaration.toLowerCase()
+  return WORKFORCE_FUNCTIONS.find(f => f.keywords.some(keyword => clause.includes(keyword)))?.id ?? DEFAULT_HIRING_FUNCTION
+}
+
+/**
+ * Run the workforce for a turn: last turn's open roles fill, this turn's changes apply, then attrition
+ */
+export function advanceWorkforce(prev: Workforce, changes: HeadcountChanges, drivers: AttritionDrivers): Workforce {
+  const rate = attritionPct(drivers)
+
+  const teams = WORKFORCE_FUNCTIONS.map(f => {
+    const before = prev.teams.find(t => t.id === f.id) ?? { planned: f.heads, heads: f.heads }
+    const planned = Math.max(0, before.planned + (changes[f.id] ?? 0))
+    // Open roles from last turn start now, unless this turn's plan no longer has room for them
+    const hired = Math.max(0, Math.min(before.planned, planned) - before.heads)
+    const laid_off = Math.max(0, before.heads - planned)
+    const onPayroll = before.heads + hired - laid_off
+    const left = onPayroll * rate / 100
+    const heads = onPayroll - left
+    return { id: f.id, name: f.name, planned, heads, hired, left, laid_off, wages: heads * f.monthly_wage }
+  })
+
+  return { teams, attrition_pct: rate, headcount: teams.reduce((sum, t) => sum + t.heads, 0) }
+}
+
+/**
+ * Heads on payroll in one function
+ */
+export function headsIn(workforce: Workforce, id: WorkforceFunction): number {
+  return workforce.teams.find(t => t.id === id)?.heads ?? 0
+}
+
+/**
+ * Payroll, hiring and exit costs for the turn, with the capacity premiums as direct labor
+ */
+export function laborCosts(workforce: Workforce, premiums: Pick<Capacity, 'shift_cost' | 'overtime_cost' | 'temp_cost'>): LaborCosts {
+  const payroll = (direct: boolean) => workforce.teams
+    .filter(t => spec(t.id).direct === direct)
+    .reduce((sum, t) => sum + t.wages, 0)
+
+  return {
+    direct_wages: payroll(true),
+    shift_premium: premiums.shift_cost,
+    overtime: premiums.overtime_cost,
+    temps: premiums.temp_cost,
+    indirect_wages: payroll(false),
+    recruiting: workforce.teams.reduce((sum, t) => sum + t.hired, 0) * RECRUITING_COST,
+    severance: workforce.teams.reduce((sum, t) => sum + t.laid_off * spec(t.id).monthly_wage, 0) * SEVERANCE_MONTHS
+  }
+}
+
+/**
+ * Labor charged to COGS and to OpEx
+ */
+export function laborSplit(labor: LaborCosts): { cogs: number; opex: number } {
+  return {
+    cogs: labor.direct_wages + labor.shift_premium + labor.overtime + labor.temps,
+    opex: labor.indirect_wages + labor.recruiting + labor.severance
+  }
+}
+
+/**
+ * Baseline month's payroll, for the opening P&L
+ */
+export function baselineLabor(): LaborCosts {
+  return laborCosts(initialWorkforce(), { shift_cost: 0, overtime_cost: 0, temp_cost: 0 })
+}